@@ -0,0 +1,28 @@
+/**
+ * Notification service worker - Single Responsibility: Relay clicks on timer
+ * notifications to the page, since only worker notifications can offer actions
+ */
+
+self.addEventListener("install", () => self.skipWaiting())
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()))
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+
+  const message = {
+    type: "timer-notification",
+    action: event.action || "open",
+    timerId: event.notification.data && event.notification.data.timerId,
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage(message))
+
+      // Bring the app forward unless the user handled the alert from the notification
+      if (message.action === "open" && clients.length > 0) {
+        return clients[0].focus()
+      }
+    }),
+  )
+})
@@ -0,0 +1,190 @@
+/**
+ * JsonSchemaGenerator - Single Responsibility: Describe an exported TypeScript type
+ * as a JSON Schema (draft 2020-12)
+ *
+ * Runs the TypeScript compiler, so it lives with the build scripts rather than the
+ * app, which runs in the browser. Named interfaces and type aliases become $defs, doc comments
+ * become descriptions, and the @minimum, @maximum, @format and @pattern tags of a
+ * doc comment become the keywords of the same name
+ */
+
+import ts from "typescript"
+
+export type JsonSchema = { [keyword: string]: unknown }
+
+export class JsonSchemaGenerator {
+  private static readonly DRAFT = "https://json-schema.org/draft/2020-12/schema"
+  private static readonly NUMBER_TAGS = ["minimum", "maximum"]
+  private static readonly STRING_TAGS = ["format", "pattern"]
+
+  /**
+   * The schema of a type exported from a file
+   */
+  static generate(fileName: string, typeName: string): JsonSchema {
+    const program = ts.createProgram([fileName], {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      strict: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: [],
+    })
+    const checker = program.getTypeChecker()
+    const sourceFile = program.getSourceFile(fileName)
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile)
+    const symbol = moduleSymbol
+      ? checker.getExportsOfModule(moduleSymbol).find((s) => s.name === typeName)
+      : undefined
+    if (!symbol) {
+      throw new Error(`Type ${typeName} is not exported from ${fileName}`)
+    }
+
+    const defs: Record<string, JsonSchema> = {}
+    const root = JsonSchemaGenerator.describeObject(
+      checker.getDeclaredTypeOfSymbol(symbol),
+      checker,
+      defs,
+    )
+    const description = JsonSchemaGenerator.getDescription(symbol, checker)
+
+    return {
+      $schema: JsonSchemaGenerator.DRAFT,
+      title: typeName,
+      ...(description ? { description } : {}),
+      ...root,
+      ...(Object.keys(defs).length > 0 ? { $defs: JsonSchemaGenerator.sortKeys(defs) } : {}),
+    }
+  }
+
+  private static describe(
+    type: ts.Type,
+    checker: ts.TypeChecker,
+    defs: Record<string, JsonSchema>,
+  ): JsonSchema {
+    const name = JsonSchemaGenerator.getDefinitionName(type)
+    if (name) {
+      if (!(name in defs)) {
+        defs[name] = {} // Claimed first, so recursive types end
+        defs[name] = JsonSchemaGenerator.describeInline(type, checker, defs)
+      }
+      return { $ref: `#/$defs/${name}` }
+    }
+    return JsonSchemaGenerator.describeInline(type, checker, defs)
+  }
+
+  private static describeInline(
+    type: ts.Type,
+    checker: ts.TypeChecker,
+    defs: Record<string, JsonSchema>,
+  ): JsonSchema {
+    if (type.flags & ts.TypeFlags.String) return { type: "string" }
+    if (type.flags & ts.TypeFlags.Number) return { type: "number" }
+    if (type.flags & ts.TypeFlags.Boolean) return { type: "boolean" }
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { const: checker.typeToString(type) === "true" }
+    }
+
+    if (type.isUnion()) {
+      const members = type.types.filter((member) => !(member.flags & ts.TypeFlags.Undefined))
+      if (members.length === 1) return JsonSchemaGenerator.describe(members[0], checker, defs)
+      if (members.every((member) => member.flags & ts.TypeFlags.BooleanLiteral)) {
+        return { type: "boolean" }
+      }
+      if (members.every((member) => member.isStringLiteral() || member.isNumberLiteral())) {
+        return { enum: members.map((member) => (member as ts.LiteralType).value) }
+      }
+      return { anyOf: members.map((member) => JsonSchemaGenerator.describe(member, checker, defs)) }
+    }
+
+    if (checker.isArrayType(type)) {
+      const [itemType] = checker.getTypeArguments(type as ts.TypeReference)
+      return { type: "array", items: JsonSchemaGenerator.describe(itemType, checker, defs) }
+    }
+
+    if (type.flags & ts.TypeFlags.Object) {
+      return JsonSchemaGenerator.describeObject(type, checker, defs)
+    }
+
+    throw new Error(`Cannot describe type ${checker.typeToString(type)} in a JSON Schema`)
+  }
+
+  private static describeObject(
+    type: ts.Type,
+    checker: ts.TypeChecker,
+    defs: Record<string, JsonSchema>,
+  ): JsonSchema {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+
+    checker.getPropertiesOfType(type).forEach((property) => {
+      const description = JsonSchemaGenerator.getDescription(property, checker)
+      const schema = JsonSchemaGenerator.applyTags(
+        JsonSchemaGenerator.describe(checker.getTypeOfSymbol(property), checker, defs),
+        property,
+      )
+      properties[property.name] = description ? { description, ...schema } : schema
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name)
+    })
+
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    }
+  }
+
+  /**
+   * Interfaces and type aliases are described once under their name
+   */
+  private static getDefinitionName(type: ts.Type): string | null {
+    if (type.aliasSymbol) return type.aliasSymbol.name
+    if (type.symbol?.name === "Array") return null
+
+    const isInterface = type.symbol?.declarations?.some((declaration) =>
+      ts.isInterfaceDeclaration(declaration),
+    )
+    return isInterface ? type.symbol.name : null
+  }
+
+  /**
+   * Add the keywords of doc comment tags, to the members of a union they apply to
+   */
+  private static applyTags(schema: JsonSchema, symbol: ts.Symbol): JsonSchema {
+    const tags = symbol
+      .getJsDocTags()
+      .filter(
+        (tag) =>
+          JsonSchemaGenerator.NUMBER_TAGS.includes(tag.name) ||
+          JsonSchemaGenerator.STRING_TAGS.includes(tag.name),
+      )
+    if (tags.length === 0) return schema
+
+    const apply = (target: JsonSchema): JsonSchema => {
+      const keywords: JsonSchema = {}
+      tags.forEach((tag) => {
+        const text = ts.displayPartsToString(tag.text).trim()
+        if (target.type === "number" && JsonSchemaGenerator.NUMBER_TAGS.includes(tag.name)) {
+          keywords[tag.name] = Number(text)
+        }
+        if (target.type === "string" && JsonSchemaGenerator.STRING_TAGS.includes(tag.name)) {
+          keywords[tag.name] = text
+        }
+      })
+      return { ...target, ...keywords }
+    }
+
+    return Array.isArray(schema.anyOf)
+      ? { ...schema, anyOf: schema.anyOf.map((member: JsonSchema) => apply(member)) }
+      : apply(schema)
+  }
+
+  private static getDescription(symbol: ts.Symbol, checker: ts.TypeChecker): string {
+    return ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim()
+  }
+
+  private static sortKeys<T>(record: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)))
+  }
+}
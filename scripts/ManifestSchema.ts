@@ -0,0 +1,27 @@
+/**
+ * ManifestSchema - Single Responsibility: Produce public/manifest.schema.json from
+ * the manifest types in ManifestRepository.ts
+ */
+
+import { fileURLToPath } from "node:url"
+import { JsonSchemaGenerator, JsonSchema } from "./JsonSchemaGenerator"
+
+export class ManifestSchema {
+  static readonly SOURCE_PATH = fileURLToPath(
+    new URL("../src/services/ManifestRepository.ts", import.meta.url),
+  )
+  static readonly OUTPUT_PATH = fileURLToPath(
+    new URL("../public/manifest.schema.json", import.meta.url),
+  )
+
+  static generate(): JsonSchema {
+    return JsonSchemaGenerator.generate(ManifestSchema.SOURCE_PATH, "IDashboardManifest")
+  }
+
+  /**
+   * The schema as written to the published file
+   */
+  static stringify(schema: JsonSchema): string {
+    return `${JSON.stringify(schema, null, 2)}\n`
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Regenerate public/manifest.schema.json after changing the manifest types
+ * Run with `pnpm schema`
+ */
+
+import { writeFileSync } from "node:fs"
+import { relative } from "node:path"
+import { ManifestSchema } from "./ManifestSchema"
+
+writeFileSync(ManifestSchema.OUTPUT_PATH, ManifestSchema.stringify(ManifestSchema.generate()))
+console.info(`Wrote ${relative(process.cwd(), ManifestSchema.OUTPUT_PATH)}`)
@@ -10,8 +10,20 @@ import { StorageService } from "./services/StorageService"
 import { DashboardService } from "./services/DashboardService"
 import { UIRenderer } from "./ui/UIRenderer"
 import { FormHandler } from "./ui/FormHandler"
-import { ManifestRepository } from "./services/ManifestRepository"
-import { SyncUIHandler } from "./ui/SyncUIHandler"
+import { ManifestRepository, IDashboardManifest } from "./services/ManifestRepository"
+import { IMergeOptions, ManifestMergeService } from "./services/ManifestMergeService"
+import { IManifestLoadResult, SyncUIHandler } from "./ui/SyncUIHandler"
+import { ManifestSyncScheduler } from "./services/ManifestSyncScheduler"
+import { ManifestSourceRegistry } from "./services/ManifestSourceRegistry"
+import { ManifestValidator } from "./services/ManifestValidator"
+import { ManifestFormat, ManifestFormatConverter } from "./services/ManifestFormatConverter"
+import { SystemClock } from "./services/SystemClock"
+import { FakeClock } from "./services/FakeClock"
+import { UtteranceContextService } from "./services/UtteranceContextService"
+import { NotificationService } from "./services/NotificationService"
+import { TabStatusRenderer } from "./ui/TabStatusRenderer"
+import { AlertPolicyService } from "./services/AlertPolicyService"
+import { QuietHoursUIHandler } from "./ui/QuietHoursUIHandler"
 import type {
   ITimerService,
   IDashboardService,
@@ -19,7 +31,10 @@ import type {
   IDashboardObserver,
   TimerState,
   IDashboard,
+  IClock,
   ICountdownTimerState,
+  ICountupTimerState,
+  IDeadlineTimerState,
 } from "./types/index"
 
 export class Application implements IDashboardObserver, ITimerObserver {
@@ -28,32 +43,103 @@ export class Application implements IDashboardObserver, ITimerObserver {
   private uiRenderer: UIRenderer
   private formHandler: FormHandler
   private manifestRepository: ManifestRepository
+  private manifestSources: ManifestSourceRegistry
+  private manifestMergeService: ManifestMergeService
+  private manifestSyncSchedulers: Map<string, ManifestSyncScheduler> = new Map()
   private syncUIHandler: SyncUIHandler
+  private notificationService: NotificationService
+  private quietHoursUIHandler: QuietHoursUIHandler
+  private clock: IClock
+  private simulationInterval: ReturnType<typeof setInterval> | null = null
 
   constructor() {
-    const audioService = new AudioService()
-    const storageService = new StorageService()
+    this.clock = this.createClock()
+    const audioService = new AudioService(this.clock)
+    const storageService =
+      this.clock instanceof FakeClock ? StorageService.createSimulated() : new StorageService()
+    // Created before the timers load so alerts of timers resumed after a reload respect it
+    const alertPolicy = new AlertPolicyService(audioService, storageService, this.clock)
 
-    this.timerService = new TimerService(audioService, storageService)
+    this.timerService = new TimerService(alertPolicy, storageService, this.clock)
     this.dashboardService = new DashboardService(storageService)
-    this.uiRenderer = new UIRenderer(this.timerService)
-    this.formHandler = new FormHandler(this.timerService, this.dashboardService)
-    this.manifestRepository = new ManifestRepository()
-    this.syncUIHandler = new SyncUIHandler(this.manifestRepository)
+    const utteranceContext = new UtteranceContextService(
+      this.timerService,
+      this.dashboardService,
+      this.clock,
+    )
+    audioService.setContextProvider(utteranceContext)
+    this.uiRenderer = new UIRenderer(this.timerService, audioService)
+    this.formHandler = new FormHandler(
+      this.timerService,
+      this.dashboardService,
+      audioService,
+      utteranceContext,
+    )
+    // Exports and imports files; each manifest source has a repository of its own
+    this.manifestRepository = new ManifestRepository(this.clock)
+    this.manifestSources = new ManifestSourceRegistry(this.clock)
+    this.manifestMergeService = new ManifestMergeService(
+      this.timerService,
+      this.dashboardService,
+      this.clock,
+    )
+    this.syncUIHandler = new SyncUIHandler(this.manifestSources)
+    this.notificationService = new NotificationService(this.timerService, utteranceContext)
+    this.quietHoursUIHandler = new QuietHoursUIHandler(alertPolicy)
 
     this.timerService.subscribe(this.uiRenderer)
     this.timerService.subscribe(this)
+    this.timerService.subscribe(this.notificationService)
+    this.timerService.subscribe(new TabStatusRenderer(this.timerService))
     this.dashboardService.subscribe(this.uiRenderer)
     this.dashboardService.subscribe(this)
+
+    // Voice pickers in edit mode list the voices known at render time
+    audioService.onVoicesChanged(() => this.renderUI())
+  }
+
+  /**
+   * Use a simulated clock when the page is opened with ?simulateTime=<speed>
+   * Time then runs <speed> times faster and can be fast-forwarded with app.advanceTime()
+   * A speed of 0 stops time until it is advanced by hand
+   */
+  private createClock(): IClock {
+    const simulateTime = new URLSearchParams(window.location.search).get("simulateTime")
+    if (simulateTime === null) {
+      return new SystemClock()
+    }
+
+    const parsedSpeed = parseFloat(simulateTime)
+    const speed = Number.isNaN(parsedSpeed) ? 1 : Math.max(0, parsedSpeed)
+    const fakeClock = new FakeClock()
+    if (speed > 0) {
+      this.simulationInterval = setInterval(() => fakeClock.advance(1000 * speed), 1000)
+    }
+    console.info(`Simulating time at ${speed}x speed`)
+    return fakeClock
   }
 
   initialize(): void {
     this.setupSyncUI()
+    this.setupNotificationsButton()
+    this.setupQuietHoursUI()
     this.renderUI()
     this.formHandler.updateTimerButtonStates()
+    this.formHandler.updateStartAfterOptions()
     this.exposePublicAPI()
   }
 
+  /**
+   * Stop everything that keeps running in the background, when the page goes away
+   */
+  dispose(): void {
+    if (this.simulationInterval !== null) {
+      clearInterval(this.simulationInterval)
+      this.simulationInterval = null
+    }
+    this.manifestSyncSchedulers.forEach((scheduler) => scheduler.stop())
+  }
+
   private setupSyncUI(): void {
     // Render sync configuration section
     const configHtml = this.syncUIHandler.renderConfigSection()
@@ -62,77 +148,134 @@ export class Application implements IDashboardObserver, ITimerObserver {
       container.innerHTML = configHtml
     }
 
+    // Keep pulling the manifests in the background; the status shows in the section
+    this.refreshSyncSchedulers()
+
     // Attach event listeners after a short delay to ensure DOM is ready
     setTimeout(() => {
-      this.syncUIHandler.attachEventListeners(
-        async (url: string) => {
-          console.log("Manifest URL saved:", url)
-          // Try to auto-fetch after saving
-          try {
-            await this.loadFromRemote()
-          } catch (e) {
-            console.log("Auto-fetch skipped (may not have dashboards yet)")
-          }
-        },
-        () => this.loadFromRemote(),
-        () => {
-          this.dashboardService.getAllDashboards().forEach((dashboard) => {
-            this.dashboardService.deleteDashboard(dashboard.id)
-          })
+      this.syncUIHandler.attachEventListeners({
+        onSourcesChanged: () => {
+          this.refreshSyncSchedulers()
           this.renderUI()
         },
-        () => this.exportDashboards(),
-        (file: File) => this.importDashboards(file),
-      )
+        onLoad: (sourceId: string, options: IMergeOptions) =>
+          this.loadFromRemote(sourceId, options),
+        onPush: (sourceId: string) => this.pushToRemote(sourceId),
+        onRemove: (sourceId: string) => this.removeSource(sourceId),
+        onExport: (format) => this.exportDashboards(format),
+        onImport: (file: File, options: IMergeOptions) => this.importDashboards(file, options),
+      })
     }, 100)
   }
 
-  private async loadFromRemote(): Promise<void> {
+  /**
+   * Run a sync scheduler for every enabled manifest source
+   */
+  private refreshSyncSchedulers(): void {
+    const enabledIds = new Set(
+      this.manifestSources
+        .getSources()
+        .filter((source) => source.enabled)
+        .map((source) => source.id),
+    )
+
+    this.manifestSyncSchedulers.forEach((scheduler, sourceId) => {
+      if (enabledIds.has(sourceId)) return
+      scheduler.stop()
+      scheduler.unsubscribe(this.syncUIHandler)
+      this.manifestSyncSchedulers.delete(sourceId)
+    })
+
+    enabledIds.forEach((sourceId) => {
+      if (this.manifestSyncSchedulers.has(sourceId)) return
+      const scheduler = new ManifestSyncScheduler(
+        sourceId,
+        this.manifestSources.getRepository(sourceId),
+        this.manifestMergeService,
+        this.clock,
+      )
+      scheduler.subscribe(this.syncUIHandler)
+      this.manifestSyncSchedulers.set(sourceId, scheduler)
+      scheduler.start()
+    })
+  }
+
+  /**
+   * Stop syncing a source and delete the dashboards loaded from it
+   */
+  private removeSource(sourceId: string): void {
+    this.manifestSources.removeSource(sourceId)
+    this.refreshSyncSchedulers()
+    this.manifestMergeService.removeSourceDashboards(sourceId)
+    this.renderUI()
+  }
+
+  private setupQuietHoursUI(): void {
+    const container = document.getElementById("quietHoursContainer")
+    if (!container) return
+
+    container.innerHTML = this.quietHoursUIHandler.renderSection()
+    this.quietHoursUIHandler.attachEventListeners()
+    this.quietHoursUIHandler.updateStatus()
+  }
+
+  /**
+   * Offer notifications until the user has decided; the permission prompt
+   * needs the click
+   */
+  private setupNotificationsButton(): void {
+    const button = document.getElementById("notificationsBtn") as HTMLButtonElement | null
+    if (!button) return
+
+    const showState = (permission: NotificationPermission | "unsupported") => {
+      button.style.display = permission === "default" || permission === "denied" ? "" : "none"
+      button.disabled = permission === "denied"
+      button.textContent =
+        permission === "denied" ? "🔕 Notifications blocked" : "🔔 Enable Notifications"
+    }
+
+    showState(this.notificationService.getPermission())
+    button.addEventListener("click", async () => {
+      showState(await this.notificationService.requestPermission())
+    })
+  }
+
+  private async loadFromRemote(
+    sourceId: string,
+    options: IMergeOptions = {},
+  ): Promise<IManifestLoadResult> {
     try {
-      const manifest = await this.manifestRepository.fetchFromRemote()
-      this.loadDashboardsFromManifest(manifest)
-      this.renderUI()
+      const manifest = await this.manifestSources.getRepository(sourceId).fetchFromRemote()
+      const result = await this.reviewAndMerge(manifest, { ...options, sourceId })
+      // Refreshes the sync status; changes left out during review stay left out
+      void this.manifestSyncSchedulers.get(sourceId)?.syncNow()
+      return result
     } catch (error) {
       console.error("Failed to load dashboards from remote:", error)
       throw error
     }
   }
 
-  private loadDashboardsFromManifest(manifest: any): void {
-    // Clear existing dashboards
-    this.dashboardService.getAllDashboards().forEach((dashboard) => {
-      this.dashboardService.deleteDashboard(dashboard.id)
+  /**
+   * Dashboards in manifest form; dashboards and timers loaded from a manifest
+   * keep their manifest ids, so other devices recognise them when this is pushed
+   * Given a source, only its dashboards and those added locally are included
+   */
+  private buildManifestDashboards(sourceId?: string): IDashboardManifest["dashboards"] {
+    const dashboards = this.dashboardService.getAllDashboards().filter((dashboard) => {
+      const dashboardSourceId = ManifestMergeService.getSourceId(dashboard)
+      return !sourceId || dashboardSourceId === null || dashboardSourceId === sourceId
     })
+    const manifestTimerIds = new Map<number, number>()
+    dashboards.forEach((dashboard) =>
+      Object.entries(dashboard.origin?.timerIds ?? {}).forEach(([manifestTimerId, timerId]) =>
+        manifestTimerIds.set(timerId, Number(manifestTimerId)),
+      ),
+    )
+    const toManifestId = (timerId: number) => manifestTimerIds.get(timerId) ?? timerId
 
-    // Create dashboards from manifest
-    for (const dashboardData of manifest.dashboards) {
-      const dashboard = this.dashboardService.createDashboard(dashboardData.name)
-
-      // Create timers from manifest
-      for (const timerData of dashboardData.timers) {
-        if (timerData.type === "countdown") {
-          const timer = this.timerService.createCountdownTimer(
-            timerData.label,
-            timerData.totalSeconds || 0,
-            timerData.alertConfig || {
-              enabled: true,
-              utteranceTemplate: "timer {timer name} has completed",
-              repeatCount: "infinite",
-              waitBetweenRepeat: 10,
-            },
-          )
-          this.dashboardService.addTimerToDashboard(dashboard.id, timer.id)
-        } else if (timerData.type === "countup") {
-          const timer = this.timerService.createCountupTimer(timerData.label)
-          this.dashboardService.addTimerToDashboard(dashboard.id, timer.id)
-        }
-      }
-    }
-  }
-
-  private exportDashboards(): void {
-    const dashboardsArray = this.dashboardService.getAllDashboards().map((dashboard) => ({
-      id: dashboard.id,
+    return dashboards.map((dashboard) => ({
+      id: dashboard.origin?.dashboardId ?? dashboard.id,
       name: dashboard.name,
       timers: dashboard.timerIds
         .map((timerId) => {
@@ -140,7 +283,7 @@ export class Application implements IDashboardObserver, ITimerObserver {
           if (!timerState) return null
 
           const timerObj: any = {
-            id: timerId,
+            id: toManifestId(timerId),
             label: timerState.label,
             type: timerState.type,
           }
@@ -149,22 +292,75 @@ export class Application implements IDashboardObserver, ITimerObserver {
             const countdownTimer = timerState as ICountdownTimerState
             timerObj.totalSeconds = countdownTimer.totalSeconds
             timerObj.alertConfig = countdownTimer.alertConfig
+            if (countdownTimer.nextTimerId !== undefined) {
+              timerObj.nextTimerId = toManifestId(countdownTimer.nextTimerId)
+            }
+          } else if (timerState.type === "deadline") {
+            const deadlineTimer = timerState as IDeadlineTimerState
+            timerObj.targetAt = new Date(deadlineTimer.targetAt).toISOString()
+            timerObj.alertConfig = deadlineTimer.alertConfig
+          } else if (timerState.type === "countup") {
+            const countupTimer = timerState as ICountupTimerState
+            if (countupTimer.laps.length > 0) {
+              timerObj.laps = countupTimer.laps.map((lap) => ({
+                elapsedSeconds: lap.elapsedSeconds,
+                recordedAt: new Date(lap.recordedAt).toISOString(),
+                ...(lap.note ? { note: lap.note } : {}),
+              }))
+            }
           }
 
           return timerObj
         })
         .filter(Boolean),
     }))
+  }
 
-    const json = this.manifestRepository.exportAsJson(dashboardsArray)
+  private exportDashboards(format: ManifestFormat): void {
+    const content = this.manifestRepository.exportAs(this.buildManifestDashboards(), format)
     const timestamp = new Date().toISOString().split("T")[0]
-    this.manifestRepository.downloadManifest(json, `dashboards-${timestamp}.json`)
+    this.manifestRepository.downloadManifest(
+      content,
+      ManifestFormatConverter.getFileName(`dashboards-${timestamp}`, format),
+      ManifestFormatConverter.FORMATS[format].mimeType,
+    )
+  }
+
+  private async pushToRemote(sourceId: string): Promise<void> {
+    const repository = this.manifestSources.getRepository(sourceId)
+    const json = repository.exportAsJson(this.buildManifestDashboards(sourceId))
+    const manifest = await repository.pushToRemote(json)
+
+    // Link local dashboards to the pushed manifest, so later loads update them
+    this.manifestMergeService.apply(manifest, [], { sourceId })
+    void this.manifestSyncSchedulers.get(sourceId)?.syncNow()
+    this.renderUI()
   }
 
-  private async importDashboards(file: File): Promise<void> {
+  private async importDashboards(file: File, options: IMergeOptions): Promise<IManifestLoadResult> {
     const manifest = await this.manifestRepository.importFromFile(file)
-    this.loadDashboardsFromManifest(manifest)
+    // Each file gets a source of its own, so importing it again updates its dashboards
+    const sourceId = ManifestSourceRegistry.getFileSourceId(file.name)
+    return this.reviewAndMerge(manifest, { ...options, sourceId })
+  }
+
+  /**
+   * Let the user review what a manifest changes before applying it
+   * The summary is null when the changes are rejected
+   */
+  private async reviewAndMerge(
+    manifest: IDashboardManifest,
+    options: IMergeOptions,
+  ): Promise<IManifestLoadResult> {
+    // Manifests with errors were already refused, which leaves the warnings
+    const warnings = ManifestValidator.validate(manifest, this.clock.now())
+    const changes = this.manifestMergeService.plan(manifest, options)
+    const accepted = changes.length > 0 ? await this.syncUIHandler.reviewChanges(changes) : []
+    if (!accepted) return { summary: null, warnings }
+
+    const summary = this.manifestMergeService.apply(manifest, accepted, options)
     this.renderUI()
+    return { summary, warnings }
   }
 
   private renderUI(): void {
@@ -172,6 +368,9 @@ export class Application implements IDashboardObserver, ITimerObserver {
     const currentDashboard = this.dashboardService.getCurrentDashboard()
     const allTimers = this.timerService.getAllTimers()
     this.uiRenderer.render(dashboards, currentDashboard, allTimers)
+    this.syncUIHandler.renderSourceList(dashboards)
+    this.formHandler.updateUtterancePreviews()
+    this.quietHoursUIHandler.updateStatus()
   }
 
   private exposePublicAPI(): void {
@@ -200,16 +399,59 @@ export class Application implements IDashboardObserver, ITimerObserver {
         this.timerService.resetCountupTimer(id)
         this.renderUI()
       },
+      editTimer: (id: number) => {
+        this.uiRenderer.startEditing(id)
+        this.renderUI()
+      },
+      saveTimerEdit: (id: number) => {
+        if (this.formHandler.saveTimerEdit(id)) {
+          this.uiRenderer.stopEditing()
+          this.renderUI()
+          this.formHandler.updateStartAfterOptions()
+        }
+      },
+      previewVoice: (id?: number) => this.formHandler.previewVoice(id),
+      testSound: (id?: number) => this.formHandler.testSound(id),
+      cancelTimerEdit: () => {
+        this.uiRenderer.stopEditing()
+        this.renderUI()
+      },
+      recordLap: (id: number) => {
+        const noteInput = document.getElementById(`lapNote-${id}`) as HTMLInputElement | null
+        this.timerService.recordLap(id, noteInput?.value)
+        if (noteInput) noteInput.value = ""
+        this.renderUI()
+      },
       acknowledgeTimer: (id: number) => {
         this.timerService.acknowledgeTimer(id)
         this.renderUI()
       },
+      adjustTime: (id: number, deltaSeconds: number) => {
+        this.timerService.adjustTime(id, deltaSeconds)
+        this.renderUI()
+      },
+      snoozeTimer: (id: number) => {
+        this.timerService.snoozeTimer(id)
+        this.renderUI()
+      },
       stopAlert: (id: number) => {
         this.timerService.stopAlert(id)
         this.renderUI()
       },
+      unlinkTimer: (id: number) => {
+        this.timerService.unlinkTimer(id)
+        this.renderUI()
+      },
+      advanceTime: (seconds: number) => {
+        if (!(this.clock instanceof FakeClock)) {
+          console.warn("advanceTime is only available with ?simulateTime")
+          return
+        }
+        this.clock.advance(seconds * 1000)
+        this.renderUI()
+      },
       setPreset: (minutes: number) => this.formHandler.setPreset(minutes),
-      setMode: (mode: "countdown" | "countup") => this.formHandler.setMode(mode),
+      setMode: (mode: TimerState["type"]) => this.formHandler.setMode(mode),
       selectDashboard: (id: string) => {
         this.formHandler.selectDashboard(id)
         this.renderUI()
@@ -227,6 +469,10 @@ export class Application implements IDashboardObserver, ITimerObserver {
     this.renderUI()
   }
 
+  onTimersTicked(_timers: TimerState[]): void {
+    this.renderUI()
+  }
+
   onTimerCreated(_timer: TimerState): void {
     this.renderUI()
   }
@@ -242,15 +488,18 @@ export class Application implements IDashboardObserver, ITimerObserver {
 
   onDashboardUpdated(_dashboard: IDashboard): void {
     this.renderUI()
+    this.formHandler.updateStartAfterOptions()
   }
 
   onDashboardDeleted(_id: string): void {
     this.renderUI()
     this.formHandler.updateTimerButtonStates()
+    this.formHandler.updateStartAfterOptions()
   }
 
   onDashboardSelected(_dashboard: IDashboard): void {
     this.renderUI()
     this.formHandler.updateTimerButtonStates()
+    this.formHandler.updateStartAfterOptions()
   }
 }
@@ -9,4 +9,9 @@ import "./styles/main.css"
 document.addEventListener("DOMContentLoaded", () => {
   const app = new Application()
   app.initialize()
+
+  // A page kept in the back/forward cache resumes where it left off
+  window.addEventListener("pagehide", (event) => {
+    if (!event.persisted) app.dispose()
+  })
 })
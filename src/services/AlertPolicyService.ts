@@ -0,0 +1,111 @@
+/**
+ * AlertPolicyService - Single Responsibility: Tone alerts down during quiet hours
+ * Implements IAudioService as a layer between TimerService and AudioService, so
+ * every alert - including those raised while resuming timers after a reload -
+ * passes the do-not-disturb check
+ */
+
+import {
+  IAudioService,
+  IAlertConfig,
+  IClock,
+  IDoNotDisturbService,
+  IDoNotDisturbSettings,
+  IQuietHoursWindow,
+  IStorageService,
+} from "../types/index"
+
+export class AlertPolicyService implements IAudioService, IDoNotDisturbService {
+  private static readonly DEFAULT_SETTINGS: IDoNotDisturbSettings = {
+    enabled: false,
+    windows: [],
+    mode: "chime",
+  }
+
+  private audioService: IAudioService
+  private storageService: IStorageService
+  private clock: IClock
+  private settings: IDoNotDisturbSettings
+
+  constructor(audioService: IAudioService, storageService: IStorageService, clock: IClock) {
+    this.audioService = audioService
+    this.storageService = storageService
+    this.clock = clock
+    this.settings = {
+      ...AlertPolicyService.DEFAULT_SETTINGS,
+      ...(storageService.loadDoNotDisturbSettings() ?? {}),
+    }
+  }
+
+  getSettings(): IDoNotDisturbSettings {
+    return this.settings
+  }
+
+  updateSettings(settings: IDoNotDisturbSettings): void {
+    this.settings = settings
+    this.storageService.saveDoNotDisturbSettings(settings)
+  }
+
+  isQuiet(): boolean {
+    if (this.settings.enabled) return true
+
+    const now = new Date(this.clock.now())
+    return this.settings.windows.some((quietWindow) =>
+      AlertPolicyService.isWithin(quietWindow, now),
+    )
+  }
+
+  /**
+   * Whether a local time falls into a quiet window; a window running past
+   * midnight also covers the early hours of the day after each of its days
+   */
+  static isWithin(quietWindow: IQuietHoursWindow, date: Date): boolean {
+    const start = AlertPolicyService.toMinutes(quietWindow.start)
+    const end = AlertPolicyService.toMinutes(quietWindow.end)
+    const minutes = date.getHours() * 60 + date.getMinutes()
+    const day = date.getDay()
+    const previousDay = (day + 6) % 7
+
+    if (start === end) {
+      return quietWindow.days.includes(day)
+    }
+    if (start < end) {
+      return quietWindow.days.includes(day) && minutes >= start && minutes < end
+    }
+    return (
+      (quietWindow.days.includes(day) && minutes >= start) ||
+      (quietWindow.days.includes(previousDay) && minutes < end)
+    )
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10))
+    return hours * 60 + minutes
+  }
+
+  playBeep(): void {
+    if (this.isQuiet() && this.settings.mode === "visual") return
+    this.audioService.playBeep()
+  }
+
+  playAlert(timerId: number, timerName: string, config: IAlertConfig): void {
+    if (!this.isQuiet()) {
+      this.audioService.playAlert(timerId, timerName, config)
+      return
+    }
+
+    // The flashing timer card is the visual alert, so there is nothing to play
+    if (this.settings.mode === "visual") return
+
+    this.audioService.playAlert(timerId, timerName, {
+      ...config,
+      alertStyle: "sound",
+      sound: "chime",
+      repeatCount: 1,
+    })
+  }
+
+  cancelAlert(timerId: number): void {
+    this.audioService.cancelAlert(timerId)
+  }
+}
@@ -1,22 +1,68 @@
 /**
  * AudioService - Single Responsibility: Play audio feedback
  * Implements IAudioService interface
+ * Alerts of different timers share one queue and take turns speaking or sounding
  */
 
-import { IAudioService, IAlertConfig } from "../types/index"
+import {
+  IAudioService,
+  IVoiceService,
+  IVoiceOption,
+  IAlertConfig,
+  IClock,
+  ClockTimeoutHandle,
+  IUtteranceContext,
+  IUtteranceContextProvider,
+  IToneNote,
+  AlarmSound,
+} from "../types/index"
+import { UtteranceTemplate } from "../utils/UtteranceTemplate"
+import { AlarmToneLibrary } from "../utils/AlarmToneLibrary"
+
+/**
+ * An alert that is still to be announced (again)
+ */
+interface IActiveAlert {
+  readonly timerName: string
+  readonly config: IAlertConfig
+  /** Fixed context for previews; timers are looked up afresh on every repeat */
+  readonly context?: IUtteranceContext
+  repetitionCount: number
+}
+
+export class AudioService implements IAudioService, IVoiceService {
+  /** Previews share the alert queue under an id no timer uses */
+  private static readonly PREVIEW_ALERT_ID = -1
 
-export class AudioService implements IAudioService {
   private audioContext: AudioContext | null = null
-  private repeatTimeouts: Map<string, NodeJS.Timeout> = new Map()
-  private googleUSVoice: SpeechSynthesisVoice | null = null
-  private voicesLoaded = false
+  private alerts: Map<number, IActiveAlert> = new Map()
+  private queue: number[] = []
+  private speakingTimerId: number | null = null
+  private currentUtterance: SpeechSynthesisUtterance | null = null
+  private currentTone: OscillatorNode[] = []
+  private toneTimeout: ClockTimeoutHandle | null = null
+  private repeatTimeouts: Map<number, ClockTimeoutHandle> = new Map()
+  private voices: SpeechSynthesisVoice[] = []
+  private defaultVoice: SpeechSynthesisVoice | null = null
+  private voiceListeners: Array<() => void> = []
   private isInitialized = false
+  private clock: IClock
+  private contextProvider: IUtteranceContextProvider | null = null
 
-  constructor() {
+  constructor(clock: IClock) {
+    this.clock = clock
     this.initializeVoices()
     this.setupInteractionListener()
   }
 
+  /**
+   * Supply the timer details utterance templates can mention; without a
+   * provider only {timer name} is filled
+   */
+  setContextProvider(provider: IUtteranceContextProvider): void {
+    this.contextProvider = provider
+  }
+
   private setupInteractionListener(): void {
     // Request permission to use speech synthesis on first user interaction
     const enableSpeechOnInteraction = () => {
@@ -34,46 +80,87 @@ export class AudioService implements IAudioService {
   }
 
   private initializeVoices(): void {
-    const voices = window.speechSynthesis.getVoices()
-    if (voices.length > 0) {
-      this.findGoogleUSVoice(voices)
-      this.voicesLoaded = true
-    }
+    if (!window.speechSynthesis) return
+
+    this.loadVoices()
 
     // Handle voice list changes
     window.speechSynthesis.onvoiceschanged = () => {
-      const voices = window.speechSynthesis.getVoices()
-      this.findGoogleUSVoice(voices)
-      this.voicesLoaded = true
+      this.loadVoices()
+      this.voiceListeners.forEach((listener) => listener())
     }
   }
 
-  private findGoogleUSVoice(voices: SpeechSynthesisVoice[]): void {
-    // Try to find Google US English voice at index 49 first (as in the example)
-    if (voices.length > 49 && voices[49]) {
-      const voiceAt49 = voices[49]
-      if (voiceAt49.name.includes("Google") || voiceAt49.name.includes("English")) {
-        this.googleUSVoice = voiceAt49
-        return
-      }
-    }
+  private loadVoices(): void {
+    this.voices = window.speechSynthesis.getVoices()
+    this.defaultVoice = this.findDefaultVoice(this.voices)
+  }
 
-    // Try to find Google US English voice by name
-    const googleVoice = voices.find(
-      (voice) => voice.name === "Google US English" || voice.name.includes("Google US English"),
+  private findDefaultVoice(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+    // Prefer Google US English, then any en-US voice, then the browser default
+    return (
+      voices.find((voice) => voice.name.includes("Google US English")) ??
+      voices.find((voice) => voice.lang === "en-US") ??
+      voices.find((voice) => voice.default) ??
+      voices[0] ??
+      null
     )
+  }
 
-    if (googleVoice) {
-      this.googleUSVoice = googleVoice
-    } else {
-      // Fallback to any en-US voice
-      const enUSVoice = voices.find((voice) => voice.lang === "en-US")
-      if (enUSVoice) {
-        this.googleUSVoice = enUSVoice
-      } else if (voices.length > 0) {
-        this.googleUSVoice = voices[0]
-      }
+  /**
+   * Pick the voice for an alert: the named voice, else the best match for its
+   * language (exact tag, then same base language), else the default voice
+   */
+  private resolveVoice(config: IAlertConfig): SpeechSynthesisVoice | null {
+    if (this.voices.length === 0) {
+      this.loadVoices()
+    }
+
+    if (config.voiceName) {
+      const named = this.voices.find((voice) => voice.name === config.voiceName)
+      if (named) return named
+    }
+
+    if (config.voiceLang) {
+      const lang = config.voiceLang.replace("_", "-").toLowerCase()
+      const baseLang = lang.split("-")[0]
+      const normalize = (voice: SpeechSynthesisVoice) => voice.lang.replace("_", "-").toLowerCase()
+      const match =
+        this.voices.find((voice) => normalize(voice) === lang) ??
+        this.voices.find((voice) => normalize(voice).split("-")[0] === baseLang)
+      if (match) return match
+    }
+
+    return this.defaultVoice
+  }
+
+  getVoices(): IVoiceOption[] {
+    if (this.voices.length === 0 && window.speechSynthesis) {
+      this.loadVoices()
     }
+    return this.voices.map((voice) => ({ name: voice.name, lang: voice.lang }))
+  }
+
+  onVoicesChanged(listener: () => void): void {
+    this.voiceListeners.push(listener)
+  }
+
+  previewAlert(context: IUtteranceContext, config: IAlertConfig): void {
+    // The preview button click is itself the user interaction speech needs
+    this.isInitialized = true
+    this.cancelAlert(AudioService.PREVIEW_ALERT_ID)
+    this.alerts.set(AudioService.PREVIEW_ALERT_ID, {
+      timerName: context.timerName,
+      config: { ...config, enabled: true, repeatCount: 1 },
+      context,
+      repetitionCount: 0,
+    })
+    this.enqueue(AudioService.PREVIEW_ALERT_ID)
+  }
+
+  previewSound(sound: AlarmSound, volume: number = 1): void {
+    this.isInitialized = true
+    this.scheduleNotes(AlarmToneLibrary.get(sound).notes, this.clamp(volume, 0, 1))
   }
 
   private getAudioContext(): AudioContext {
@@ -84,6 +171,16 @@ export class AudioService implements IAudioService {
   }
 
   playBeep(): void {
+    this.scheduleNotes([{ frequency: 1000, start: 0, duration: 0.5, waveform: "sine" }], 0.6)
+  }
+
+  /**
+   * Play oscillator notes right away and return them so they can be stopped early
+   * Notes fade out over their duration from a peak set by the volume
+   */
+  private scheduleNotes(notes: readonly IToneNote[], volume: number): OscillatorNode[] {
+    if (volume <= 0) return []
+
     try {
       const audioContext = this.getAudioContext()
 
@@ -92,26 +189,36 @@ export class AudioService implements IAudioService {
         audioContext.resume().catch((e) => console.warn("Could not resume audio context:", e))
       }
 
-      const oscillator = audioContext.createOscillator()
-      const gainNode = audioContext.createGain()
+      return notes.map((note) => {
+        const oscillator = audioContext.createOscillator()
+        const gainNode = audioContext.createGain()
 
-      oscillator.connect(gainNode)
-      gainNode.connect(audioContext.destination)
+        oscillator.connect(gainNode)
+        gainNode.connect(audioContext.destination)
 
-      oscillator.frequency.value = 1000
-      oscillator.type = "sine"
+        const startTime = audioContext.currentTime + note.start
+        const endTime = startTime + note.duration
 
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime)
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5)
+        oscillator.type = note.waveform
+        oscillator.frequency.setValueAtTime(note.frequency, startTime)
+        if (note.endFrequency !== undefined) {
+          oscillator.frequency.linearRampToValueAtTime(note.endFrequency, endTime)
+        }
+
+        gainNode.gain.setValueAtTime(0.5 * volume, startTime)
+        gainNode.gain.exponentialRampToValueAtTime(0.001, endTime)
 
-      oscillator.start(audioContext.currentTime)
-      oscillator.stop(audioContext.currentTime + 0.5)
+        oscillator.start(startTime)
+        oscillator.stop(endTime)
+        return oscillator
+      })
     } catch (error) {
-      console.error("Failed to play beep:", error)
+      console.error("Failed to play tone:", error)
+      return []
     }
   }
 
-  playAlert(timerName: string, config: IAlertConfig): void {
+  playAlert(timerId: number, timerName: string, config: IAlertConfig): void {
     if (!config || !config.enabled) {
       return
     }
@@ -122,79 +229,174 @@ export class AudioService implements IAudioService {
       return
     }
 
-    this.cancelAlert()
+    // A new alert replaces this timer's previous one, never another timer's
+    this.cancelAlert(timerId)
 
-    // Build the message from the template
-    const message = this.buildUtteranceMessage(timerName, config.utteranceTemplate)
-    this.speakMessage(message, timerName, config, 0)
+    this.alerts.set(timerId, { timerName, config, repetitionCount: 0 })
+    this.enqueue(timerId)
   }
 
-  private buildUtteranceMessage(timerName: string, template: string): string {
-    return template.replace(/{timer name}/g, timerName)
+  /**
+   * Render the message when it is spoken, so repeats mention the current overtime
+   */
+  private buildUtteranceMessage(timerId: number, alert: IActiveAlert): string {
+    const fallback: IUtteranceContext = { timerName: alert.timerName, now: this.clock.now() }
+    const context = alert.context ?? this.contextProvider?.getContext(timerId) ?? fallback
+    return UtteranceTemplate.render(alert.config.utteranceTemplate, context)
   }
 
-  private speakMessage(
-    message: string,
-    timerName: string,
-    config: IAlertConfig,
-    repetitionCount: number,
-  ): void {
-    try {
-      // Ensure voices are loaded
-      if (!this.voicesLoaded) {
-        const voices = window.speechSynthesis.getVoices()
-        if (voices.length > 0) {
-          this.findGoogleUSVoice(voices)
-          this.voicesLoaded = true
-        }
+  /**
+   * Queue a timer's next announcement and start speaking if nothing else is
+   */
+  private enqueue(timerId: number): void {
+    if (!this.queue.includes(timerId)) {
+      this.queue.push(timerId)
+    }
+    this.speakNext()
+  }
+
+  /**
+   * Speak the next queued announcement; concurrent alerts take turns, so their
+   * repeats interleave instead of cutting each other off
+   */
+  private speakNext(): void {
+    if (this.speakingTimerId !== null) return
+
+    const timerId = this.queue.shift()
+    if (timerId === undefined) return
+
+    const alert = this.alerts.get(timerId)
+    if (!alert) {
+      this.speakNext()
+      return
+    }
+
+    this.speakingTimerId = timerId
+    this.announce(timerId, alert, () => this.onAnnouncementEnded(timerId))
+  }
+
+  /**
+   * Play the alarm sound and/or speak the message, as the alert style asks
+   */
+  private announce(timerId: number, alert: IActiveAlert, onDone: () => void): void {
+    const style = alert.config.alertStyle ?? "speech"
+    const speak = () => {
+      if (style === "sound") {
+        onDone()
+      } else {
+        this.speakMessage(this.buildUtteranceMessage(timerId, alert), alert.config, onDone)
       }
+    }
 
+    if (style === "speech") {
+      speak()
+      return
+    }
+
+    const tone = AlarmToneLibrary.get(alert.config.sound)
+    this.currentTone = this.scheduleNotes(tone.notes, this.getEscalatedVolume(alert))
+    this.toneTimeout = this.clock.setTimeout(
+      () => {
+        this.toneTimeout = null
+        this.currentTone = []
+        speak()
+      },
+      AlarmToneLibrary.getDuration(tone) * 1000,
+    )
+  }
+
+  /**
+   * Alarm sounds start at 40% of the configured volume and get 20% louder
+   * with every repeat, so an ignored alert becomes harder to miss
+   */
+  private getEscalatedVolume(alert: IActiveAlert): number {
+    const volume = this.clamp(alert.config.volume ?? 1, 0, 1)
+    return volume * Math.min(1, 0.4 + 0.2 * alert.repetitionCount)
+  }
+
+  private stopTone(): void {
+    if (this.toneTimeout !== null) {
+      this.clock.clearTimeout(this.toneTimeout)
+      this.toneTimeout = null
+    }
+    this.currentTone.forEach((oscillator) => {
+      try {
+        oscillator.stop()
+      } catch (e) {
+        // Already stopped
+      }
+    })
+    this.currentTone = []
+  }
+
+  private onAnnouncementEnded(timerId: number): void {
+    this.speakingTimerId = null
+    this.currentUtterance = null
+
+    const alert = this.alerts.get(timerId)
+    if (alert) {
+      alert.repetitionCount++
+      const repeatsRemaining =
+        alert.config.repeatCount === "infinite"
+          ? Infinity
+          : alert.config.repeatCount - alert.repetitionCount
+
+      if (repeatsRemaining > 0) {
+        // Schedule next repetition
+        const timeoutId = this.clock.setTimeout(() => {
+          this.repeatTimeouts.delete(timerId)
+          this.enqueue(timerId)
+        }, alert.config.waitBetweenRepeat * 1000)
+
+        this.repeatTimeouts.set(timerId, timeoutId)
+      } else {
+        this.alerts.delete(timerId)
+      }
+    }
+
+    this.speakNext()
+  }
+
+  private speakMessage(message: string, config: IAlertConfig, onDone: () => void): void {
+    try {
       // Check if speech synthesis is available and ready
       if (!window.speechSynthesis) {
         console.warn("Speech synthesis not available")
+        onDone()
         return
       }
 
-      // Cancel any ongoing speech first
-      try {
-        window.speechSynthesis.cancel()
-      } catch (e) {
-        console.warn("Could not cancel previous speech:", e)
-      }
-
       const utterance = new SpeechSynthesisUtterance(message)
+      this.currentUtterance = utterance
 
-      // Set the Google US English voice if available
-      if (this.googleUSVoice) {
-        utterance.voice = this.googleUSVoice
+      // Use the configured voice; the language lets the browser choose when none matched
+      const voice = this.resolveVoice(config)
+      if (voice) {
+        utterance.voice = voice
+      }
+      if (config.voiceLang) {
+        utterance.lang = voice?.lang ?? config.voiceLang
       }
 
-      // Configure speech properties
+      // Configure speech properties within the ranges the Web Speech API accepts
       try {
-        utterance.rate = 1.0
-        utterance.pitch = 1.0
-        utterance.volume = 1.0
+        utterance.rate = this.clamp(config.rate ?? 1, 0.1, 10)
+        utterance.pitch = this.clamp(config.pitch ?? 1, 0, 2)
+        utterance.volume = this.clamp(config.volume ?? 1, 0, 1)
       } catch (e) {
         console.warn("Could not set speech properties:", e)
       }
 
-      // Handle end of utterance
+      // Cancelled utterances still fire their events, so only the current one counts
       utterance.onend = () => {
-        const repeatsRemaining =
-          config.repeatCount === "infinite" ? Infinity : config.repeatCount - repetitionCount - 1
-
-        if (repeatsRemaining > 0) {
-          // Schedule next repetition
-          const timeoutId = setTimeout(() => {
-            const nextMessage = this.buildUtteranceMessage(timerName, config.utteranceTemplate)
-            this.speakMessage(nextMessage, timerName, config, repetitionCount + 1)
-          }, config.waitBetweenRepeat * 1000)
-
-          this.repeatTimeouts.set(`${timerName}-${repetitionCount + 1}`, timeoutId)
+        if (this.currentUtterance === utterance) {
+          onDone()
         }
       }
 
       utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+        if (this.currentUtterance !== utterance) return
+
         console.error("Speech synthesis error:", event.error)
 
         // Handle specific errors gracefully
@@ -203,6 +405,7 @@ export class AudioService implements IAudioService {
             "Speech synthesis blocked by browser. Click on the page to enable audio features.",
           )
         }
+        onDone()
       }
 
       // Attempt to speak
@@ -210,21 +413,41 @@ export class AudioService implements IAudioService {
         window.speechSynthesis.speak(utterance)
       } catch (e) {
         console.error("Failed to call speak():", e)
+        this.currentUtterance = null
+        onDone()
       }
     } catch (error) {
       console.error("Failed to play audio alert:", error)
+      this.currentUtterance = null
+      onDone()
     }
   }
 
-  cancelAlert(): void {
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value))
+  }
+
+  cancelAlert(timerId: number): void {
     try {
-      window.speechSynthesis.cancel()
+      this.alerts.delete(timerId)
+      this.queue = this.queue.filter((queuedId) => queuedId !== timerId)
 
-      // Clear all pending timeouts
-      this.repeatTimeouts.forEach((timeoutId) => {
-        clearTimeout(timeoutId)
-      })
-      this.repeatTimeouts.clear()
+      const timeoutId = this.repeatTimeouts.get(timerId)
+      if (timeoutId !== undefined) {
+        this.clock.clearTimeout(timeoutId)
+        this.repeatTimeouts.delete(timerId)
+      }
+
+      // Only interrupt the announcement if it belongs to this timer
+      if (this.speakingTimerId === timerId) {
+        this.speakingTimerId = null
+        this.stopTone()
+        if (this.currentUtterance) {
+          this.currentUtterance = null
+          window.speechSynthesis.cancel()
+        }
+        this.speakNext()
+      }
     } catch (error) {
       console.error("Failed to cancel alert:", error)
     }
@@ -13,6 +13,7 @@ export interface IGithubConfig {
   rawUrl: string // e.g., https://raw.githubusercontent.com/user/repo/refs/heads/master/dashboards.json
 }
 
+/** Version 1 of the manifest format; ManifestMigrator upgrades it to the current one */
 export interface IDashboardManifest {
   version: string
   exportedAt: string
@@ -3,7 +3,13 @@
  * Implements IDashboardService with Observer pattern
  */
 
-import { IDashboardService, IDashboard, IDashboardObserver, IStorageService } from "../types/index"
+import {
+  IDashboardService,
+  IDashboard,
+  IDashboardObserver,
+  IDashboardUpdate,
+  IStorageService,
+} from "../types/index"
 
 export class DashboardService implements IDashboardService {
   private dashboards: Map<string, IDashboard> = new Map()
@@ -27,6 +33,7 @@ export class DashboardService implements IDashboardService {
           dashboard.timerIds ||
           (Array.isArray(dashboard.timers) ? dashboard.timers.map((t: any) => t.id) : []),
         createdAt: dashboard.createdAt,
+        ...(dashboard.origin ? { origin: dashboard.origin } : {}),
       }
       this.dashboards.set(dashboard.id, migratedDashboard)
     })
@@ -47,7 +54,11 @@ export class DashboardService implements IDashboardService {
   }
 
   createDashboard(name: string): IDashboard {
-    const id = `dashboard-${Date.now()}`
+    // Dashboards created in the same millisecond, e.g. from a manifest, need distinct ids
+    let id = `dashboard-${Date.now()}`
+    for (let suffix = 2; this.dashboards.has(id); suffix++) {
+      id = `dashboard-${Date.now()}-${suffix}`
+    }
     const dashboard: IDashboard = {
       id,
       name,
@@ -67,6 +78,34 @@ export class DashboardService implements IDashboardService {
     return dashboard
   }
 
+  updateDashboard(id: string, update: IDashboardUpdate): IDashboard {
+    const dashboard = this.dashboards.get(id)
+    if (!dashboard) {
+      throw new Error(`Dashboard with id ${id} not found`)
+    }
+
+    const name = update.name?.trim()
+    if (update.name !== undefined && !name) {
+      throw new Error("Dashboard name cannot be empty")
+    }
+
+    const updatedDashboard: IDashboard = {
+      ...dashboard,
+      ...(name ? { name } : {}),
+      ...(update.origin ? { origin: update.origin } : {}),
+    }
+
+    this.dashboards.set(id, updatedDashboard)
+    this.storageService.saveDashboard(updatedDashboard)
+
+    if (this.currentDashboard?.id === id) {
+      this.currentDashboard = updatedDashboard
+    }
+
+    this.notifyObservers("onDashboardUpdated", updatedDashboard)
+    return updatedDashboard
+  }
+
   deleteDashboard(id: string): void {
     this.dashboards.delete(id)
     this.storageService.deleteDashboard(id)
@@ -0,0 +1,91 @@
+/**
+ * FakeClock - Single Responsibility: Provide controllable time for tests and simulation
+ * Implements IClock; time only moves when advance() or jump() is called
+ */
+
+import { IClock, ClockTimeoutHandle } from "../types/index"
+
+interface IScheduledCallback {
+  readonly runAt: number
+  readonly order: number
+  readonly callback: () => void
+}
+
+export class FakeClock implements IClock {
+  private currentTime: number
+  private nextHandle = 1
+  private scheduled: Map<number, IScheduledCallback> = new Map()
+
+  constructor(startTime: number = Date.now()) {
+    this.currentTime = startTime
+  }
+
+  now(): number {
+    return this.currentTime
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimeoutHandle {
+    const handle = this.nextHandle++
+    this.scheduled.set(handle, {
+      runAt: this.currentTime + Math.max(0, delayMs),
+      order: handle,
+      callback,
+    })
+    return handle
+  }
+
+  clearTimeout(handle: ClockTimeoutHandle): void {
+    this.scheduled.delete(handle as number)
+  }
+
+  /**
+   * Move time forward, running every callback that falls due on the way
+   * Callbacks see the clock set to their own due time
+   */
+  advance(ms: number): void {
+    const targetTime = this.currentTime + ms
+
+    let next = this.findNextDue(targetTime)
+    while (next) {
+      const [handle, entry] = next
+      this.scheduled.delete(handle)
+      this.currentTime = Math.max(this.currentTime, entry.runAt)
+      entry.callback()
+      next = this.findNextDue(targetTime)
+    }
+
+    this.currentTime = targetTime
+  }
+
+  /**
+   * Move time forward without running callbacks, like a page that was closed
+   * Pending callbacks fire on the next advance()
+   */
+  jump(ms: number): void {
+    this.currentTime += ms
+  }
+
+  /**
+   * Number of callbacks waiting to run
+   */
+  getPendingCount(): number {
+    return this.scheduled.size
+  }
+
+  private findNextDue(targetTime: number): [number, IScheduledCallback] | null {
+    let next: [number, IScheduledCallback] | null = null
+
+    this.scheduled.forEach((entry, handle) => {
+      if (entry.runAt > targetTime) return
+      if (
+        !next ||
+        entry.runAt < next[1].runAt ||
+        (entry.runAt === next[1].runAt && entry.order < next[1].order)
+      ) {
+        next = [handle, entry]
+      }
+    })
+
+    return next
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * ManifestFormatConverter - Single Responsibility: Read and write manifest files as
+ * JSON, YAML or recipe text, telling the formats apart by extension or content
+ *
+ * Every format holds the same manifest, so converting between them loses nothing
+ */
+
+import type { IDashboardManifest } from "./ManifestRepository"
+import { ManifestRecipeFormat } from "./ManifestRecipeFormat"
+import { YamlConverter } from "../utils/YamlConverter"
+
+export type ManifestFormat = "json" | "yaml" | "recipe"
+
+export interface IManifestFormatInfo {
+  readonly label: string
+  /** File extensions, the first one used for exports */
+  readonly extensions: readonly string[]
+  readonly mimeType: string
+}
+
+export class ManifestFormatConverter {
+  static readonly FORMATS: Readonly<Record<ManifestFormat, IManifestFormatInfo>> = {
+    json: { label: "JSON", extensions: ["json"], mimeType: "application/json" },
+    yaml: { label: "YAML", extensions: ["yaml", "yml"], mimeType: "application/yaml" },
+    recipe: { label: "Recipe", extensions: ["recipe", "txt"], mimeType: "text/plain" },
+  }
+
+  /**
+   * The format of a file: by its extension, otherwise by what its content looks like
+   */
+  static detect(fileName: string, content: string): ManifestFormat {
+    const extension = ManifestFormatConverter.getExtension(fileName)
+    const formats = Object.keys(ManifestFormatConverter.FORMATS) as ManifestFormat[]
+    const byExtension = formats.find((format) =>
+      ManifestFormatConverter.FORMATS[format].extensions.includes(extension),
+    )
+    if (byExtension) return byExtension
+
+    const text = content.trim()
+    if (text.startsWith("{") || text.startsWith("[")) return "json"
+    // A YAML manifest has its dashboards under a top-level key
+    if (text.startsWith("---") || /^dashboards:\s*(#.*)?$/m.test(text)) return "yaml"
+    return "recipe"
+  }
+
+  /**
+   * The manifest data in a file, still to be migrated and validated
+   * Recipes without a header are dated now and name their dashboard after the file
+   */
+  static parse(content: string, format: ManifestFormat, fileName: string, now: number): unknown {
+    switch (format) {
+      case "json":
+        return JSON.parse(content)
+      case "yaml":
+        return YamlConverter.parse(content)
+      case "recipe": {
+        const extension = ManifestFormatConverter.getExtension(fileName)
+        const name = extension ? fileName.slice(0, -extension.length - 1) : fileName
+        return ManifestRecipeFormat.parse(content, name || "Recipe", new Date(now).toISOString())
+      }
+    }
+  }
+
+  static stringify(manifest: IDashboardManifest, format: ManifestFormat): string {
+    switch (format) {
+      case "json":
+        return JSON.stringify(manifest, null, 2)
+      case "yaml":
+        return YamlConverter.stringify(manifest)
+      case "recipe":
+        return ManifestRecipeFormat.stringify(manifest)
+    }
+  }
+
+  static getFileName(baseName: string, format: ManifestFormat): string {
+    return `${baseName}.${ManifestFormatConverter.FORMATS[format].extensions[0]}`
+  }
+
+  /**
+   * Extensions of every format, for the accept attribute of a file input
+   */
+  static getAcceptedExtensions(): string {
+    return Object.values(ManifestFormatConverter.FORMATS)
+      .flatMap((info) => info.extensions.map((extension) => `.${extension}`))
+      .join(",")
+  }
+
+  private static getExtension(fileName: string): string {
+    const dot = fileName.lastIndexOf(".")
+    return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : ""
+  }
+}
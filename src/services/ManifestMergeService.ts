@@ -0,0 +1,625 @@
+/**
+ * ManifestMergeService - Single Responsibility: Merge a manifest into the local
+ * dashboards and timers instead of replacing them
+ *
+ * Dashboards loaded from a manifest remember the manifest ids of themselves and
+ * their timers (IDashboard.origin), so loading the manifest again updates them in
+ * place - running timers keep running - while dashboards and timers added locally
+ * are left alone. Dashboards are tagged with the manifest source they came from,
+ * and a merge only touches local dashboards and those of its own source
+ */
+
+import type {
+  IAlertConfig,
+  IClock,
+  IDashboard,
+  IDashboardService,
+  ITimerService,
+  ITimerUpdate,
+  ICountdownTimerState,
+  IDeadlineTimerState,
+  TimerState,
+} from "../types/index"
+import type { IDashboardManifest, IManifestDashboard, IManifestTimer } from "./ManifestRepository"
+import { ManifestSourceRegistry } from "./ManifestSourceRegistry"
+
+export interface IMergeOptions {
+  /** Delete dashboards and timers loaded earlier that are no longer in the manifest */
+  readonly removeMissing?: boolean
+  /** Manifest source the manifest comes from (default: the first source) */
+  readonly sourceId?: string
+}
+
+export interface IDashboardAddedChange {
+  readonly kind: "dashboard-added"
+  readonly manifestDashboardId: string
+  readonly name: string
+}
+
+export interface IDashboardRenamedChange {
+  readonly kind: "dashboard-renamed"
+  readonly dashboardId: string
+  readonly manifestDashboardId: string
+  readonly from: string
+  readonly to: string
+}
+
+export interface IDashboardRemovedChange {
+  readonly kind: "dashboard-removed"
+  readonly dashboardId: string
+  readonly name: string
+}
+
+export interface ITimerAddedChange {
+  readonly kind: "timer-added"
+  readonly manifestDashboardId: string
+  readonly dashboardName: string
+  readonly timer: IManifestTimer
+  /** Set when the manifest changed a timer's type, so it replaces the removed local timer */
+  readonly replacesTimerId?: number
+}
+
+/**
+ * One changed field of a timer; alert settings are compared key by key
+ * ("alertConfig.rate"), sequence links by the label of the next timer ("nextTimer")
+ */
+export interface IFieldChange {
+  readonly field: string
+  readonly from: unknown
+  readonly to: unknown
+}
+
+export interface ITimerUpdatedChange {
+  readonly kind: "timer-updated"
+  readonly dashboardId: string
+  readonly dashboardName: string
+  readonly timerId: number
+  readonly timer: IManifestTimer
+  readonly fields: readonly IFieldChange[]
+  readonly update: ITimerUpdate
+  /** Whether the timer's successor in its sequence changes */
+  readonly relink: boolean
+}
+
+export interface ITimerRemovedChange {
+  readonly kind: "timer-removed"
+  readonly dashboardId: string
+  readonly dashboardName: string
+  readonly timerId: number
+  readonly label: string
+}
+
+export type ManifestChange =
+  | IDashboardAddedChange
+  | IDashboardRenamedChange
+  | IDashboardRemovedChange
+  | ITimerAddedChange
+  | ITimerUpdatedChange
+  | ITimerRemovedChange
+
+export interface IMergeSummary {
+  readonly dashboardsAdded: number
+  readonly dashboardsRenamed: number
+  readonly dashboardsRemoved: number
+  readonly timersAdded: number
+  readonly timersUpdated: number
+  readonly timersRemoved: number
+}
+
+interface IDashboardMatch {
+  readonly manifestDashboard: IManifestDashboard
+  readonly dashboard: IDashboard | null
+  readonly timers: ReadonlyArray<{ manifestTimer: IManifestTimer; timer: TimerState | null }>
+}
+
+export class ManifestMergeService {
+  private static readonly DEFAULT_ALERT_CONFIG: IAlertConfig = {
+    enabled: true,
+    utteranceTemplate: "timer {timer name} has completed",
+    repeatCount: "infinite",
+    waitBetweenRepeat: 10,
+  }
+
+  private timerService: ITimerService
+  private dashboardService: IDashboardService
+  private clock: IClock
+
+  constructor(timerService: ITimerService, dashboardService: IDashboardService, clock: IClock) {
+    this.timerService = timerService
+    this.dashboardService = dashboardService
+    this.clock = clock
+  }
+
+  /**
+   * Work out what loading the manifest would change, without changing anything;
+   * the changes are grouped by dashboard in manifest order
+   */
+  plan(manifest: IDashboardManifest, options: IMergeOptions = {}): ManifestChange[] {
+    const changes: ManifestChange[] = []
+    const sourceId = options.sourceId ?? ManifestSourceRegistry.DEFAULT_SOURCE_ID
+    const matches = this.match(manifest, sourceId)
+    const localIds = this.getLocalTimerIds(matches)
+    const manifestTimers = new Map<number, IManifestTimer>()
+    manifest.dashboards.forEach((d) => d.timers.forEach((t) => manifestTimers.set(t.id, t)))
+
+    for (const { manifestDashboard, dashboard, timers } of matches) {
+      if (!dashboard) {
+        changes.push({
+          kind: "dashboard-added",
+          manifestDashboardId: manifestDashboard.id,
+          name: manifestDashboard.name,
+        })
+        timers.forEach(({ manifestTimer }) =>
+          changes.push(this.timerAdded(manifestDashboard, manifestTimer)),
+        )
+        continue
+      }
+
+      if (dashboard.name !== manifestDashboard.name) {
+        changes.push({
+          kind: "dashboard-renamed",
+          dashboardId: dashboard.id,
+          manifestDashboardId: manifestDashboard.id,
+          from: dashboard.name,
+          to: manifestDashboard.name,
+        })
+      }
+
+      for (const { manifestTimer, timer } of timers) {
+        if (!timer) {
+          changes.push(this.timerAdded(manifestDashboard, manifestTimer))
+          continue
+        }
+
+        // A timer cannot change its type, so it is replaced
+        if (timer.type !== manifestTimer.type) {
+          changes.push(this.timerRemoved(dashboard, timer))
+          changes.push(this.timerAdded(manifestDashboard, manifestTimer, timer.id))
+          continue
+        }
+
+        const { update, fields } = this.diffTimer(timer, manifestTimer)
+        const relink = this.needsRelink(timer, manifestTimer, localIds)
+        if (relink) {
+          const currentNextId = (timer as ICountdownTimerState).nextTimerId
+          const currentNext =
+            currentNextId !== undefined ? this.timerService.getTimer(currentNextId) : undefined
+          const nextTimerId = ManifestMergeService.getNextTimerId(manifestTimer)
+          const nextTimer =
+            nextTimerId !== undefined ? manifestTimers.get(nextTimerId) : undefined
+          fields.push({ field: "nextTimer", from: currentNext?.label, to: nextTimer?.label })
+        }
+        if (fields.length > 0) {
+          changes.push({
+            kind: "timer-updated",
+            dashboardId: dashboard.id,
+            dashboardName: dashboard.name,
+            timerId: timer.id,
+            timer: manifestTimer,
+            fields,
+            update,
+            relink,
+          })
+        }
+      }
+
+      if (options.removeMissing && dashboard.origin) {
+        const manifestTimerIds = new Set(manifestDashboard.timers.map((t) => String(t.id)))
+        for (const [manifestTimerId, timerId] of Object.entries(dashboard.origin.timerIds)) {
+          const timer = this.timerService.getTimer(timerId)
+          if (manifestTimerIds.has(manifestTimerId) || !timer) continue
+          if (!dashboard.timerIds.includes(timerId)) continue
+          changes.push(this.timerRemoved(dashboard, timer))
+        }
+      }
+    }
+
+    if (options.removeMissing) {
+      const manifestDashboardIds = new Set(manifest.dashboards.map((d) => d.id))
+      this.getSourceDashboards(sourceId)
+        .filter((dashboard) => dashboard.origin)
+        .filter((dashboard) => !manifestDashboardIds.has(dashboard.origin!.dashboardId))
+        .forEach((dashboard) =>
+          changes.push({
+            kind: "dashboard-removed",
+            dashboardId: dashboard.id,
+            name: dashboard.name,
+          }),
+        )
+    }
+
+    return changes
+  }
+
+  /**
+   * Apply changes from plan(); leaving some out applies the rest on their own
+   */
+  apply(
+    manifest: IDashboardManifest,
+    changes: readonly ManifestChange[],
+    options: IMergeOptions = {},
+  ): IMergeSummary {
+    const sourceId = options.sourceId ?? ManifestSourceRegistry.DEFAULT_SOURCE_ID
+    const matches = this.match(manifest, sourceId)
+    const localIds = this.getLocalTimerIds(matches)
+    const dashboardIds = new Map<string, string>()
+    matches.forEach(({ manifestDashboard, dashboard }) => {
+      if (dashboard) dashboardIds.set(manifestDashboard.id, dashboard.id)
+    })
+
+    const applied: ManifestChange[] = []
+    const relinked: Array<{ timerId: number; timer: IManifestTimer }> = []
+
+    try {
+      for (const change of changes) {
+        switch (change.kind) {
+          case "dashboard-added": {
+            const dashboard = this.dashboardService.createDashboard(change.name)
+            dashboardIds.set(change.manifestDashboardId, dashboard.id)
+            break
+          }
+          case "dashboard-renamed":
+            this.dashboardService.updateDashboard(change.dashboardId, { name: change.to })
+            break
+          case "dashboard-removed":
+            this.removeDashboard(change.dashboardId)
+            break
+          case "timer-added": {
+            const dashboardId = dashboardIds.get(change.manifestDashboardId)
+            if (!dashboardId) continue
+
+            const timer = this.createTimer(change.timer)
+            if (!timer) continue
+
+            this.dashboardService.addTimerToDashboard(dashboardId, timer.id)
+            localIds.set(change.timer.id, timer.id)
+            relinked.push({ timerId: timer.id, timer: change.timer })
+            break
+          }
+          case "timer-updated":
+            if (Object.keys(change.update).length > 0) {
+              this.timerService.updateTimer(change.timerId, change.update)
+            }
+            if (change.relink) {
+              relinked.push({ timerId: change.timerId, timer: change.timer })
+            }
+            break
+          case "timer-removed":
+            this.timerService.deleteTimer(change.timerId)
+            this.dashboardService.removeTimerFromDashboard(change.dashboardId, change.timerId)
+            break
+        }
+        applied.push(change)
+      }
+    } finally {
+      // Links are restored once every timer exists, as successors may come later.
+      // Origins are recorded even when a change failed, so the changes applied
+      // before it are updated by the next load rather than added again
+      for (const { timerId, timer } of relinked) {
+        this.restoreLink(timerId, timer, localIds)
+      }
+      this.recordOrigins(manifest, sourceId, dashboardIds, localIds)
+    }
+
+    const count = (kind: ManifestChange["kind"]) =>
+      applied.filter((change) => change.kind === kind).length
+    return {
+      dashboardsAdded: count("dashboard-added"),
+      dashboardsRenamed: count("dashboard-renamed"),
+      dashboardsRemoved: count("dashboard-removed"),
+      timersAdded: count("timer-added"),
+      timersUpdated: count("timer-updated"),
+      timersRemoved: count("timer-removed"),
+    }
+  }
+
+  merge(manifest: IDashboardManifest, options: IMergeOptions = {}): IMergeSummary {
+    return this.apply(manifest, this.plan(manifest, options), options)
+  }
+
+  /**
+   * Delete the dashboards loaded from a source, with their timers, when the
+   * source is removed; returns how many dashboards were deleted
+   */
+  removeSourceDashboards(sourceId: string): number {
+    const dashboards = this.dashboardService
+      .getAllDashboards()
+      .filter((dashboard) => ManifestMergeService.getSourceId(dashboard) === sourceId)
+    dashboards.forEach((dashboard) => this.removeDashboard(dashboard.id))
+    return dashboards.length
+  }
+
+  /**
+   * The manifest source a dashboard was loaded from, or null for local dashboards;
+   * dashboards loaded before sources existed belong to the first source
+   */
+  static getSourceId(dashboard: IDashboard): string | null {
+    if (!dashboard.origin) return null
+    return dashboard.origin.sourceId ?? ManifestSourceRegistry.DEFAULT_SOURCE_ID
+  }
+
+  /**
+   * Whether a change deletes something on this device; replacing a timer
+   * whose type changed counts, as its running state is lost
+   */
+  static isDestructive(change: ManifestChange): boolean {
+    return (
+      change.kind === "dashboard-removed" ||
+      change.kind === "timer-removed" ||
+      (change.kind === "timer-added" && change.replacesTimerId !== undefined)
+    )
+  }
+
+  static describe(summary: IMergeSummary): string {
+    const parts: string[] = []
+    const add = (count: number, noun: string, verb: string) => {
+      if (count > 0) parts.push(`${count} ${noun}${count === 1 ? "" : "s"} ${verb}`)
+    }
+
+    add(summary.dashboardsAdded, "dashboard", "added")
+    add(summary.dashboardsRenamed, "dashboard", "renamed")
+    add(summary.dashboardsRemoved, "dashboard", "removed")
+    add(summary.timersAdded, "timer", "added")
+    add(summary.timersUpdated, "timer", "updated")
+    add(summary.timersRemoved, "timer", "removed")
+
+    return parts.length > 0 ? parts.join(", ") : "already up to date"
+  }
+
+  /**
+   * Pair manifest dashboards and timers with local ones: first by the ids
+   * remembered when they were loaded, then by local id, as exported manifests
+   * carry local ids
+   */
+  private match(manifest: IDashboardManifest, sourceId: string): IDashboardMatch[] {
+    const dashboards = this.getSourceDashboards(sourceId)
+
+    return manifest.dashboards.map((manifestDashboard) => {
+      const dashboard =
+        dashboards.find((d) => d.origin?.dashboardId === manifestDashboard.id) ??
+        dashboards.find((d) => d.id === manifestDashboard.id) ??
+        null
+
+      return {
+        manifestDashboard,
+        dashboard,
+        timers: manifestDashboard.timers.map((manifestTimer) => ({
+          manifestTimer,
+          timer: dashboard ? this.findTimer(dashboard, manifestTimer) : null,
+        })),
+      }
+    })
+  }
+
+  private findTimer(dashboard: IDashboard, manifestTimer: IManifestTimer): TimerState | null {
+    const timerId = dashboard.origin?.timerIds[String(manifestTimer.id)] ?? manifestTimer.id
+    if (!dashboard.timerIds.includes(timerId)) return null
+    return this.timerService.getTimer(timerId) ?? null
+  }
+
+  /** Manifest timer id to local timer id, for timers that keep their type */
+  private getLocalTimerIds(matches: readonly IDashboardMatch[]): Map<number, number> {
+    const localIds = new Map<number, number>()
+    matches.forEach(({ timers }) =>
+      timers.forEach(({ manifestTimer, timer }) => {
+        if (timer && timer.type === manifestTimer.type) localIds.set(manifestTimer.id, timer.id)
+      }),
+    )
+    return localIds
+  }
+
+  private timerAdded(
+    manifestDashboard: IManifestDashboard,
+    timer: IManifestTimer,
+    replacesTimerId?: number,
+  ): ITimerAddedChange {
+    return {
+      kind: "timer-added",
+      manifestDashboardId: manifestDashboard.id,
+      dashboardName: manifestDashboard.name,
+      timer,
+      ...(replacesTimerId !== undefined ? { replacesTimerId } : {}),
+    }
+  }
+
+  private timerRemoved(dashboard: IDashboard, timer: TimerState): ITimerRemovedChange {
+    return {
+      kind: "timer-removed",
+      dashboardId: dashboard.id,
+      dashboardName: dashboard.name,
+      timerId: timer.id,
+      label: timer.label,
+    }
+  }
+
+  /**
+   * Fields the manifest changes; a manifest without an alert configuration
+   * keeps the local one
+   */
+  private diffTimer(
+    timer: TimerState,
+    manifestTimer: IManifestTimer,
+  ): { update: ITimerUpdate; fields: IFieldChange[] } {
+    const update: { -readonly [K in keyof ITimerUpdate]: ITimerUpdate[K] } = {}
+    const fields: IFieldChange[] = []
+
+    if (manifestTimer.label !== timer.label) {
+      update.label = manifestTimer.label
+      fields.push({ field: "label", from: timer.label, to: manifestTimer.label })
+    }
+
+    if (timer.type === "countdown" && manifestTimer.type === "countdown") {
+      const current = (timer as ICountdownTimerState).totalSeconds
+      const totalSeconds = manifestTimer.totalSeconds
+      if (totalSeconds && totalSeconds !== current) {
+        update.totalSeconds = totalSeconds
+        fields.push({ field: "totalSeconds", from: current, to: totalSeconds })
+      }
+    }
+
+    if (timer.type === "deadline" && manifestTimer.type === "deadline") {
+      const current = (timer as IDeadlineTimerState).targetAt
+      const targetAt = Date.parse(manifestTimer.targetAt)
+      if (!isNaN(targetAt) && targetAt !== current) {
+        update.targetAt = targetAt
+        fields.push({ field: "targetAt", from: current, to: targetAt })
+      }
+    }
+
+    if (timer.type !== "countup" && manifestTimer.type !== "countup" && manifestTimer.alertConfig) {
+      const alertConfig: IAlertConfig = manifestTimer.alertConfig
+      const current = (timer as ICountdownTimerState | IDeadlineTimerState).alertConfig
+      const currentRecord = current as unknown as Record<string, unknown>
+      const manifestRecord = alertConfig as unknown as Record<string, unknown>
+      const keys = new Set([...Object.keys(currentRecord), ...Object.keys(manifestRecord)])
+      keys.forEach((key) => {
+        if (!ManifestMergeService.isEqual(currentRecord[key], manifestRecord[key])) {
+          fields.push({
+            field: `alertConfig.${key}`,
+            from: currentRecord[key],
+            to: manifestRecord[key],
+          })
+        }
+      })
+      if (!ManifestMergeService.isEqual(alertConfig, current)) {
+        update.alertConfig = alertConfig
+      }
+    }
+
+    return { update, fields }
+  }
+
+  private needsRelink(
+    timer: TimerState,
+    manifestTimer: IManifestTimer,
+    localIds: ReadonlyMap<number, number>,
+  ): boolean {
+    if (timer.type !== "countdown") return false
+
+    const current = (timer as ICountdownTimerState).nextTimerId
+    const nextTimerId = ManifestMergeService.getNextTimerId(manifestTimer)
+    if (nextTimerId === undefined) return current !== undefined
+
+    // A successor that does not exist yet is added along with this merge
+    const expected = localIds.get(nextTimerId)
+    return expected === undefined || expected !== current
+  }
+
+  private restoreLink(
+    timerId: number,
+    manifestTimer: IManifestTimer,
+    localIds: ReadonlyMap<number, number>,
+  ): void {
+    const timer = this.timerService.getTimer(timerId)
+    if (!timer || timer.type !== "countdown") return
+
+    const nextTimerId = ManifestMergeService.getNextTimerId(manifestTimer)
+    const nextId = nextTimerId !== undefined ? localIds.get(nextTimerId) : undefined
+    try {
+      if (nextId === undefined) {
+        if ((timer as ICountdownTimerState).nextTimerId !== undefined) {
+          this.timerService.unlinkTimer(timerId)
+        }
+      } else {
+        this.timerService.linkTimers(timerId, nextId)
+      }
+    } catch (error) {
+      console.warn(
+        `Skipping sequence link from timer ${manifestTimer.id} to ${nextTimerId}:`,
+        error,
+      )
+    }
+  }
+
+  private createTimer(manifestTimer: IManifestTimer): TimerState | null {
+    if (manifestTimer.type === "countdown") {
+      return this.timerService.createCountdownTimer(
+        manifestTimer.label,
+        manifestTimer.totalSeconds || 0,
+        manifestTimer.alertConfig ?? ManifestMergeService.DEFAULT_ALERT_CONFIG,
+      )
+    }
+
+    if (manifestTimer.type === "countup") {
+      return this.timerService.createCountupTimer(manifestTimer.label)
+    }
+
+    // Manifests store the target as an ISO timestamp
+    const alertConfig: IAlertConfig | undefined = manifestTimer.alertConfig
+    const targetAt = Date.parse(manifestTimer.targetAt)
+    if (!(targetAt > this.clock.now())) {
+      console.warn(`Skipping deadline "${manifestTimer.label}" - its target time has passed`)
+      return null
+    }
+    return this.timerService.createDeadlineTimer(manifestTimer.label, targetAt, alertConfig)
+  }
+
+  /** Only countdowns start another timer when they finish */
+  private static getNextTimerId(manifestTimer: IManifestTimer): number | undefined {
+    return manifestTimer.type === "countdown" ? manifestTimer.nextTimerId : undefined
+  }
+
+  /** Delete a dashboard along with the timers that are on no other dashboard */
+  private removeDashboard(dashboardId: string): void {
+    const dashboard = this.findDashboard(dashboardId)
+    if (!dashboard) return
+
+    const others = this.dashboardService.getAllDashboards().filter((d) => d.id !== dashboardId)
+    dashboard.timerIds
+      .filter((timerId) => !others.some((d) => d.timerIds.includes(timerId)))
+      .forEach((timerId) => this.timerService.deleteTimer(timerId))
+    this.dashboardService.deleteDashboard(dashboardId)
+  }
+
+  private recordOrigins(
+    manifest: IDashboardManifest,
+    sourceId: string,
+    dashboardIds: ReadonlyMap<string, string>,
+    localIds: ReadonlyMap<number, number>,
+  ): void {
+    for (const manifestDashboard of manifest.dashboards) {
+      const dashboardId = dashboardIds.get(manifestDashboard.id)
+      const dashboard = dashboardId ? this.findDashboard(dashboardId) : null
+      if (!dashboard) continue
+
+      // Keep links to timers whose changes were left out, so a later load still finds them
+      const timerIds: Record<string, number> = { ...(dashboard.origin?.timerIds ?? {}) }
+      for (const manifestTimer of manifestDashboard.timers) {
+        const timerId = localIds.get(manifestTimer.id)
+        if (timerId !== undefined && dashboard.timerIds.includes(timerId)) {
+          timerIds[String(manifestTimer.id)] = timerId
+        }
+      }
+      Object.entries(timerIds).forEach(([manifestTimerId, timerId]) => {
+        if (!dashboard.timerIds.includes(timerId)) delete timerIds[manifestTimerId]
+      })
+
+      this.dashboardService.updateDashboard(dashboard.id, {
+        origin: { sourceId, dashboardId: manifestDashboard.id, timerIds },
+      })
+    }
+  }
+
+  /** Dashboards a merge from the source may touch: its own and local ones */
+  private getSourceDashboards(sourceId: string): IDashboard[] {
+    return this.dashboardService.getAllDashboards().filter((dashboard) => {
+      const dashboardSourceId = ManifestMergeService.getSourceId(dashboard)
+      return dashboardSourceId === null || dashboardSourceId === sourceId
+    })
+  }
+
+  private findDashboard(id: string): IDashboard | null {
+    return this.dashboardService.getAllDashboards().find((d) => d.id === id) ?? null
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+
+    const aRecord = a as Record<string, unknown>
+    const bRecord = b as Record<string, unknown>
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+    return [...keys].every((key) => ManifestMergeService.isEqual(aRecord[key], bRecord[key]))
+  }
+}
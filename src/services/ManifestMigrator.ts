@@ -0,0 +1,119 @@
+/**
+ * ManifestMigrator - Single Responsibility: Upgrade manifests written in an older
+ * format to the current one
+ *
+ * Manifest formats, by major version:
+ * 1. Written as "1.0.0" in two shapes. DashboardRepository (GitHub sync) stored
+ *    countdowns as `duration` with an alert `message` and `repeat: "infinite" | "finite"`
+ *    plus `repeatCount`; ManifestRepository stored `totalSeconds` with an
+ *    `utteranceTemplate` and `repeatCount: "infinite" | "finite" | "once" | number`
+ * 2. The current format: `totalSeconds`, `utteranceTemplate` and
+ *    `repeatCount: "infinite" | number`
+ *
+ * Each migration upgrades one major version, so a manifest of any older version
+ * runs through every migration after it in turn
+ */
+
+interface IManifestMigration {
+  /** Major version the migration upgrades from; it produces the next one */
+  readonly from: number
+  migrate(manifest: any): any
+}
+
+export class ManifestMigrator {
+  static readonly CURRENT_VERSION = "2.0.0"
+
+  private static readonly migrations: readonly IManifestMigration[] = [
+    { from: 1, migrate: (manifest) => ManifestMigrator.migrateV1(manifest) },
+  ]
+
+  /**
+   * Upgrade a manifest to the current format; anything that does not look like
+   * a manifest is returned as is, for validation to reject
+   * Throws for manifests written by a newer version of the app
+   */
+  static migrate(data: unknown): unknown {
+    if (!data || typeof data !== "object" || typeof (data as any).version !== "string") {
+      return data
+    }
+
+    const current = ManifestMigrator.getMajorVersion(ManifestMigrator.CURRENT_VERSION)
+    let manifest: any = data
+    let major = ManifestMigrator.getMajorVersion(manifest.version)
+
+    if (isNaN(major)) {
+      throw new Error(`Invalid manifest: unknown version '${manifest.version}'`)
+    }
+    if (major > current) {
+      throw new Error(
+        `Manifest version ${manifest.version} is newer than this app supports (${ManifestMigrator.CURRENT_VERSION}) - update the app to load it`,
+      )
+    }
+
+    while (major < current) {
+      const migration = ManifestMigrator.migrations.find((m) => m.from === major)
+      if (!migration) {
+        throw new Error(`Manifest version ${manifest.version} can no longer be upgraded`)
+      }
+      manifest = migration.migrate(manifest)
+      major++
+    }
+    return manifest
+  }
+
+  static getMajorVersion(version: string): number {
+    return /^\d+(\.|$)/.test(version) ? parseInt(version, 10) : NaN
+  }
+
+  /**
+   * 1 -> 2: rename the fields of the GitHub shape and settle on a number of repeats
+   */
+  private static migrateV1(manifest: any): any {
+    const migrateTimer = (timer: any) => {
+      if (!timer || typeof timer !== "object") return timer
+
+      const { duration, ...rest } = timer
+      const migrated =
+        duration !== undefined && rest.totalSeconds === undefined
+          ? { ...rest, totalSeconds: duration }
+          : rest
+
+      return migrated.alertConfig && typeof migrated.alertConfig === "object"
+        ? { ...migrated, alertConfig: ManifestMigrator.migrateV1AlertConfig(migrated.alertConfig) }
+        : migrated
+    }
+
+    return {
+      ...manifest,
+      version: "2.0.0",
+      dashboards: Array.isArray(manifest.dashboards)
+        ? manifest.dashboards.map((dashboard: any) =>
+            dashboard && Array.isArray(dashboard.timers)
+              ? { ...dashboard, timers: dashboard.timers.map(migrateTimer) }
+              : dashboard,
+          )
+        : manifest.dashboards,
+    }
+  }
+
+  private static migrateV1AlertConfig(config: any): any {
+    const { message, repeat, ...rest } = config
+    const utteranceTemplate = rest.utteranceTemplate ?? message
+
+    // "finite" without a count, and "once", meant a single repeat
+    let repeatCount = rest.repeatCount
+    if (repeat === "infinite") {
+      repeatCount = "infinite"
+    } else if (repeat === "finite") {
+      repeatCount = typeof repeatCount === "number" ? repeatCount : 1
+    } else if (repeatCount === "finite" || repeatCount === "once") {
+      repeatCount = 1
+    }
+
+    return {
+      ...rest,
+      ...(utteranceTemplate !== undefined ? { utteranceTemplate } : {}),
+      ...(repeatCount !== undefined ? { repeatCount } : {}),
+    }
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * ManifestRecipeFormat - Single Responsibility: Convert manifests to and from the
+ * compact recipe text, one line per timer or sequence of timers
+ *
+ *   # Multi-Timer recipe 2.0.0, exported 2025-01-01T12:00:00.000Z
+ *   [Baking]
+ *   bulk fermentation: count up
+ *   autolyse: 1h; rest after autolyse: 30m
+ *   bake: until 2025-01-01T18:00:00Z
+ *
+ * "[Name]" starts a dashboard; lines before the first one belong to a dashboard named
+ * after the file. A step is "label: duration" for a countdown, "label: count up" or
+ * "label: until <date and time>", and steps joined by ";" run as a sequence. Ids count
+ * up from 1 on each dashboard. Whatever the text cannot say - other ids, alert settings,
+ * laps - follows the step or dashboard as a JSON object, e.g. `autolyse: 1h {"id": 7}`,
+ * with null removing a value; the "alertConfig" of a dashboard is the one its timers
+ * use unless they say otherwise, and other manifest fields follow the header line.
+ * So any manifest survives a round trip unchanged
+ */
+
+import type { IDashboardManifest, IManifestDashboard } from "./ManifestRepository"
+import { ManifestMigrator } from "./ManifestMigrator"
+import { TimeFormatter } from "../utils/TimeFormatter"
+
+type Fields = Record<string, unknown>
+
+interface IRecipeStep {
+  readonly label: string
+  readonly value: string
+  readonly extras: Fields
+}
+
+interface IRecipeDashboard {
+  readonly name: string
+  readonly extras: Fields
+  readonly lines: IRecipeStep[][]
+}
+
+export class ManifestRecipeFormat {
+  private static readonly HEADER = /^#\s*Multi-Timer recipe (\S+), exported (\S+)(.*)$/
+  private static readonly DURATION = /^(\d+d)?\s*(\d+h)?\s*(\d+m)?\s*(\d+s)?$/i
+  private static readonly COUNT_UP = "count up"
+  private static readonly COUNTDOWN = "countdown"
+  private static readonly UNTIL = "until "
+
+  /**
+   * Recipe text for a manifest
+   */
+  static stringify(manifest: IDashboardManifest): string {
+    const { version, exportedAt, dashboards, ...extras } = manifest
+    const lines = [
+      `# Multi-Timer recipe ${version}, exported ${exportedAt}` +
+        ManifestRecipeFormat.stringifyExtras(extras),
+    ]
+    dashboards.forEach((dashboard) => {
+      lines.push("", ...ManifestRecipeFormat.stringifyDashboard(dashboard))
+    })
+    return `${lines.join("\n")}\n`
+  }
+
+  /**
+   * The manifest described by recipe text, still to be validated
+   * Lines before the first "[Name]" go to a dashboard called defaultName, and
+   * exportedAt is used when the text does not say when it was exported
+   * Throws an error naming the first line that is not a recipe line
+   */
+  static parse(text: string, defaultName: string, exportedAt: string): unknown {
+    let version = ManifestMigrator.CURRENT_VERSION
+    let extras: Fields = {}
+    const dashboards: IRecipeDashboard[] = []
+    let isFirstLine = true
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const line = rawLine.trim()
+      if (!line) return
+
+      const header = isFirstLine ? ManifestRecipeFormat.HEADER.exec(line) : null
+      isFirstLine = false
+      if (header) {
+        version = header[1]
+        exportedAt = header[2]
+        extras = ManifestRecipeFormat.parseExtras(header[3], index + 1)
+        return
+      }
+      if (line.startsWith("#")) return
+
+      if (line.startsWith("[")) {
+        dashboards.push(ManifestRecipeFormat.parseDashboardHeader(line, index + 1))
+        return
+      }
+      if (dashboards.length === 0) {
+        dashboards.push({ name: defaultName, extras: {}, lines: [] })
+      }
+      dashboards[dashboards.length - 1].lines.push(
+        ManifestRecipeFormat.split(line, ";").map((step) =>
+          ManifestRecipeFormat.parseStep(step, index + 1),
+        ),
+      )
+    })
+
+    return {
+      ...extras,
+      version,
+      exportedAt,
+      dashboards: dashboards.map((dashboard) => ManifestRecipeFormat.buildDashboard(dashboard)),
+    }
+  }
+
+  private static stringifyDashboard(dashboard: IManifestDashboard): string[] {
+    const { timers, ...fields } = dashboard
+    const alertConfig = ManifestRecipeFormat.getCommonAlertConfig(timers)
+    const extras = {
+      ...ManifestRecipeFormat.diff(fields, ManifestRecipeFormat.inferDashboard(dashboard.name)),
+      ...(alertConfig !== undefined ? { alertConfig } : {}),
+    }
+    const lines = [
+      `[${ManifestRecipeFormat.quote(dashboard.name, /^[^\s"][^\]"]*$/)}]` +
+        ManifestRecipeFormat.stringifyExtras(extras),
+    ]
+
+    let steps: string[] = []
+    let previousId = 0
+    timers.forEach((timer, i) => {
+      const next = timers[i + 1]
+      const isSequence =
+        timer.type === "countdown" && next !== undefined && timer.nextTimerId === next.id
+      const value = ManifestRecipeFormat.describe(timer as unknown as Fields)
+      const inferred = ManifestRecipeFormat.inferTimer(
+        { label: timer.label, value, extras: {} },
+        previousId + 1,
+        isSequence ? next.id : undefined,
+        alertConfig,
+      )
+
+      const label = ManifestRecipeFormat.quote(timer.label, /^[^\s"#[][^:;{"]*$/)
+      const extrasText = ManifestRecipeFormat.stringifyExtras(
+        ManifestRecipeFormat.diff(timer as unknown as Fields, inferred),
+      )
+      steps.push(`${label}: ${value}${extrasText}`)
+      if (!isSequence) {
+        lines.push(steps.join("; "))
+        steps = []
+      }
+      previousId = timer.id
+    })
+    return lines
+  }
+
+  /**
+   * The alert settings most timers of a dashboard share, if any have them
+   */
+  private static getCommonAlertConfig(timers: IManifestDashboard["timers"]): unknown {
+    const counts = new Map<string, { config: unknown; count: number }>()
+    timers.forEach((timer) => {
+      if (timer.type === "countup" || timer.alertConfig === undefined) return
+      const key = JSON.stringify(timer.alertConfig)
+      const entry = counts.get(key) ?? { config: timer.alertConfig, count: 0 }
+      counts.set(key, { ...entry, count: entry.count + 1 })
+    })
+
+    let common: { config: unknown; count: number } | undefined
+    counts.forEach((entry) => {
+      if (!common || entry.count > common.count) common = entry
+    })
+    return common?.config
+  }
+
+  /**
+   * The value part of a step: what kind of timer it is and how long it runs
+   */
+  private static describe(timer: Fields): string {
+    if (timer.type === "countup") return ManifestRecipeFormat.COUNT_UP
+    if (timer.type === "deadline") return `${ManifestRecipeFormat.UNTIL}${timer.targetAt}`
+
+    const seconds = timer.totalSeconds
+    return typeof seconds === "number" && Number.isInteger(seconds) && seconds >= 0
+      ? TimeFormatter.format(seconds)
+      : ManifestRecipeFormat.COUNTDOWN
+  }
+
+  private static parseDashboardHeader(line: string, lineNumber: number): IRecipeDashboard {
+    let name: string
+    let rest: string
+    if (line[1] === '"') {
+      const end = ManifestRecipeFormat.findClosingQuote(line, 1)
+      name = ManifestRecipeFormat.parseJson(line.slice(1, end + 1), lineNumber) as string
+      rest = line.slice(end + 1).trimStart()
+      if (!rest.startsWith("]")) {
+        throw new Error(`Recipe line ${lineNumber}: close the dashboard name with "]"`)
+      }
+      rest = rest.slice(1)
+    } else {
+      const end = line.indexOf("]")
+      if (end < 0) {
+        throw new Error(`Recipe line ${lineNumber}: close the dashboard name with "]"`)
+      }
+      name = line.slice(1, end).trim()
+      rest = line.slice(end + 1)
+    }
+
+    return { name, extras: ManifestRecipeFormat.parseExtras(rest, lineNumber), lines: [] }
+  }
+
+  private static parseStep(step: string, lineNumber: number): IRecipeStep {
+    let label: string
+    let rest: string
+    const text = step.trim()
+
+    if (text.startsWith('"')) {
+      const end = ManifestRecipeFormat.findClosingQuote(text, 0)
+      label = ManifestRecipeFormat.parseJson(text.slice(0, end + 1), lineNumber) as string
+      rest = text.slice(end + 1).trimStart()
+    } else {
+      const separator = text.indexOf(":")
+      label = separator >= 0 ? text.slice(0, separator).trim() : ""
+      rest = separator >= 0 ? text.slice(separator) : ""
+    }
+    if (!rest.startsWith(":")) {
+      throw new Error(`Recipe line ${lineNumber}: write each step as "label: duration"`)
+    }
+
+    rest = rest.slice(1)
+    const brace = rest.indexOf("{")
+    const value = (brace >= 0 ? rest.slice(0, brace) : rest).trim()
+    const extrasText = brace >= 0 ? rest.slice(brace) : ""
+    const extras = ManifestRecipeFormat.parseExtras(extrasText, lineNumber)
+    if (!ManifestRecipeFormat.parseValue(value)) {
+      throw new Error(
+        `Recipe line ${lineNumber}: "${value}" is not a duration like 1h30m, "count up" or "until <date and time>"`,
+      )
+    }
+    return { label, value, extras }
+  }
+
+  /**
+   * The fields a step's value gives a timer, or null when it is not a recipe value
+   */
+  private static parseValue(value: string): Fields | null {
+    const lower = value.toLowerCase()
+    if (lower === ManifestRecipeFormat.COUNT_UP) return { type: "countup" }
+    if (lower === ManifestRecipeFormat.COUNTDOWN) return { type: "countdown" }
+    if (lower.startsWith(ManifestRecipeFormat.UNTIL)) {
+      return { type: "deadline", targetAt: value.slice(ManifestRecipeFormat.UNTIL.length).trim() }
+    }
+
+    const totalSeconds = ManifestRecipeFormat.DURATION.test(value)
+      ? TimeFormatter.parse(value)
+      : null
+    return totalSeconds !== null ? { type: "countdown", totalSeconds } : null
+  }
+
+  private static buildDashboard(dashboard: IRecipeDashboard): Fields {
+    const { alertConfig, ...extras } = dashboard.extras
+    const timers: Fields[] = []
+    let previousId = 0
+
+    dashboard.lines.forEach((steps) => {
+      const ids = steps.map((step) => {
+        previousId = typeof step.extras.id === "number" ? step.extras.id : previousId + 1
+        return previousId
+      })
+
+      steps.forEach((step, k) => {
+        const timer = ManifestRecipeFormat.inferTimer(step, ids[k], ids[k + 1], alertConfig)
+        if (ids[k + 1] !== undefined && timer.type !== "countdown") {
+          throw new Error(
+            `Recipe step "${step.label}": only countdowns can start the next step of a sequence`,
+          )
+        }
+        timers.push(ManifestRecipeFormat.applyExtras(timer, step.extras))
+      })
+    })
+
+    return ManifestRecipeFormat.applyExtras(
+      { ...ManifestRecipeFormat.inferDashboard(dashboard.name), timers },
+      extras,
+    )
+  }
+
+  private static inferDashboard(name: string): Fields {
+    const id = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+    return { id: id || "dashboard", name }
+  }
+
+  /**
+   * The timer a step describes before its extras are applied
+   */
+  private static inferTimer(
+    step: IRecipeStep,
+    id: number,
+    nextTimerId: number | undefined,
+    alertConfig: unknown,
+  ): Fields {
+    const fields = ManifestRecipeFormat.parseValue(step.value) ?? {}
+    return {
+      id,
+      label: step.label,
+      ...fields,
+      ...(nextTimerId !== undefined ? { nextTimerId } : {}),
+      ...(fields.type !== "countup" && alertConfig !== undefined ? { alertConfig } : {}),
+    }
+  }
+
+  /**
+   * The fields that differ from what the text implies, null for those to remove
+   */
+  private static diff(actual: Fields, inferred: Fields): Fields {
+    const extras: Fields = {}
+    Object.keys(actual).forEach((key) => {
+      if (actual[key] !== undefined && !ManifestRecipeFormat.isEqual(actual[key], inferred[key])) {
+        extras[key] = actual[key]
+      }
+    })
+    Object.keys(inferred).forEach((key) => {
+      if (actual[key] === undefined && inferred[key] !== undefined) extras[key] = null
+    })
+    return extras
+  }
+
+  private static applyExtras(fields: Fields, extras: Fields): Fields {
+    const result = { ...fields }
+    Object.entries(extras).forEach(([key, value]) => {
+      if (value === null) delete result[key]
+      else result[key] = value
+    })
+    return result
+  }
+
+  private static stringifyExtras(extras: Fields): string {
+    return Object.keys(extras).length > 0 ? ` ${JSON.stringify(extras)}` : ""
+  }
+
+  private static parseExtras(text: string, lineNumber: number): Fields {
+    if (!text.trim()) return {}
+    const extras = ManifestRecipeFormat.parseJson(text, lineNumber)
+    if (typeof extras !== "object" || extras === null || Array.isArray(extras)) {
+      throw new Error(`Recipe line ${lineNumber}: extra settings must be a JSON object`)
+    }
+    return extras as Fields
+  }
+
+  private static parseJson(text: string, lineNumber: number): unknown {
+    try {
+      return JSON.parse(text)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error"
+      throw new Error(`Recipe line ${lineNumber}: ${reason}`)
+    }
+  }
+
+  /**
+   * Text as is when the pattern allows it, otherwise as a JSON string
+   */
+  private static quote(text: string, plain: RegExp): string {
+    return plain.test(text) && text.trim() === text ? text : JSON.stringify(text)
+  }
+
+  /**
+   * Split a line at a separator, except inside JSON strings and objects
+   */
+  private static split(line: string, separator: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let start = 0
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (char === '"') {
+        i = ManifestRecipeFormat.findClosingQuote(line, i)
+        if (i < 0) break
+      } else if (char === "{" || char === "[") {
+        depth++
+      } else if (char === "}" || char === "]") {
+        depth--
+      } else if (char === separator && depth <= 0) {
+        parts.push(line.slice(start, i))
+        start = i + 1
+      }
+    }
+    parts.push(line.slice(start))
+    return parts.filter((part) => part.trim())
+  }
+
+  /**
+   * Index of the quote closing a JSON string, or -1 when it is not closed
+   */
+  private static findClosingQuote(text: string, start: number): number {
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === "\\") i++
+      else if (text[i] === '"') return i
+    }
+    return -1
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+
+    const aRecord = a as Fields
+    const bRecord = b as Fields
+    const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+    return [...keys].every((key) => ManifestRecipeFormat.isEqual(aRecord[key], bRecord[key]))
+  }
+}
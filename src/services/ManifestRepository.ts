@@ -3,59 +3,197 @@
  *
  * Workflow:
  * 1. User creates dashboards on desktop
- * 2. Exports to manifest file (JSON)
+ * 2. Exports to manifest file (JSON, YAML or recipe text)
  * 3. Other devices fetch from remote URL
  * 4. All devices only need to remember the manifest URL
  * 5. Local changes can be merged and pushed back
  */
 
+import { IClock } from "../types/index"
+import { SystemClock } from "./SystemClock"
+import { ManifestMigrator } from "./ManifestMigrator"
+import { ManifestValidationError, ManifestValidator } from "./ManifestValidator"
+import { ManifestFormat, ManifestFormatConverter } from "./ManifestFormatConverter"
+
+/**
+ * "jsonbin" endpoints wrap the manifest in a "record" and are pushed to the bin
+ * itself rather than its /latest version; "generic" endpoints take the manifest as is
+ */
+export type ManifestEndpointStyle = "generic" | "jsonbin"
+
 export interface IRemoteConfig {
   rawUrl: string
+  /** Detected from the URL when not set */
+  endpointStyle?: ManifestEndpointStyle
+  /** Method used to push to a generic endpoint (default PUT) */
+  pushMethod?: "PUT" | "POST"
+  /** Header sent with every request, e.g. "X-Master-Key" for JSONBin or "Authorization" */
+  authHeaderName?: string
+  authHeaderValue?: string
+}
+
+export type IRemoteOptions = Omit<IRemoteConfig, "rawUrl">
+
+/**
+ * Response validators of the last manifest version seen at a URL
+ */
+export interface IManifestValidators {
+  etag?: string
+  lastModified?: string
+  /** A push was answered without validators, so the manifest must be loaded before the next one */
+  reloadRequired?: boolean
+}
+
+export interface IManifestFetchResult {
+  manifest: IDashboardManifest
+  /** The server answered 304 - the cached manifest is still current */
+  unchanged: boolean
+  /** The server could not be reached or failed, so the cached manifest was used */
+  fromCache: boolean
 }
 
+// public/manifest.schema.json is generated from the manifest types below -
+// regenerate it with `pnpm schema` after changing them
+
+/**
+ * A set of dashboards and their timers, as exported by the Multi-Timer Application
+ */
 export interface IDashboardManifest {
+  /** JSON Schema of the manifest, for editors */
+  $schema?: string
+  /** Semantic version of the format, ManifestMigrator.CURRENT_VERSION when written */
   version: string
   exportedAt: string
-  dashboards: Array<{
-    id: string
-    name: string
-    timers: Array<{
-      id: number
-      label: string
-      type: "countdown" | "countup"
-      totalSeconds?: number
-      alertConfig?: {
-        enabled: boolean
-        utteranceTemplate: string
-        repeatCount: "infinite" | "finite" | "once" | number
-        waitBetweenRepeat: number
-      }
-    }>
+  dashboards: IManifestDashboard[]
+}
+
+export interface IManifestDashboard {
+  id: string
+  name: string
+  timers: IManifestTimer[]
+}
+
+export type IManifestTimer =
+  | IManifestCountdownTimer
+  | IManifestCountupTimer
+  | IManifestDeadlineTimer
+
+interface IManifestTimerBase {
+  id: number
+  label: string
+}
+
+export interface IManifestCountdownTimer extends IManifestTimerBase {
+  type: "countdown"
+  /**
+   * Duration in seconds
+   * @minimum 0
+   */
+  totalSeconds?: number
+  /** Id of the timer on the same dashboard to start when this one finishes */
+  nextTimerId?: number
+  alertConfig?: IManifestAlertConfig
+}
+
+export interface IManifestCountupTimer extends IManifestTimerBase {
+  type: "countup"
+  laps?: Array<{
+    elapsedSeconds: number
+    recordedAt: string
+    note?: string
   }>
 }
 
+export interface IManifestDeadlineTimer extends IManifestTimerBase {
+  type: "deadline"
+  /**
+   * When the deadline is due, as an ISO 8601 timestamp
+   * @format date-time
+   */
+  targetAt: string
+  alertConfig?: IManifestAlertConfig
+}
+
+export interface IManifestAlertConfig {
+  enabled: boolean
+  utteranceTemplate: string
+  /**
+   * How often the alert repeats
+   * @minimum 1
+   */
+  repeatCount: "infinite" | number
+  /** Seconds between repeats */
+  waitBetweenRepeat: number
+  snoozeSeconds?: number
+  warnings?: Array<{
+    at: number
+    unit: "seconds" | "percent"
+    utteranceTemplate: string
+  }>
+  voiceName?: string
+  voiceLang?: string
+  rate?: number
+  pitch?: number
+  volume?: number
+  alertStyle?: "speech" | "sound" | "both"
+  sound?: "chime" | "klaxon" | "rising"
+}
+
 export class ManifestRepository {
+  /** The manifest JSON Schema, served next to the app */
+  static readonly SCHEMA_FILE = "manifest.schema.json"
+
   private remoteConfig: IRemoteConfig | null = null
   private lastSyncTime: number = 0
   private cacheKey = "particularparrot_remote_config"
   private manifestCacheKey = "particularparrot_manifest_cache"
+  private validatorsKey = "particularparrot_manifest_validators"
 
-  constructor() {
+  /**
+   * Each manifest source keeps its own configuration and cache; the keys of the
+   * first source carry no suffix, so a URL saved before sources existed is kept
+   */
+  constructor(
+    private clock: IClock = new SystemClock(),
+    sourceId?: string,
+  ) {
+    if (sourceId) {
+      this.cacheKey += `:${sourceId}`
+      this.manifestCacheKey += `:${sourceId}`
+      this.validatorsKey += `:${sourceId}`
+    }
     this.loadRemoteConfig()
   }
 
   /**
    * Save manifest URL to localStorage
    */
-  saveManifestUrl(rawUrl: string): void {
+  saveManifestUrl(rawUrl: string, options: IRemoteOptions = {}): void {
     if (!this.isValidManifestUrl(rawUrl)) {
       throw new Error("Invalid manifest URL. Must be an HTTP(S) URL")
     }
 
-    this.remoteConfig = { rawUrl }
+    // Header names are HTTP tokens; anything else makes fetch throw later on
+    if (options.authHeaderName && !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(options.authHeaderName)) {
+      throw new Error(`Invalid auth header name "${options.authHeaderName}"`)
+    }
+
+    // The cached manifest belongs to the previous URL
+    if (this.remoteConfig && this.remoteConfig.rawUrl !== rawUrl) {
+      localStorage.removeItem(this.manifestCacheKey)
+    }
+
+    this.remoteConfig = { rawUrl, ...options }
     localStorage.setItem(this.cacheKey, JSON.stringify(this.remoteConfig))
   }
 
+  /**
+   * Get the saved URL along with its endpoint and auth settings
+   */
+  getRemoteConfig(): IRemoteConfig | null {
+    return this.remoteConfig
+  }
+
   /**
    * Get the current manifest URL
    */
@@ -77,6 +215,7 @@ export class ManifestRepository {
     this.remoteConfig = null
     localStorage.removeItem(this.cacheKey)
     localStorage.removeItem(this.manifestCacheKey)
+    localStorage.removeItem(this.validatorsKey)
     this.lastSyncTime = 0
   }
 
@@ -84,39 +223,203 @@ export class ManifestRepository {
    * Fetch dashboards from remote manifest
    */
   async fetchFromRemote(): Promise<IDashboardManifest> {
+    return (await this.fetchLatest()).manifest
+  }
+
+  /**
+   * Fetch the manifest unless the cached one is still current
+   * Sends the validators of the last response, so an unchanged manifest costs a 304
+   */
+  async fetchLatest(): Promise<IManifestFetchResult> {
     if (!this.remoteConfig) {
       throw new Error("Manifest URL not configured. Please set it first.")
     }
 
+    const rawUrl = this.remoteConfig.rawUrl
+    let cached: IDashboardManifest | null = null
     try {
-      const response = await fetch(this.remoteConfig.rawUrl, {
+      cached = this.getCachedManifest()
+    } catch (error) {
+      console.warn("Discarding unreadable cached manifest:", error)
+      localStorage.removeItem(this.manifestCacheKey)
+    }
+
+    let response: Response
+    try {
+      // Without a cached copy a 304 would leave nothing to load
+      const validators = cached ? this.getValidators(rawUrl) : {}
+      response = await fetch(rawUrl, {
         headers: {
           Accept: "application/json",
           "Cache-Control": "no-cache",
+          ...(validators.etag ? { "If-None-Match": validators.etag } : {}),
+          ...(validators.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
+          ...this.getAuthHeaders(),
         },
       })
 
-      if (!response.ok) {
+      if (!response.ok && !(response.status === 304 && cached)) {
         throw new Error(`Failed to fetch from remote: ${response.status} ${response.statusText}`)
       }
-
-      const data = await response.json()
-      const manifest = this.extractAndValidateManifest(data)
-
-      // Cache locally
-      localStorage.setItem(this.manifestCacheKey, JSON.stringify(manifest))
-      this.lastSyncTime = Date.now()
-
-      return manifest
     } catch (error) {
-      // Try to return cached version if fetch fails
-      const cached = this.getCachedManifest()
+      // Only a server that cannot be reached falls back to the cached version
       if (cached) {
         console.warn("Failed to fetch from remote, using cached version:", error)
-        return cached
+        return { manifest: cached, unchanged: false, fromCache: true }
       }
       throw error
     }
+
+    if (response.status === 304 && cached) {
+      this.lastSyncTime = this.clock.now()
+      return { manifest: cached, unchanged: true, fromCache: false }
+    }
+
+    // A manifest that arrived but cannot be used is reported, with all its issues
+    const data = await response.json()
+    const manifest = this.extractAndValidateManifest(data)
+
+    // Cache locally
+    localStorage.setItem(this.manifestCacheKey, JSON.stringify(manifest))
+    this.saveValidators(rawUrl, response)
+    this.lastSyncTime = this.clock.now()
+
+    return { manifest, unchanged: false, fromCache: false }
+  }
+
+  /**
+   * Push a manifest (as produced by exportAsJson) to the configured URL
+   * Returns the manifest that was pushed
+   */
+  async pushToRemote(content: string): Promise<IDashboardManifest> {
+    if (!this.remoteConfig) {
+      throw new Error("Manifest URL not configured. Please set it first.")
+    }
+
+    const manifest = this.extractAndValidateManifest(JSON.parse(content))
+    const isJsonBin = this.getEndpointStyle() === "jsonbin"
+    const rawUrl = this.remoteConfig.rawUrl
+
+    // Only replace the version last loaded, so edits from another device are not lost
+    const validators = this.getValidators(rawUrl)
+    if (validators.reloadRequired) {
+      throw new Error(
+        "The version created by the last push is unknown, so edits made on another device since then could be lost. Load the manifest, then push again.",
+      )
+    }
+
+    const response = await fetch(this.getPushUrl(), {
+      method: isJsonBin ? "PUT" : (this.remoteConfig.pushMethod ?? "PUT"),
+      headers: {
+        "Content-Type": "application/json",
+        ...(validators.etag ? { "If-Match": validators.etag } : {}),
+        ...(validators.lastModified && !validators.etag
+          ? { "If-Unmodified-Since": validators.lastModified }
+          : {}),
+        ...this.getAuthHeaders(),
+      },
+      body: JSON.stringify(manifest),
+    })
+
+    if (response.status === 412) {
+      throw new Error(
+        "The remote manifest was changed on another device since it was last loaded. Load it, then push again.",
+      )
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to push to remote: ${response.status} ${response.statusText}`)
+    }
+
+    // What was pushed is now the latest remote version
+    localStorage.setItem(this.manifestCacheKey, JSON.stringify(manifest))
+    if (response.headers.has("ETag") || response.headers.has("Last-Modified")) {
+      this.saveValidators(rawUrl, response)
+    } else if (validators.etag || validators.lastModified) {
+      this.requireReload(rawUrl)
+    }
+    this.lastSyncTime = this.clock.now()
+
+    return manifest
+  }
+
+  /**
+   * The configured endpoint style, or the one the URL suggests
+   */
+  getEndpointStyle(): ManifestEndpointStyle {
+    if (!this.remoteConfig) return "generic"
+    if (this.remoteConfig.endpointStyle) return this.remoteConfig.endpointStyle
+
+    try {
+      return new URL(this.remoteConfig.rawUrl).hostname.endsWith("jsonbin.io")
+        ? "jsonbin"
+        : "generic"
+    } catch {
+      return "generic"
+    }
+  }
+
+  /**
+   * JSONBin reads the latest version from <bin>/latest but updates the bin itself
+   */
+  private getPushUrl(): string {
+    const rawUrl = this.remoteConfig?.rawUrl ?? ""
+    if (this.getEndpointStyle() !== "jsonbin") return rawUrl
+
+    const url = new URL(rawUrl)
+    url.pathname = url.pathname.replace(/\/latest\/?$/, "")
+    return url.toString()
+  }
+
+  /**
+   * Validators of the last version seen at a URL
+   */
+  getValidators(rawUrl: string): IManifestValidators {
+    return this.loadAllValidators()[rawUrl] ?? {}
+  }
+
+  /**
+   * Remember the validators of a response; a response without any leaves
+   * nothing to compare against next time
+   */
+  private saveValidators(rawUrl: string, response: Response): void {
+    const etag = response.headers.get("ETag")
+    const lastModified = response.headers.get("Last-Modified")
+    const all = this.loadAllValidators()
+
+    if (etag || lastModified) {
+      all[rawUrl] = {
+        ...(etag ? { etag } : {}),
+        ...(lastModified ? { lastModified } : {}),
+      }
+    } else {
+      delete all[rawUrl]
+    }
+    localStorage.setItem(this.validatorsKey, JSON.stringify(all))
+  }
+
+  /**
+   * The validators sent with a push no longer match the remote version, and a
+   * read could already return another device's edit, so only a load can replace them
+   */
+  private requireReload(rawUrl: string): void {
+    const all = this.loadAllValidators()
+    all[rawUrl] = { reloadRequired: true }
+    localStorage.setItem(this.validatorsKey, JSON.stringify(all))
+  }
+
+  private loadAllValidators(): Record<string, IManifestValidators> {
+    try {
+      return JSON.parse(localStorage.getItem(this.validatorsKey) ?? "{}")
+    } catch {
+      return {}
+    }
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const name = this.remoteConfig?.authHeaderName
+    const value = this.remoteConfig?.authHeaderValue
+    return name && value ? { [name]: value } : {}
   }
 
   /**
@@ -124,14 +427,15 @@ export class ManifestRepository {
    */
   getCachedManifest(): IDashboardManifest | null {
     const cached = localStorage.getItem(this.manifestCacheKey)
-    return cached ? JSON.parse(cached) : null
+    // Caches written before an upgrade of the format are upgraded too
+    return cached ? (ManifestMigrator.migrate(JSON.parse(cached)) as IDashboardManifest) : null
   }
 
   /**
    * Check if sync is needed (optional debounce)
    */
   shouldSync(debounceMs: number = 60000): boolean {
-    return Date.now() - this.lastSyncTime > debounceMs
+    return this.clock.now() - this.lastSyncTime > debounceMs
   }
 
   /**
@@ -143,21 +447,50 @@ export class ManifestRepository {
       name: string
       timers: Array<any>
     }>,
+  ): string {
+    return this.exportAs(dashboards, "json")
+  }
+
+  /**
+   * Export dashboards as a manifest in any format; recipes leave out the schema,
+   * which only editors of JSON and YAML use
+   */
+  exportAs(
+    dashboards: Array<{
+      id: string
+      name: string
+      timers: Array<any>
+    }>,
+    format: ManifestFormat,
   ): string {
     const manifest: IDashboardManifest = {
-      version: "1.0.0",
+      ...(format !== "recipe" ? { $schema: this.getSchemaUrl() } : {}),
+      version: ManifestMigrator.CURRENT_VERSION,
       exportedAt: new Date().toISOString(),
       dashboards,
     }
 
-    return JSON.stringify(manifest, null, 2)
+    return ManifestFormatConverter.stringify(manifest, format)
+  }
+
+  /**
+   * Where the schema is served from, so editors can find it from an exported file
+   */
+  private getSchemaUrl(): string {
+    return typeof window !== "undefined"
+      ? new URL(ManifestRepository.SCHEMA_FILE, window.location.href).href
+      : ManifestRepository.SCHEMA_FILE
   }
 
   /**
    * Generate a download link for the manifest
    */
-  downloadManifest(content: string, filename: string = "dashboards-manifest.json"): void {
-    const blob = new Blob([content], { type: "application/json" })
+  downloadManifest(
+    content: string,
+    filename: string = "dashboards-manifest.json",
+    mimeType: string = "application/json",
+  ): void {
+    const blob = new Blob([content], { type: mimeType })
     const url = URL.createObjectURL(blob)
     const link = document.createElement("a")
     link.href = url
@@ -169,21 +502,28 @@ export class ManifestRepository {
   }
 
   /**
-   * Import dashboards from JSON file (for local file uploads)
+   * Import dashboards from a JSON, YAML or recipe file (for local file uploads)
+   * The format is detected from the file name, or failing that its content
    */
   async importFromFile(file: File): Promise<IDashboardManifest> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
       reader.onload = (event) => {
+        const content = event.target?.result as string
+        const format = ManifestFormatConverter.detect(file.name, content)
         try {
-          const content = event.target?.result as string
-          const data = JSON.parse(content)
+          const data = ManifestFormatConverter.parse(content, format, file.name, this.clock.now())
           const manifest = this.extractAndValidateManifest(data)
           resolve(manifest)
         } catch (error) {
+          // Validation errors keep their issues, so all of them can be shown
+          if (error instanceof ManifestValidationError) {
+            reject(error)
+            return
+          }
           reject(
             new Error(
-              `Failed to parse JSON file: ${error instanceof Error ? error.message : "Unknown error"}`,
+              `Failed to parse ${ManifestFormatConverter.FORMATS[format].label} file: ${error instanceof Error ? error.message : "Unknown error"}`,
             ),
           )
         }
@@ -197,137 +537,25 @@ export class ManifestRepository {
 
   /**
    * Extract manifest from potentially wrapped response and validate
-   * Handles both direct manifests and JSONBin wrapped responses
+   * Handles both direct manifests and JSONBin wrapped responses, and upgrades
+   * manifests written in an older format
+   * Throws a ManifestValidationError listing every problem when the manifest has errors
    */
   private extractAndValidateManifest(data: unknown): IDashboardManifest {
-    try {
-      let manifest: any = data
-
-      // Handle JSONBin wrapped response
-      if (manifest && typeof manifest === "object" && "record" in manifest) {
-        manifest = manifest.record
-      }
-
-      // Validate required fields exist
-      if (!manifest || typeof manifest !== "object") {
-        throw new Error("Invalid manifest: not an object")
-      }
-
-      if (typeof manifest.version !== "string") {
-        throw new Error("Invalid manifest: missing or invalid 'version' field")
-      }
-
-      if (typeof manifest.exportedAt !== "string") {
-        throw new Error("Invalid manifest: missing or invalid 'exportedAt' field")
-      }
-
-      if (!Array.isArray(manifest.dashboards)) {
-        throw new Error(
-          "Invalid manifest: missing or invalid 'dashboards' field (must be an array)",
-        )
-      }
-
-      // Validate each dashboard
-      for (let i = 0; i < manifest.dashboards.length; i++) {
-        const dashboard = manifest.dashboards[i]
-
-        if (!dashboard || typeof dashboard !== "object") {
-          throw new Error(`Invalid dashboard at index ${i}: not an object`)
-        }
+    let manifest: any = data
 
-        if (typeof dashboard.id !== "string") {
-          throw new Error(`Invalid dashboard at index ${i}: missing or invalid 'id' field`)
-        }
-
-        if (typeof dashboard.name !== "string") {
-          throw new Error(`Invalid dashboard at index ${i}: missing or invalid 'name' field`)
-        }
-
-        if (!Array.isArray(dashboard.timers)) {
-          throw new Error(
-            `Invalid dashboard at index ${i}: missing or invalid 'timers' field (must be an array)`,
-          )
-        }
-
-        // Validate each timer
-        for (let j = 0; j < dashboard.timers.length; j++) {
-          const timer = dashboard.timers[j]
-
-          if (!timer || typeof timer !== "object") {
-            throw new Error(`Invalid timer at dashboard[${i}].timers[${j}]: not an object`)
-          }
-
-          if (typeof timer.id !== "number") {
-            throw new Error(
-              `Invalid timer at dashboard[${i}].timers[${j}]: missing or invalid 'id' field`,
-            )
-          }
-
-          if (typeof timer.label !== "string") {
-            throw new Error(
-              `Invalid timer at dashboard[${i}].timers[${j}]: missing or invalid 'label' field`,
-            )
-          }
-
-          if (timer.type !== "countdown" && timer.type !== "countup") {
-            throw new Error(
-              `Invalid timer at dashboard[${i}].timers[${j}]: 'type' must be 'countdown' or 'countup'`,
-            )
-          }
+    // Handle JSONBin wrapped response
+    if (manifest && typeof manifest === "object" && "record" in manifest) {
+      manifest = manifest.record
+    }
 
-          // Validate countdown-specific fields
-          if (timer.type === "countdown") {
-            if (timer.totalSeconds !== undefined && typeof timer.totalSeconds !== "number") {
-              throw new Error(
-                `Invalid timer at dashboard[${i}].timers[${j}]: 'totalSeconds' must be a number`,
-              )
-            }
-
-            if (timer.alertConfig !== undefined) {
-              const config = timer.alertConfig
-              if (!config || typeof config !== "object") {
-                throw new Error(
-                  `Invalid timer at dashboard[${i}].timers[${j}]: 'alertConfig' must be an object`,
-                )
-              }
-
-              if (typeof config.enabled !== "boolean") {
-                throw new Error(
-                  `Invalid timer at dashboard[${i}].timers[${j}].alertConfig: missing or invalid 'enabled' field`,
-                )
-              }
-
-              if (typeof config.utteranceTemplate !== "string") {
-                throw new Error(
-                  `Invalid timer at dashboard[${i}].timers[${j}].alertConfig: missing or invalid 'utteranceTemplate' field`,
-                )
-              }
-
-              if (
-                config.repeatCount !== "infinite" &&
-                config.repeatCount !== "finite" &&
-                config.repeatCount !== "once" &&
-                typeof config.repeatCount !== "number"
-              ) {
-                throw new Error(
-                  `Invalid timer at dashboard[${i}].timers[${j}].alertConfig: 'repeatCount' must be 'infinite', 'finite', 'once', or a number`,
-                )
-              }
-
-              if (typeof config.waitBetweenRepeat !== "number") {
-                throw new Error(
-                  `Invalid timer at dashboard[${i}].timers[${j}].alertConfig: missing or invalid 'waitBetweenRepeat' field`,
-                )
-              }
-            }
-          }
-        }
-      }
+    manifest = ManifestMigrator.migrate(manifest)
 
-      return manifest as IDashboardManifest
-    } catch (error) {
-      throw error instanceof Error ? error : new Error(`Validation failed: ${String(error)}`)
+    const issues = ManifestValidator.validate(manifest)
+    if (ManifestValidator.hasErrors(issues)) {
+      throw new ManifestValidationError(issues)
     }
+    return manifest as IDashboardManifest
   }
 
   /**
@@ -0,0 +1,162 @@
+/**
+ * ManifestSourceRegistry - Single Responsibility: Keep the list of manifest sources
+ * a device subscribes to, e.g. a shared "Kitchen" manifest next to a personal one
+ *
+ * Every source has its own ManifestRepository, so its URL, cache and sync state
+ * are kept apart from the others
+ */
+
+import type { IClock } from "../types/index"
+import { ManifestRepository, IRemoteOptions } from "./ManifestRepository"
+
+export interface IManifestSource {
+  readonly id: string
+  readonly name: string
+  /** Disabled sources keep their settings but are not synced */
+  readonly enabled: boolean
+}
+
+export interface IManifestSourceUpdate {
+  readonly name?: string
+  readonly enabled?: boolean
+  /** A new URL, saved along with remoteOptions */
+  readonly rawUrl?: string
+  readonly remoteOptions?: IRemoteOptions
+}
+
+export class ManifestSourceRegistry {
+  /** The source a manifest URL saved before sources existed belongs to */
+  static readonly DEFAULT_SOURCE_ID = "default"
+
+  /** Prefix of the source ids given to manifests imported from files */
+  static readonly FILE_SOURCE_PREFIX = "file:"
+
+  private static readonly STORAGE_KEY = "particularparrot_manifest_sources"
+
+  private clock: IClock
+  private sources: IManifestSource[]
+  private repositories: Map<string, ManifestRepository> = new Map()
+
+  constructor(clock: IClock) {
+    this.clock = clock
+    this.sources = this.loadSources()
+  }
+
+  getSources(): IManifestSource[] {
+    return [...this.sources]
+  }
+
+  getSource(id: string): IManifestSource | null {
+    return this.sources.find((source) => source.id === id) ?? null
+  }
+
+  static getFileSourceId(fileName: string): string {
+    return `${ManifestSourceRegistry.FILE_SOURCE_PREFIX}${fileName}`
+  }
+
+  getRepository(id: string): ManifestRepository {
+    let repository = this.repositories.get(id)
+    if (!repository) {
+      const suffix = id === ManifestSourceRegistry.DEFAULT_SOURCE_ID ? undefined : id
+      repository = new ManifestRepository(this.clock, suffix)
+      this.repositories.set(id, repository)
+    }
+    return repository
+  }
+
+  /**
+   * Add a source; throws when the name is taken or the URL is invalid
+   */
+  addSource(name: string, rawUrl: string, options: IRemoteOptions = {}): IManifestSource {
+    const trimmedName = this.validateName(name)
+
+    // The first source reuses the keys of a URL saved before sources existed
+    let id =
+      this.sources.length === 0
+        ? ManifestSourceRegistry.DEFAULT_SOURCE_ID
+        : `source-${this.clock.now()}`
+    for (let suffix = 2; this.getSource(id); suffix++) {
+      id = `source-${this.clock.now()}-${suffix}`
+    }
+
+    try {
+      this.getRepository(id).saveManifestUrl(rawUrl, options)
+    } catch (error) {
+      this.repositories.delete(id)
+      throw error
+    }
+
+    const source: IManifestSource = { id, name: trimmedName, enabled: true }
+    this.sources = [...this.sources, source]
+    this.saveSources()
+    return source
+  }
+
+  /**
+   * Rename, enable or disable a source, or point it at another URL
+   */
+  updateSource(id: string, update: IManifestSourceUpdate): IManifestSource {
+    const source = this.getSource(id)
+    if (!source) {
+      throw new Error(`Manifest source with id ${id} not found`)
+    }
+
+    const updatedSource: IManifestSource = {
+      ...source,
+      ...(update.name !== undefined ? { name: this.validateName(update.name, id) } : {}),
+      ...(update.enabled !== undefined ? { enabled: update.enabled } : {}),
+    }
+    if (update.rawUrl !== undefined) {
+      this.getRepository(id).saveManifestUrl(update.rawUrl, update.remoteOptions)
+    }
+    this.sources = this.sources.map((s) => (s.id === id ? updatedSource : s))
+    this.saveSources()
+    return updatedSource
+  }
+
+  /**
+   * Forget a source along with its URL and cached manifest
+   */
+  removeSource(id: string): void {
+    this.getRepository(id).clearRemoteConfig()
+    this.repositories.delete(id)
+    this.sources = this.sources.filter((source) => source.id !== id)
+    this.saveSources()
+  }
+
+  private validateName(name: string, ownId?: string): string {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      throw new Error("Source name cannot be empty")
+    }
+
+    const taken = this.sources.some(
+      (source) => source.id !== ownId && source.name.toLowerCase() === trimmedName.toLowerCase(),
+    )
+    if (taken) {
+      throw new Error(`A manifest source named "${trimmedName}" already exists`)
+    }
+    return trimmedName
+  }
+
+  private loadSources(): IManifestSource[] {
+    const saved = localStorage.getItem(ManifestSourceRegistry.STORAGE_KEY)
+    if (saved) {
+      try {
+        return JSON.parse(saved)
+      } catch {
+        console.warn("Failed to load manifest sources")
+      }
+    }
+
+    // A URL saved before sources existed becomes the first source
+    const legacy = this.getRepository(ManifestSourceRegistry.DEFAULT_SOURCE_ID)
+    return legacy.isConfigured()
+      ? [{ id: ManifestSourceRegistry.DEFAULT_SOURCE_ID, name: "Personal", enabled: true }]
+      : []
+  }
+
+  private saveSources(): void {
+    localStorage.setItem(ManifestSourceRegistry.STORAGE_KEY, JSON.stringify(this.sources))
+  }
+}
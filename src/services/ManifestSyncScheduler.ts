@@ -0,0 +1,280 @@
+/**
+ * ManifestSyncScheduler - Single Responsibility: Pull the remote manifest in the
+ * background and report how current the local dashboards are
+ *
+ * Polls while the page is visible and online, backing off after failures.
+ * Only changes that delete nothing are applied on their own; removals wait for a
+ * manual Load, which shows them for review. Edits made on this device are kept
+ * unless the remote manifest changed the same timer or dashboard since the last sync.
+ * There is one scheduler per manifest source
+ */
+
+import type { ClockTimeoutHandle, IClock } from "../types/index"
+import type { IDashboardManifest, ManifestRepository } from "./ManifestRepository"
+import { ManifestChange, ManifestMergeService } from "./ManifestMergeService"
+
+export type SyncState = "idle" | "syncing" | "synced" | "stale" | "offline" | "error"
+
+export interface ISyncStatus {
+  readonly sourceId: string
+  readonly state: SyncState
+  /** When the remote manifest was last reached */
+  readonly lastSyncedAt: number | null
+  /** Remote changes waiting for a manual Load */
+  readonly pendingChanges: number
+  readonly nextSyncAt: number | null
+  readonly message?: string
+}
+
+export interface ISyncStatusObserver {
+  onSyncStatusChanged(status: ISyncStatus): void
+}
+
+export class ManifestSyncScheduler {
+  private sourceId: string
+  private repository: ManifestRepository
+  private mergeService: ManifestMergeService
+  private clock: IClock
+  private intervalMs: number
+  private maxBackoffMs: number
+  private observers: Set<ISyncStatusObserver> = new Set()
+  private status: ISyncStatus
+  private failures = 0
+  private isSyncing = false
+  private timeoutHandle: ClockTimeoutHandle | null = null
+
+  constructor(
+    sourceId: string,
+    repository: ManifestRepository,
+    mergeService: ManifestMergeService,
+    clock: IClock,
+    intervalMs: number = 60_000,
+    maxBackoffMs: number = 15 * 60_000,
+  ) {
+    this.sourceId = sourceId
+    this.repository = repository
+    this.mergeService = mergeService
+    this.clock = clock
+    this.intervalMs = intervalMs
+    this.maxBackoffMs = maxBackoffMs
+    this.status = {
+      sourceId,
+      state: "idle",
+      lastSyncedAt: null,
+      pendingChanges: 0,
+      nextSyncAt: null,
+    }
+  }
+
+  /**
+   * Start polling; sources started together can be staggered with a first delay
+   */
+  start(delayMs: number = 0): void {
+    window.addEventListener("online", this.handleWake)
+    window.addEventListener("offline", this.handleOffline)
+    document.addEventListener("visibilitychange", this.handleWake)
+    this.schedule(delayMs)
+  }
+
+  stop(): void {
+    window.removeEventListener("online", this.handleWake)
+    window.removeEventListener("offline", this.handleOffline)
+    document.removeEventListener("visibilitychange", this.handleWake)
+    this.cancelScheduled()
+  }
+
+  getStatus(): ISyncStatus {
+    return this.status
+  }
+
+  /**
+   * Pull the manifest now and apply what can be applied without review
+   */
+  async syncNow(): Promise<void> {
+    if (this.isSyncing) return
+    if (!this.repository.isConfigured()) {
+      this.failures = 0
+      this.setStatus({
+        sourceId: this.sourceId,
+        state: "idle",
+        lastSyncedAt: null,
+        pendingChanges: 0,
+        nextSyncAt: null,
+      })
+      return
+    }
+
+    this.isSyncing = true
+    this.cancelScheduled()
+    this.setStatus({ ...this.status, state: "syncing", message: undefined })
+
+    // Tells edits made here apart from edits made remotely since the last sync
+    const previous = this.repository.getCachedManifest()
+
+    try {
+      const result = await this.repository.fetchLatest()
+
+      if (result.fromCache) {
+        this.failures++
+        this.setStatus({
+          ...this.status,
+          state: "offline",
+          message: "Could not reach the manifest URL - using the cached manifest",
+        })
+      } else if (result.unchanged) {
+        this.failures = 0
+        this.setSynced(this.getPendingChanges(result.manifest).length)
+      } else {
+        this.failures = 0
+        this.setSynced(this.applyRemoteChanges(result.manifest, previous))
+      }
+    } catch (error) {
+      this.failures++
+      this.setStatus({
+        ...this.status,
+        state: "error",
+        message: error instanceof Error ? error.message : String(error),
+      })
+    } finally {
+      this.isSyncing = false
+      this.schedule(this.getDelay())
+    }
+  }
+
+  subscribe(observer: ISyncStatusObserver): void {
+    this.observers.add(observer)
+  }
+
+  unsubscribe(observer: ISyncStatusObserver): void {
+    this.observers.delete(observer)
+  }
+
+  /**
+   * Apply additions and remote edits; returns how many changes were left for review
+   */
+  private applyRemoteChanges(
+    manifest: IDashboardManifest,
+    previous: IDashboardManifest | null,
+  ): number {
+    const automatic = this.mergeService
+      .plan(manifest, { sourceId: this.sourceId })
+      .filter((change) => !ManifestMergeService.isDestructive(change))
+      .filter((change) => this.isRemoteEdit(change, previous))
+
+    if (automatic.length > 0) {
+      this.mergeService.apply(manifest, automatic, { sourceId: this.sourceId })
+    }
+    return this.getPendingChanges(manifest).length
+  }
+
+  /** Removals the manifest asks for, which only a manual Load applies */
+  private getPendingChanges(manifest: IDashboardManifest): ManifestChange[] {
+    return this.mergeService
+      .plan(manifest, { sourceId: this.sourceId, removeMissing: true })
+      .filter((change) => ManifestMergeService.isDestructive(change))
+  }
+
+  /**
+   * Whether the remote manifest changed what a change touches since the last sync,
+   * rather than the change merely undoing an edit or deletion made on this device
+   */
+  private isRemoteEdit(change: ManifestChange, previous: IDashboardManifest | null): boolean {
+    if (!previous) return true
+
+    const findDashboard = (id: string) => previous.dashboards.find((d) => d.id === id)
+    const findTimer = (id: number) =>
+      previous.dashboards.flatMap((d) => d.timers).find((timer) => timer.id === id)
+
+    switch (change.kind) {
+      case "dashboard-added":
+        return !findDashboard(change.manifestDashboardId)
+      case "dashboard-renamed":
+        return findDashboard(change.manifestDashboardId)?.name !== change.to
+      case "timer-added":
+        return !findTimer(change.timer.id)
+      case "timer-updated":
+        return JSON.stringify(findTimer(change.timer.id)) !== JSON.stringify(change.timer)
+      default:
+        return true
+    }
+  }
+
+  private setSynced(pendingChanges: number): void {
+    this.setStatus({
+      sourceId: this.sourceId,
+      state: pendingChanges > 0 ? "stale" : "synced",
+      lastSyncedAt: this.clock.now(),
+      pendingChanges,
+      nextSyncAt: this.status.nextSyncAt,
+    })
+  }
+
+  /** The polling interval, doubled after every failure in a row */
+  private getDelay(): number {
+    return Math.min(this.intervalMs * 2 ** this.failures, this.maxBackoffMs)
+  }
+
+  private schedule(delayMs: number): void {
+    this.cancelScheduled()
+    this.timeoutHandle = this.clock.setTimeout(() => this.tick(), delayMs)
+    this.setStatus({ ...this.status, nextSyncAt: this.clock.now() + delayMs })
+  }
+
+  private cancelScheduled(): void {
+    if (this.timeoutHandle !== null) {
+      this.clock.clearTimeout(this.timeoutHandle)
+      this.timeoutHandle = null
+    }
+  }
+
+  /**
+   * Hidden or offline pages do not poll; coming back triggers a sync instead
+   */
+  private tick(): void {
+    this.timeoutHandle = null
+
+    if (this.isOffline()) {
+      this.handleOffline()
+      return
+    }
+    if (document.hidden) {
+      this.setStatus({ ...this.status, nextSyncAt: null })
+      return
+    }
+    void this.syncNow()
+  }
+
+  private handleWake = (): void => {
+    if (document.hidden || this.isOffline()) return
+
+    // Switching tabs back and forth should not pull the manifest every time
+    if (this.repository.shouldSync(this.intervalMs) || this.status.state === "offline") {
+      void this.syncNow()
+    } else if (this.timeoutHandle === null) {
+      this.schedule(this.intervalMs)
+    }
+  }
+
+  private handleOffline = (): void => {
+    this.cancelScheduled()
+    if (!this.repository.isConfigured()) return
+
+    this.setStatus({
+      ...this.status,
+      state: "offline",
+      nextSyncAt: null,
+      message: this.repository.getCachedManifest()
+        ? "Offline - using the cached manifest"
+        : "Offline",
+    })
+  }
+
+  private isOffline(): boolean {
+    return typeof navigator !== "undefined" && navigator.onLine === false
+  }
+
+  private setStatus(status: ISyncStatus): void {
+    this.status = status
+    this.observers.forEach((observer) => observer.onSyncStatusChanged(status))
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * ManifestValidator - Single Responsibility: Check a manifest against the current
+ * format and report every problem found, not just the first
+ *
+ * Each issue points at the offending value with a JSON pointer (RFC 6901), e.g.
+ * /dashboards/0/timers/3/alertConfig/repeatCount. Errors make a manifest unusable;
+ * warnings flag things that load but are probably mistakes, like duplicate ids
+ * A manifest has errors exactly when it does not match public/manifest.schema.json
+ */
+
+import { AlarmToneLibrary } from "../utils/AlarmToneLibrary"
+
+export type ManifestIssueSeverity = "error" | "warning"
+
+export interface IManifestIssue {
+  readonly pointer: string
+  readonly severity: ManifestIssueSeverity
+  readonly message: string
+}
+
+/**
+ * Thrown for manifests with errors; carries every issue found, warnings included
+ */
+export class ManifestValidationError extends Error {
+  constructor(readonly issues: readonly IManifestIssue[]) {
+    const errors = issues.filter((issue) => issue.severity === "error")
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more problems)` : ""
+    super(`Invalid manifest: ${ManifestValidator.format(errors[0])}${more}`)
+    this.name = "ManifestValidationError"
+  }
+}
+
+type Report = (path: ReadonlyArray<string | number>, message: string) => void
+
+export class ManifestValidator {
+  private static readonly TIMER_TYPES = ["countdown", "countup", "deadline"]
+  private static readonly ALERT_STYLES = ["speech", "sound", "both"]
+  private static readonly WARNING_UNITS = ["seconds", "percent"]
+
+  /**
+   * Every issue of a manifest in the current format; an empty list means it is valid
+   * Deadlines in the past are only flagged when the current time is given
+   */
+  static validate(data: unknown, now?: number): IManifestIssue[] {
+    const issues: IManifestIssue[] = []
+    const reporter =
+      (severity: ManifestIssueSeverity): Report =>
+      (path, message) =>
+        issues.push({ pointer: ManifestValidator.toPointer(path), severity, message })
+
+    ManifestValidator.validateManifest(data, reporter("error"), reporter("warning"), now)
+    return issues
+  }
+
+  static hasErrors(issues: readonly IManifestIssue[]): boolean {
+    return issues.some((issue) => issue.severity === "error")
+  }
+
+  static format(issue: IManifestIssue): string {
+    return `${issue.pointer || "/"} ${issue.message}`
+  }
+
+  /**
+   * A JSON pointer to a value, escaping "~" and "/" in keys
+   */
+  static toPointer(path: ReadonlyArray<string | number>): string {
+    return path
+      .map((segment) => `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`)
+      .join("")
+  }
+
+  private static isObject(value: unknown): boolean {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+  }
+
+  /**
+   * A date and time as the schema's "date-time" format has it (RFC 3339), e.g.
+   * 2025-01-01T12:00:00.000Z
+   */
+  private static isDateTime(value: unknown): boolean {
+    return (
+      typeof value === "string" &&
+      /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) &&
+      !isNaN(Date.parse(value))
+    )
+  }
+
+  private static validateManifest(data: any, error: Report, warn: Report, now?: number): void {
+    if (!ManifestValidator.isObject(data)) {
+      error([], "must be an object")
+      return
+    }
+
+    if (data.$schema !== undefined && typeof data.$schema !== "string") {
+      error(["$schema"], "must be a string")
+    }
+    if (typeof data.version !== "string") error(["version"], "must be a string")
+    if (typeof data.exportedAt !== "string") error(["exportedAt"], "must be a string")
+    if (!Array.isArray(data.dashboards)) {
+      error(["dashboards"], "must be an array")
+      return
+    }
+
+    const dashboardIds = new Set<string>()
+    data.dashboards.forEach((dashboard: any, i: number) => {
+      const path = ["dashboards", i]
+      if (!ManifestValidator.isObject(dashboard)) {
+        error(path, "must be an object")
+        return
+      }
+
+      if (typeof dashboard.id !== "string") {
+        error([...path, "id"], "must be a string")
+      } else if (dashboardIds.has(dashboard.id)) {
+        warn([...path, "id"], `duplicates the id of another dashboard ("${dashboard.id}")`)
+      } else {
+        dashboardIds.add(dashboard.id)
+      }
+
+      if (typeof dashboard.name !== "string") error([...path, "name"], "must be a string")
+
+      if (!Array.isArray(dashboard.timers)) {
+        error([...path, "timers"], "must be an array")
+        return
+      }
+
+      const timerIds = new Set<number>()
+      dashboard.timers.forEach((timer: any, j: number) => {
+        const timerPath = [...path, "timers", j]
+        ManifestValidator.validateTimer(timer, timerPath, error, warn, now)
+
+        if (typeof timer?.id === "number") {
+          if (timerIds.has(timer.id)) {
+            warn([...timerPath, "id"], `duplicates the id of another timer (${timer.id})`)
+          }
+          timerIds.add(timer.id)
+        }
+      })
+
+      // Sequences only link timers on the same dashboard
+      dashboard.timers.forEach((timer: any, j: number) => {
+        if (typeof timer?.nextTimerId !== "number") return
+        const nextPath = [...path, "timers", j, "nextTimerId"]
+        if (timer.nextTimerId === timer.id) {
+          warn(nextPath, "starts the timer itself")
+        } else if (!timerIds.has(timer.nextTimerId)) {
+          warn(nextPath, `refers to no timer on this dashboard (${timer.nextTimerId})`)
+        }
+      })
+    })
+  }
+
+  private static validateTimer(
+    timer: any,
+    path: ReadonlyArray<string | number>,
+    error: Report,
+    warn: Report,
+    now?: number,
+  ): void {
+    if (!ManifestValidator.isObject(timer)) {
+      error(path, "must be an object")
+      return
+    }
+
+    if (typeof timer.id !== "number") error([...path, "id"], "must be a number")
+    if (typeof timer.label !== "string") {
+      error([...path, "label"], "must be a string")
+    } else if (!timer.label.trim()) {
+      warn([...path, "label"], "is empty")
+    }
+
+    if (!ManifestValidator.TIMER_TYPES.includes(timer.type)) {
+      error([...path, "type"], "must be 'countdown', 'countup' or 'deadline'")
+      return
+    }
+
+    if (timer.type === "countdown") {
+      if (timer.totalSeconds !== undefined && typeof timer.totalSeconds !== "number") {
+        error([...path, "totalSeconds"], "must be a number")
+      } else if (timer.totalSeconds < 0) {
+        error([...path, "totalSeconds"], "must not be negative")
+      } else if (timer.totalSeconds === 0) {
+        warn([...path, "totalSeconds"], "is zero - the timer would finish straight away")
+      }
+
+      if (timer.nextTimerId !== undefined && typeof timer.nextTimerId !== "number") {
+        error([...path, "nextTimerId"], "must be a number")
+      }
+    }
+
+    if (timer.type === "deadline") {
+      const targetAt = ManifestValidator.isDateTime(timer.targetAt)
+        ? Date.parse(timer.targetAt)
+        : NaN
+      if (isNaN(targetAt)) {
+        error([...path, "targetAt"], "must be an ISO 8601 date and time")
+      } else if (now !== undefined && targetAt <= now) {
+        warn([...path, "targetAt"], "has passed - the deadline will be skipped")
+      }
+    }
+
+    if (timer.type === "countup" && timer.laps !== undefined) {
+      ManifestValidator.validateLaps(timer.laps, [...path, "laps"], error)
+    }
+
+    if (timer.type !== "countup" && timer.alertConfig !== undefined) {
+      ManifestValidator.validateAlertConfig(timer.alertConfig, [...path, "alertConfig"], error)
+    }
+  }
+
+  private static validateLaps(
+    laps: any,
+    path: ReadonlyArray<string | number>,
+    error: Report,
+  ): void {
+    if (!Array.isArray(laps)) {
+      error(path, "must be an array")
+      return
+    }
+
+    laps.forEach((lap: any, k: number) => {
+      if (!ManifestValidator.isObject(lap)) {
+        error([...path, k], "must be an object")
+        return
+      }
+      if (typeof lap.elapsedSeconds !== "number") {
+        error([...path, k, "elapsedSeconds"], "must be a number")
+      }
+      if (typeof lap.recordedAt !== "string") {
+        error([...path, k, "recordedAt"], "must be a string")
+      }
+      if (lap.note !== undefined && typeof lap.note !== "string") {
+        error([...path, k, "note"], "must be a string")
+      }
+    })
+  }
+
+  private static validateAlertConfig(
+    config: any,
+    path: ReadonlyArray<string | number>,
+    error: Report,
+  ): void {
+    if (!ManifestValidator.isObject(config)) {
+      error(path, "must be an object")
+      return
+    }
+
+    if (typeof config.enabled !== "boolean") error([...path, "enabled"], "must be a boolean")
+    if (typeof config.utteranceTemplate !== "string") {
+      error([...path, "utteranceTemplate"], "must be a string")
+    }
+    if (
+      config.repeatCount !== "infinite" &&
+      !(typeof config.repeatCount === "number" && config.repeatCount >= 1)
+    ) {
+      error([...path, "repeatCount"], "must be 'infinite' or a number of at least 1")
+    }
+    if (typeof config.waitBetweenRepeat !== "number") {
+      error([...path, "waitBetweenRepeat"], "must be a number")
+    }
+
+    for (const field of ["snoozeSeconds", "rate", "pitch", "volume"]) {
+      if (config[field] !== undefined && typeof config[field] !== "number") {
+        error([...path, field], "must be a number")
+      }
+    }
+    for (const field of ["voiceName", "voiceLang"]) {
+      if (config[field] !== undefined && typeof config[field] !== "string") {
+        error([...path, field], "must be a string")
+      }
+    }
+
+    if (
+      config.alertStyle !== undefined &&
+      !ManifestValidator.ALERT_STYLES.includes(config.alertStyle)
+    ) {
+      error([...path, "alertStyle"], "must be 'speech', 'sound' or 'both'")
+    }
+    if (config.sound !== undefined && !AlarmToneLibrary.isAlarmSound(config.sound)) {
+      const names = AlarmToneLibrary.tones.map((tone) => `'${tone.name}'`).join(", ")
+      error([...path, "sound"], `must be one of ${names}`)
+    }
+
+    if (config.warnings === undefined) return
+    if (!Array.isArray(config.warnings)) {
+      error([...path, "warnings"], "must be an array")
+      return
+    }
+
+    config.warnings.forEach((warning: any, k: number) => {
+      const warningPath = [...path, "warnings", k]
+      if (!ManifestValidator.isObject(warning)) {
+        error(warningPath, "must be an object")
+        return
+      }
+      if (typeof warning.at !== "number") error([...warningPath, "at"], "must be a number")
+      if (!ManifestValidator.WARNING_UNITS.includes(warning.unit)) {
+        error([...warningPath, "unit"], "must be 'seconds' or 'percent'")
+      }
+      if (typeof warning.utteranceTemplate !== "string") {
+        error([...warningPath, "utteranceTemplate"], "must be a string")
+      }
+    })
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * NotificationService - Single Responsibility: Raise system notifications for
+ * finished timers while the page is in the background
+ * Implements ITimerObserver so it follows TimerService like the UI does
+ *
+ * Notifications shown through the service worker offer Acknowledge and Snooze
+ * actions; without one (e.g. the single-file build opened from disk) a plain
+ * notification that brings the tab forward is used instead
+ */
+
+import {
+  ITimerObserver,
+  ITimerService,
+  IUtteranceContextProvider,
+  TimerState,
+  AlertingTimerState,
+} from "../types/index"
+import { UtteranceTemplate } from "../utils/UtteranceTemplate"
+
+/**
+ * Posted by the service worker when a timer notification is clicked
+ */
+interface INotificationMessage {
+  readonly type: "timer-notification"
+  readonly action: "acknowledge" | "snooze" | "open"
+  readonly timerId: number
+}
+
+export class NotificationService implements ITimerObserver {
+  private static readonly SERVICE_WORKER_URL = "notification-sw.js"
+
+  private timerService: ITimerService
+  private utteranceContext: IUtteranceContextProvider
+  private registration: ServiceWorkerRegistration | null = null
+  /** Timers with a notification on screen, so each finish is announced once */
+  private notifiedTimerIds: Set<number> = new Set()
+  private pageNotifications: Map<number, Notification> = new Map()
+
+  constructor(timerService: ITimerService, utteranceContext: IUtteranceContextProvider) {
+    this.timerService = timerService
+    this.utteranceContext = utteranceContext
+    this.registerServiceWorker()
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== "undefined" && "Notification" in window
+  }
+
+  getPermission(): NotificationPermission | "unsupported" {
+    return NotificationService.isSupported() ? Notification.permission : "unsupported"
+  }
+
+  /**
+   * Must be called from a user interaction, browsers ignore unprompted requests
+   */
+  async requestPermission(): Promise<NotificationPermission | "unsupported"> {
+    if (!NotificationService.isSupported()) return "unsupported"
+    return Notification.requestPermission()
+  }
+
+  private registerServiceWorker(): void {
+    if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return
+
+    navigator.serviceWorker
+      .register(NotificationService.SERVICE_WORKER_URL)
+      .then((registration) => {
+        this.registration = registration
+      })
+      .catch((error) => {
+        console.info("Notification actions unavailable, using plain notifications:", error)
+      })
+
+    navigator.serviceWorker.addEventListener("message", (event: MessageEvent) => {
+      this.handleMessage(event.data)
+    })
+  }
+
+  private handleMessage(message: INotificationMessage): void {
+    if (message?.type !== "timer-notification" || typeof message.timerId !== "number") return
+
+    this.notifiedTimerIds.delete(message.timerId)
+
+    try {
+      if (message.action === "acknowledge") {
+        this.timerService.acknowledgeTimer(message.timerId)
+      } else if (message.action === "snooze") {
+        this.timerService.snoozeTimer(message.timerId)
+      }
+    } catch (error) {
+      // The timer may have been handled in the page meanwhile
+      console.warn("Could not apply notification action:", error)
+    }
+  }
+
+  onTimerUpdated(timer: TimerState): void {
+    if (timer.type === "countup") return
+
+    if (timer.isFinished && !timer.isAcknowledged) {
+      if (!this.notifiedTimerIds.has(timer.id) && this.isPageInBackground()) {
+        this.notifiedTimerIds.add(timer.id)
+        this.showNotification(timer)
+      }
+    } else {
+      this.closeNotification(timer.id)
+    }
+  }
+
+  onTimerCreated(_timer: TimerState): void {}
+
+  onTimerDeleted(id: number): void {
+    this.closeNotification(id)
+  }
+
+  /**
+   * Finished timers are shown on the page, so only notify when nobody is looking
+   */
+  private isPageInBackground(): boolean {
+    return document.hidden || !document.hasFocus()
+  }
+
+  private showNotification(timer: AlertingTimerState): void {
+    if (this.getPermission() !== "granted") return
+
+    const title = `⏰ ${timer.label}`
+    const context = this.utteranceContext.getContext(timer.id)
+    const body = context
+      ? UtteranceTemplate.render(timer.alertConfig.utteranceTemplate, context)
+      : `${timer.label} has finished`
+    const options = {
+      body,
+      tag: `timer-${timer.id}`,
+      requireInteraction: true,
+      data: { timerId: timer.id },
+    }
+
+    if (this.registration) {
+      this.registration
+        .showNotification(title, {
+          ...options,
+          actions: [
+            { action: "acknowledge", title: "Acknowledge" },
+            { action: "snooze", title: "Snooze" },
+          ],
+        } as NotificationOptions)
+        .catch((error) => console.error("Failed to show notification:", error))
+      return
+    }
+
+    try {
+      const notification = new Notification(title, options)
+      notification.onclick = () => {
+        window.focus()
+        notification.close()
+      }
+      this.pageNotifications.set(timer.id, notification)
+    } catch (error) {
+      console.error("Failed to show notification:", error)
+    }
+  }
+
+  private closeNotification(timerId: number): void {
+    if (!this.notifiedTimerIds.delete(timerId)) return
+
+    this.pageNotifications.get(timerId)?.close()
+    this.pageNotifications.delete(timerId)
+
+    this.registration
+      ?.getNotifications({ tag: `timer-${timerId}` })
+      .then((notifications) => notifications.forEach((notification) => notification.close()))
+      .catch((error) => console.warn("Could not close notification:", error))
+  }
+}
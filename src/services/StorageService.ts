@@ -2,14 +2,51 @@
  * StorageService - Single Responsibility: Persist dashboards and timers to localStorage
  */
 
-import { IDashboard, IStorageService, TimerState, ITimerRuntime } from "../types/index"
+import {
+  IDashboard,
+  IStorageService,
+  TimerState,
+  ITimerRuntime,
+  IDoNotDisturbSettings,
+} from "../types/index"
 
 const STORAGE_KEY_DASHBOARDS = "multi-timer-dashboards"
 const STORAGE_KEY_TIMERS = "multi-timer-timers"
 const CURRENT_DASHBOARD_KEY = "multi-timer-current-dashboard"
 const STORAGE_KEY_TIMER_RUNTIMES = "multi-timer-runtimes"
+const STORAGE_KEY_DO_NOT_DISTURB = "multi-timer-do-not-disturb"
+const STORAGE_KEYS = [
+  STORAGE_KEY_DASHBOARDS,
+  STORAGE_KEY_TIMERS,
+  CURRENT_DASHBOARD_KEY,
+  STORAGE_KEY_TIMER_RUNTIMES,
+  STORAGE_KEY_DO_NOT_DISTURB,
+]
+const SIMULATION_NAMESPACE = "simulated:"
 
 export class StorageService implements IStorageService {
+  /**
+   * Every key is prefixed with the namespace, so separate states can share localStorage
+   */
+  constructor(private namespace: string = "") {}
+
+  /**
+   * Storage for a simulated clock, starting from a copy of the real state
+   * Runtimes hold timestamps of the simulated clock, which must never be read
+   * back as real ones, so nothing is written outside the copy
+   */
+  static createSimulated(): StorageService {
+    for (const key of STORAGE_KEYS) {
+      const value = localStorage.getItem(key)
+      if (value === null) {
+        localStorage.removeItem(SIMULATION_NAMESPACE + key)
+      } else {
+        localStorage.setItem(SIMULATION_NAMESPACE + key, value)
+      }
+    }
+    return new StorageService(SIMULATION_NAMESPACE)
+  }
+
   saveDashboard(dashboard: IDashboard): void {
     try {
       const dashboards = this.getAllDashboards()
@@ -21,7 +58,7 @@ export class StorageService implements IStorageService {
         dashboards.push(dashboard)
       }
 
-      localStorage.setItem(STORAGE_KEY_DASHBOARDS, JSON.stringify(dashboards))
+      localStorage.setItem(this.namespace + STORAGE_KEY_DASHBOARDS, JSON.stringify(dashboards))
     } catch (error) {
       console.error("Failed to save dashboard:", error)
     }
@@ -41,7 +78,7 @@ export class StorageService implements IStorageService {
     try {
       const dashboards = this.getAllDashboards()
       const filtered = dashboards.filter((d) => d.id !== id)
-      localStorage.setItem(STORAGE_KEY_DASHBOARDS, JSON.stringify(filtered))
+      localStorage.setItem(this.namespace + STORAGE_KEY_DASHBOARDS, JSON.stringify(filtered))
     } catch (error) {
       console.error("Failed to delete dashboard:", error)
     }
@@ -49,7 +86,7 @@ export class StorageService implements IStorageService {
 
   getAllDashboards(): IDashboard[] {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_DASHBOARDS)
+      const stored = localStorage.getItem(this.namespace + STORAGE_KEY_DASHBOARDS)
       return stored ? JSON.parse(stored) : []
     } catch (error) {
       console.error("Failed to load dashboards:", error)
@@ -59,7 +96,7 @@ export class StorageService implements IStorageService {
 
   saveCurrentDashboard(dashboardId: string): void {
     try {
-      localStorage.setItem(CURRENT_DASHBOARD_KEY, dashboardId)
+      localStorage.setItem(this.namespace + CURRENT_DASHBOARD_KEY, dashboardId)
     } catch (error) {
       console.error("Failed to save current dashboard:", error)
     }
@@ -67,7 +104,7 @@ export class StorageService implements IStorageService {
 
   getCurrentDashboard(): string | null {
     try {
-      return localStorage.getItem(CURRENT_DASHBOARD_KEY)
+      return localStorage.getItem(this.namespace + CURRENT_DASHBOARD_KEY)
     } catch (error) {
       console.error("Failed to load current dashboard:", error)
       return null
@@ -76,7 +113,7 @@ export class StorageService implements IStorageService {
 
   saveTimers(timers: TimerState[]): void {
     try {
-      localStorage.setItem(STORAGE_KEY_TIMERS, JSON.stringify(timers))
+      localStorage.setItem(this.namespace + STORAGE_KEY_TIMERS, JSON.stringify(timers))
     } catch (error) {
       console.error("Failed to save timers:", error)
     }
@@ -84,19 +121,34 @@ export class StorageService implements IStorageService {
 
   loadTimers(): TimerState[] {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_TIMERS)
-      return stored ? JSON.parse(stored) : []
+      const stored = localStorage.getItem(this.namespace + STORAGE_KEY_TIMERS)
+      const timers: TimerState[] = stored ? JSON.parse(stored) : []
+      return timers.map((timer) => this.normalizeTimer(timer))
     } catch (error) {
       console.error("Failed to load timers:", error)
       return []
     }
   }
 
+  /**
+   * Deadlines are stored as UTC epoch milliseconds; a target written as a date
+   * string is converted so it keeps pointing at the same instant in any time zone
+   */
+  private normalizeTimer(timer: TimerState): TimerState {
+    if (timer.type !== "deadline" || typeof timer.targetAt === "number") {
+      return timer
+    }
+    return { ...timer, targetAt: Date.parse(String(timer.targetAt)) }
+  }
+
   saveTimerRuntime(runtime: ITimerRuntime): void {
     try {
       const allRuntimes = this.getAllTimerRuntimes()
       allRuntimes[runtime.timerId] = runtime
-      localStorage.setItem(STORAGE_KEY_TIMER_RUNTIMES, JSON.stringify(allRuntimes))
+      localStorage.setItem(
+        this.namespace + STORAGE_KEY_TIMER_RUNTIMES,
+        JSON.stringify(allRuntimes),
+      )
     } catch (error) {
       console.error("Failed to save timer runtime:", error)
     }
@@ -116,15 +168,36 @@ export class StorageService implements IStorageService {
     try {
       const allRuntimes = this.getAllTimerRuntimes()
       delete allRuntimes[timerId]
-      localStorage.setItem(STORAGE_KEY_TIMER_RUNTIMES, JSON.stringify(allRuntimes))
+      localStorage.setItem(
+        this.namespace + STORAGE_KEY_TIMER_RUNTIMES,
+        JSON.stringify(allRuntimes),
+      )
     } catch (error) {
       console.error("Failed to delete timer runtime:", error)
     }
   }
 
+  saveDoNotDisturbSettings(settings: IDoNotDisturbSettings): void {
+    try {
+      localStorage.setItem(this.namespace + STORAGE_KEY_DO_NOT_DISTURB, JSON.stringify(settings))
+    } catch (error) {
+      console.error("Failed to save do-not-disturb settings:", error)
+    }
+  }
+
+  loadDoNotDisturbSettings(): IDoNotDisturbSettings | null {
+    try {
+      const stored = localStorage.getItem(this.namespace + STORAGE_KEY_DO_NOT_DISTURB)
+      return stored ? JSON.parse(stored) : null
+    } catch (error) {
+      console.error("Failed to load do-not-disturb settings:", error)
+      return null
+    }
+  }
+
   private getAllTimerRuntimes(): Record<number, ITimerRuntime> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_TIMER_RUNTIMES)
+      const stored = localStorage.getItem(this.namespace + STORAGE_KEY_TIMER_RUNTIMES)
       return stored ? JSON.parse(stored) : {}
     } catch (error) {
       console.error("Failed to load all timer runtimes:", error)
@@ -0,0 +1,20 @@
+/**
+ * SystemClock - Single Responsibility: Provide real wall-clock time and scheduling
+ * Implements IClock on top of Date.now and the global timer functions
+ */
+
+import { IClock, ClockTimeoutHandle } from "../types/index"
+
+export class SystemClock implements IClock {
+  now(): number {
+    return Date.now()
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimeoutHandle {
+    return globalThis.setTimeout(callback, delayMs)
+  }
+
+  clearTimeout(handle: ClockTimeoutHandle): void {
+    globalThis.clearTimeout(handle as ReturnType<typeof globalThis.setTimeout>)
+  }
+}
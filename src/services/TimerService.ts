@@ -2,6 +2,7 @@
  * TimerService - Single Responsibility: Timer business logic
  * Implements ITimerService and uses Observer pattern
  * Uses timestamp-based calculation for accurate time tracking across page reloads
+ * A single shared ticker drives every active timer and batches their updates
  */
 
 import {
@@ -10,20 +11,34 @@ import {
   TimerState,
   ICountdownTimerState,
   ICountupTimerState,
+  ICountupLap,
+  IDeadlineTimerState,
+  AlertingTimerState,
   IAudioService,
   IStorageService,
   ITimerRuntime,
   IAlertConfig,
+  IAlertWarning,
+  ITimerSequence,
+  IClock,
+  ClockTimeoutHandle,
+  ITimerUpdate,
+  RemainingTimeAdjustment,
 } from "../types/index"
 
 export class TimerService implements ITimerService {
   private timers: Map<number, TimerState> = new Map()
   private observers: Set<ITimerObserver> = new Set()
-  private intervals: Map<number, NodeJS.Timeout> = new Map()
+  private activeTimerIds: Set<number> = new Set()
+  private ticker: ClockTimeoutHandle | null = null
+  private pendingUpdates: Map<number, TimerState> | null = null
   private finishedTimers: Set<number> = new Set()
   private audioService: IAudioService
   private storageService: IStorageService
-  private nextId = Date.now()
+  private clock: IClock
+  private nextId: number
+
+  private readonly DEFAULT_SNOOZE_SECONDS = 300
 
   private readonly DEFAULT_ALERT_CONFIG: IAlertConfig = {
     enabled: true,
@@ -32,9 +47,11 @@ export class TimerService implements ITimerService {
     utteranceTemplate: "{timer name} has completed",
   }
 
-  constructor(audioService: IAudioService, storageService: IStorageService) {
+  constructor(audioService: IAudioService, storageService: IStorageService, clock: IClock) {
     this.audioService = audioService
     this.storageService = storageService
+    this.clock = clock
+    this.nextId = clock.now()
     this.loadTimers()
     this.resumeRunningTimers()
   }
@@ -42,17 +59,26 @@ export class TimerService implements ITimerService {
   private loadTimers(): void {
     const stored = this.storageService.loadTimers()
     stored.forEach((timer: TimerState) => {
-      // Ensure countdown timers have alertConfig
+      // Ensure alerting timers have alertConfig and overtime
       let processedTimer = timer
-      if (timer.type === "countdown") {
-        const countdownTimer = timer as ICountdownTimerState
-        if (!countdownTimer.alertConfig) {
+      if (this.isAlertingTimer(timer)) {
+        if (!timer.alertConfig) {
           processedTimer = {
-            ...countdownTimer,
+            ...timer,
             alertConfig: this.DEFAULT_ALERT_CONFIG,
             isAcknowledged: false,
-          } as ICountdownTimerState
+          }
+        }
+        if (typeof timer.overtimeSeconds !== "number") {
+          processedTimer = { ...(processedTimer as AlertingTimerState), overtimeSeconds: 0 }
+        }
+        if (!Array.isArray(timer.firedWarnings)) {
+          // Timers stored before warnings existed
+          processedTimer = { ...(processedTimer as AlertingTimerState), firedWarnings: [] }
         }
+      } else if (!Array.isArray((timer as ICountupTimerState).laps)) {
+        // Timers stored before laps existed
+        processedTimer = { ...(timer as ICountupTimerState), laps: [] }
       }
       this.timers.set(processedTimer.id, { ...processedTimer, isRunning: false })
       if (processedTimer.id >= this.nextId) {
@@ -62,39 +88,33 @@ export class TimerService implements ITimerService {
   }
 
   private resumeRunningTimers(): void {
-    const stored = this.storageService.loadTimers()
-
-    stored.forEach((timer: TimerState) => {
-      const runtime = this.storageService.getTimerRuntime(timer.id)
-
-      if (runtime && runtime.startedAt > 0) {
+    // Walk the in-memory timers rather than storage so that successors started
+    // by a predecessor that finished while the page was closed are not clobbered
+    const timerIds = Array.from(this.timers.keys())
+
+    timerIds.forEach((timerId) => {
+      const runtime = this.storageService.getTimerRuntime(timerId)
+      const timer = this.timers.get(timerId)
+
+      if (timer && timer.type === "deadline" && !timer.isFinished) {
+        // Deadlines run on their own from creation until the target is reached
+        this.timers.set(timerId, { ...timer, isRunning: true })
+        this.startTicking(timerId)
+        this.finishIfExpired(timerId)
+        this.checkWarnings(timerId, false)
+      } else if (timer && runtime && runtime.startedAt > 0) {
         // Timer was running - resume it and set up interval
-        let processedTimer = timer
-        if (timer.type === "countdown") {
-          const countdownTimer = timer as ICountdownTimerState
-          if (!countdownTimer.alertConfig) {
-            processedTimer = {
-              ...countdownTimer,
-              alertConfig: this.DEFAULT_ALERT_CONFIG,
-              isAcknowledged: false,
-            } as ICountdownTimerState
-          }
-        }
-
-        this.timers.set(processedTimer.id, { ...processedTimer, isRunning: true })
-        this.startInterval(processedTimer.id)
-
-        // Check if timer has finished
-        const currentTimer = this.getComputedTimer(processedTimer.id)
-        if (currentTimer && currentTimer.type === "countdown") {
-          const countdownTimer = currentTimer as ICountdownTimerState
-          if (countdownTimer.remainingSeconds <= 0) {
-            this.finishedTimers.add(processedTimer.id)
-            if (!countdownTimer.isAcknowledged) {
-              this.audioService.playAlert(currentTimer.label, countdownTimer.alertConfig)
-            }
-          }
-        }
+        this.timers.set(timerId, { ...timer, isRunning: true })
+        this.startTicking(timerId)
+
+        // Check if timer has finished while the page was closed, and skip
+        // warnings that fell due while nobody was listening
+        this.finishIfExpired(timerId)
+        this.checkWarnings(timerId, false)
+      } else if (timer && runtime?.finishedAt && this.isInOvertime(timer)) {
+        // Finished but unacknowledged - keep counting overtime
+        this.finishedTimers.add(timerId)
+        this.startTicking(timerId)
       }
     })
 
@@ -106,13 +126,30 @@ export class TimerService implements ITimerService {
     if (!timer) return undefined
 
     const runtime = this.storageService.getTimerRuntime(id)
+    if (runtime?.finishedAt && this.isInOvertime(timer)) {
+      const overtimeSeconds = Math.floor((this.clock.now() - runtime.finishedAt) / 1000)
+      return {
+        ...(timer as AlertingTimerState),
+        overtimeSeconds: Math.max(0, overtimeSeconds),
+      }
+    }
+
+    if (timer.type === "deadline") {
+      if (timer.isFinished) return timer
+      const remainingMs = (timer as IDeadlineTimerState).targetAt - this.clock.now()
+      return {
+        ...(timer as IDeadlineTimerState),
+        remainingSeconds: Math.max(0, Math.ceil(remainingMs / 1000)),
+      }
+    }
+
     if (!runtime || runtime.startedAt === 0) {
       // Not running, return as-is
       return timer
     }
 
     // Timer is running - calculate current state based on elapsed time
-    const elapsedSeconds = Math.floor((Date.now() - runtime.startedAt) / 1000)
+    const elapsedSeconds = Math.floor((this.clock.now() - runtime.startedAt) / 1000)
 
     if (timer.type === "countdown") {
       const countdownTimer = timer as ICountdownTimerState
@@ -137,52 +174,294 @@ export class TimerService implements ITimerService {
     return timer
   }
 
-  private startInterval(timerId: number): void {
-    // Clear existing interval if any
-    const existingInterval = this.intervals.get(timerId)
-    if (existingInterval) {
-      clearInterval(existingInterval)
+  private isInOvertime(timer: TimerState): boolean {
+    return this.isAlertingTimer(timer) && timer.isFinished && !timer.isAcknowledged
+  }
+
+  private isAlertingTimer(timer: TimerState): timer is AlertingTimerState {
+    return timer.type === "countdown" || timer.type === "deadline"
+  }
+
+  /**
+   * Look up a timer that can finish and raise an alert
+   */
+  private getAlertingTimer(id: number): AlertingTimerState {
+    const timer = this.timers.get(id)
+    if (!timer || !this.isAlertingTimer(timer)) {
+      throw new Error(`Countdown or deadline timer with id ${id} not found`)
+    }
+    return timer
+  }
+
+  /**
+   * Register a timer with the shared ticker (running or counting overtime)
+   */
+  private startTicking(timerId: number): void {
+    this.activeTimerIds.add(timerId)
+    this.scheduleTick()
+  }
+
+  private stopTicking(timerId: number): void {
+    this.activeTimerIds.delete(timerId)
+    if (this.activeTimerIds.size === 0) {
+      this.cancelTick()
+    }
+  }
+
+  /**
+   * Schedule the next tick on the next whole wall-clock second, or earlier if a
+   * countdown reaches zero before then so alerts are not delayed
+   */
+  private scheduleTick(): void {
+    this.cancelTick()
+    if (this.activeTimerIds.size === 0) return
+
+    const now = this.clock.now()
+    let nextTickAt = now - (now % 1000) + 1000
+
+    this.activeTimerIds.forEach((timerId) => {
+      const finishAt = this.getFinishTime(timerId)
+      if (finishAt !== null && finishAt > now && finishAt < nextTickAt) {
+        nextTickAt = finishAt
+      }
+    })
+
+    this.ticker = this.clock.setTimeout(() => this.tick(), nextTickAt - now)
+  }
+
+  private cancelTick(): void {
+    if (this.ticker !== null) {
+      this.clock.clearTimeout(this.ticker)
+      this.ticker = null
     }
+  }
 
-    const interval = setInterval(() => {
-      this.tickTimer(timerId)
-    }, 1000)
+  /**
+   * Advance every active timer and deliver all their updates in one notification
+   */
+  private tick(): void {
+    this.ticker = null
+    this.pendingUpdates = new Map()
 
-    this.intervals.set(timerId, interval)
+    Array.from(this.activeTimerIds).forEach((timerId) => this.tickTimer(timerId))
+
+    const updates = Array.from(this.pendingUpdates.values())
+    this.pendingUpdates = null
+    if (updates.length > 0) {
+      this.notifyTick(updates)
+    }
+
+    this.scheduleTick()
   }
 
   private tickTimer(timerId: number): void {
     const currentTimer = this.getComputedTimer(timerId)
     if (!currentTimer) return
 
-    // Check if countdown timer finished
-    if (currentTimer.type === "countdown") {
-      const countdownTimer = currentTimer as ICountdownTimerState
-      if (countdownTimer.remainingSeconds <= 0 && !this.finishedTimers.has(timerId)) {
-        this.finishedTimers.add(timerId)
-        this.pauseTimer(timerId)
-        this.audioService.playAlert(countdownTimer.label, countdownTimer.alertConfig)
-
-        // Get the latest state after pause
-        const latestTimer = this.timers.get(timerId)
-        if (latestTimer && latestTimer.type === "countdown") {
-          const finishedTimer: ICountdownTimerState = {
-            ...(latestTimer as ICountdownTimerState),
-            remainingSeconds: 0,
-            isFinished: true,
-          } as ICountdownTimerState
-          this.timers.set(timerId, finishedTimer)
-          this.persistTimers()
-          this.notifyObservers("onTimerUpdated", finishedTimer)
-        }
-        return
-      }
+    if (this.finishIfExpired(timerId)) {
+      return
+    }
+
+    if (this.checkWarnings(timerId, true)) {
+      this.notifyObservers("onTimerUpdated", this.getComputedTimer(timerId) ?? currentTimer)
+      return
     }
 
     // Notify observers with current computed state (triggers UI update)
     this.notifyObservers("onTimerUpdated", currentTimer)
   }
 
+  /**
+   * Mark every warning whose threshold a counting-down timer has reached as fired
+   * Warnings are only spoken when announce is set, so thresholds already passed
+   * when a timer starts, or while the page was closed, are skipped silently
+   * Returns true if any warning was marked
+   */
+  private checkWarnings(timerId: number, announce: boolean): boolean {
+    const timer = this.getComputedTimer(timerId)
+    if (!timer || !this.isAlertingTimer(timer) || timer.isFinished || !timer.isRunning) {
+      return false
+    }
+
+    const warnings = timer.alertConfig.warnings ?? []
+    const due: number[] = []
+    warnings.forEach((warning, index) => {
+      const threshold = this.getWarningThreshold(timer, warning)
+      if (
+        threshold !== null &&
+        timer.remainingSeconds <= threshold &&
+        !timer.firedWarnings.includes(index)
+      ) {
+        due.push(index)
+      }
+    })
+    if (due.length === 0) return false
+
+    const storedTimer = this.timers.get(timerId) as AlertingTimerState
+    this.timers.set(timerId, {
+      ...storedTimer,
+      firedWarnings: [...storedTimer.firedWarnings, ...due],
+    })
+    this.persistTimers()
+
+    if (announce) {
+      // Thresholds crossed together only need the most urgent one spoken
+      const threshold = (warning: IAlertWarning) => this.getWarningThreshold(timer, warning) ?? 0
+      const [warning] = due
+        .map((index) => warnings[index])
+        .sort((a, b) => threshold(a) - threshold(b))
+      this.audioService.playAlert(timer.id, timer.label, {
+        ...timer.alertConfig,
+        utteranceTemplate: warning.utteranceTemplate,
+        repeatCount: 1,
+        waitBetweenRepeat: 0,
+      })
+    }
+
+    return true
+  }
+
+  /**
+   * Seconds left at which a warning is due, or null when it does not apply to the timer
+   */
+  private getWarningThreshold(timer: AlertingTimerState, warning: IAlertWarning): number | null {
+    if (warning.unit === "seconds") {
+      return warning.at
+    }
+    return timer.type === "countdown" ? (timer.totalSeconds * warning.at) / 100 : null
+  }
+
+  /**
+   * Finish a running countdown or pending deadline whose time has run out
+   * Returns true if the timer was finished by this call
+   */
+  private finishIfExpired(timerId: number): boolean {
+    const currentTimer = this.getComputedTimer(timerId)
+    const finishAt = this.getFinishTime(timerId)
+    if (!currentTimer || !this.isAlertingTimer(currentTimer) || finishAt === null) {
+      return false
+    }
+
+    if (currentTimer.remainingSeconds > 0 || this.finishedTimers.has(timerId)) {
+      return false
+    }
+
+    this.finishTimer(timerId, finishAt)
+    return true
+  }
+
+  /**
+   * Timestamp at which a running countdown or pending deadline reaches zero,
+   * or null if it is not counting down
+   */
+  private getFinishTime(timerId: number): number | null {
+    const timer = this.timers.get(timerId)
+    if (timer && timer.type === "deadline") {
+      return timer.isFinished ? null : (timer as IDeadlineTimerState).targetAt
+    }
+
+    const runtime = this.storageService.getTimerRuntime(timerId)
+    if (!timer || timer.type !== "countdown" || !runtime || runtime.startedAt === 0) {
+      return null
+    }
+
+    const baseRemaining =
+      runtime.baseRemainingSeconds ?? (timer as ICountdownTimerState).remainingSeconds
+    return runtime.startedAt + baseRemaining * 1000
+  }
+
+  private finishTimer(timerId: number, finishedAt: number): void {
+    this.finishedTimers.add(timerId)
+    const timer = this.timers.get(timerId)
+    if (timer?.type === "countdown") {
+      this.pauseTimer(timerId)
+    } else {
+      this.stopTicking(timerId)
+    }
+
+    // Get the latest state after pause
+    const latestTimer = this.timers.get(timerId)
+    if (!latestTimer || !this.isAlertingTimer(latestTimer)) return
+
+    const finishedTimer: AlertingTimerState = {
+      ...latestTimer,
+      remainingSeconds: 0,
+      isRunning: false,
+      isFinished: true,
+      overtimeSeconds: 0,
+    }
+    this.timers.set(timerId, finishedTimer)
+    this.persistTimers()
+
+    if (!finishedTimer.isAcknowledged) {
+      // Remember when zero was reached so overtime survives reloads
+      this.storageService.saveTimerRuntime({ timerId, startedAt: 0, finishedAt })
+      this.startTicking(timerId)
+      this.audioService.playAlert(
+        finishedTimer.id,
+        finishedTimer.label,
+        finishedTimer.alertConfig,
+      )
+    }
+
+    this.notifyObservers("onTimerUpdated", finishedTimer)
+    if (finishedTimer.type === "countdown") {
+      this.startSuccessor(finishedTimer, finishedAt)
+    }
+  }
+
+  /**
+   * Start the timer linked after a finished countdown
+   * The successor is backdated to the moment its predecessor finished so that
+   * a sequence keeps its timing even if the page was closed in between
+   */
+  private startSuccessor(timer: ICountdownTimerState, startedAt: number): void {
+    if (timer.nextTimerId === undefined) return
+
+    const nextTimer = this.timers.get(timer.nextTimerId)
+    if (!nextTimer || nextTimer.isRunning || nextTimer.type === "deadline") return
+
+    let runningTimer: TimerState
+    let runtime: ITimerRuntime
+
+    if (nextTimer.type === "countdown") {
+      const countdownTimer = nextTimer as ICountdownTimerState
+      runningTimer = {
+        ...countdownTimer,
+        remainingSeconds: countdownTimer.totalSeconds,
+        isRunning: true,
+        isFinished: false,
+        isAcknowledged: false,
+        overtimeSeconds: 0,
+        firedWarnings: [],
+        startedAt,
+      }
+      runtime = {
+        timerId: nextTimer.id,
+        startedAt,
+        baseRemainingSeconds: countdownTimer.totalSeconds,
+      }
+      this.finishedTimers.delete(nextTimer.id)
+    } else {
+      runningTimer = { ...nextTimer, isRunning: true }
+      runtime = {
+        timerId: nextTimer.id,
+        startedAt,
+        baseElapsedSeconds: (nextTimer as ICountupTimerState).elapsedSeconds,
+      }
+    }
+
+    this.timers.set(nextTimer.id, runningTimer)
+    this.storageService.saveTimerRuntime(runtime)
+    this.startTicking(nextTimer.id)
+    this.checkWarnings(nextTimer.id, false)
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", this.timers.get(nextTimer.id) ?? runningTimer)
+
+    // The successor may already be over if the predecessor finished long ago
+    this.finishIfExpired(nextTimer.id)
+  }
+
   private getNextId(): number {
     return this.nextId++
   }
@@ -206,6 +485,8 @@ export class TimerService implements ITimerService {
       isRunning: false,
       isFinished: false,
       isAcknowledged: false,
+      overtimeSeconds: 0,
+      firedWarnings: [],
       alertConfig: alertConfig || this.DEFAULT_ALERT_CONFIG,
     }
 
@@ -224,6 +505,7 @@ export class TimerService implements ITimerService {
       elapsedSeconds: 0,
       isRunning: false,
       isFinished: false,
+      laps: [],
     }
 
     this.timers.set(id, timer)
@@ -232,12 +514,215 @@ export class TimerService implements ITimerService {
     return timer
   }
 
+  createDeadlineTimer(label: string, targetAt: number, alertConfig?: IAlertConfig): TimerState {
+    if (!Number.isFinite(targetAt)) {
+      throw new Error("Deadline must be a valid time")
+    }
+
+    const id = this.getNextId()
+    const timer: IDeadlineTimerState = {
+      id,
+      label,
+      type: "deadline",
+      targetAt,
+      remainingSeconds: Math.max(0, Math.ceil((targetAt - this.clock.now()) / 1000)),
+      isRunning: true,
+      isFinished: false,
+      isAcknowledged: false,
+      overtimeSeconds: 0,
+      firedWarnings: [],
+      alertConfig: alertConfig || this.DEFAULT_ALERT_CONFIG,
+    }
+
+    this.timers.set(id, timer)
+    this.startTicking(id)
+    this.checkWarnings(id, false)
+    this.persistTimers()
+    this.notifyObservers("onTimerCreated", this.timers.get(id) ?? timer)
+
+    // A target already in the past finishes straight away
+    this.finishIfExpired(id)
+    return this.getComputedTimer(id) ?? timer
+  }
+
+  updateTimer(
+    id: number,
+    update: ITimerUpdate,
+    adjustment: RemainingTimeAdjustment = "absolute",
+  ): TimerState {
+    const timer = this.timers.get(id)
+    if (!timer) {
+      throw new Error(`Timer with id ${id} not found`)
+    }
+
+    let label = timer.label
+    if (update.label !== undefined) {
+      label = update.label.trim()
+      if (!label) {
+        throw new Error("Timer label cannot be empty")
+      }
+    }
+
+    if (update.targetAt !== undefined && timer.type !== "deadline") {
+      throw new Error("Only deadline timers have a target time")
+    }
+
+    if (timer.type === "deadline") {
+      if (update.totalSeconds !== undefined) {
+        throw new Error("Deadline timers have a target time rather than a duration")
+      }
+      return this.updateDeadlineTimer(id, label, update)
+    }
+
+    if (timer.type === "countup") {
+      if (update.totalSeconds !== undefined || update.alertConfig !== undefined) {
+        throw new Error("Only countdown timers have a duration and alert configuration")
+      }
+
+      const updatedTimer: ICountupTimerState = { ...(timer as ICountupTimerState), label }
+      this.timers.set(id, updatedTimer)
+      this.persistTimers()
+      this.notifyObservers("onTimerUpdated", updatedTimer)
+      return updatedTimer
+    }
+
+    const countdownTimer = this.getComputedTimer(id) as ICountdownTimerState
+    const totalSeconds = update.totalSeconds ?? countdownTimer.totalSeconds
+    if (totalSeconds <= 0) {
+      throw new Error("Total time must be greater than 0")
+    }
+
+    let remainingSeconds = countdownTimer.remainingSeconds
+    if (totalSeconds !== countdownTimer.totalSeconds && !countdownTimer.isFinished) {
+      remainingSeconds = this.adjustRemainingSeconds(
+        countdownTimer.remainingSeconds,
+        countdownTimer.totalSeconds,
+        totalSeconds,
+        adjustment,
+      )
+    }
+
+    const alertConfig = update.alertConfig ?? countdownTimer.alertConfig
+    const updatedTimer: ICountdownTimerState = {
+      ...countdownTimer,
+      label,
+      totalSeconds,
+      remainingSeconds,
+      alertConfig,
+      firedWarnings: this.keepFiredWarnings(countdownTimer, alertConfig),
+    }
+    this.timers.set(id, updatedTimer)
+
+    // Rebase a running countdown on its new remaining time
+    if (updatedTimer.isRunning && remainingSeconds !== countdownTimer.remainingSeconds) {
+      this.storageService.saveTimerRuntime({
+        timerId: id,
+        startedAt: this.clock.now(),
+        baseRemainingSeconds: remainingSeconds,
+      })
+      this.scheduleTick()
+    }
+
+    // Thresholds a running countdown is already past stay quiet
+    this.checkWarnings(id, false)
+
+    this.persistTimers()
+    const latestTimer = this.getComputedTimer(id) as ICountdownTimerState
+    this.notifyObservers("onTimerUpdated", latestTimer)
+    return latestTimer
+  }
+
+  /**
+   * Warnings are tracked by position, so a changed warning list starts afresh
+   */
+  private keepFiredWarnings(
+    timer: AlertingTimerState,
+    alertConfig: IAlertConfig,
+  ): readonly number[] {
+    const before = JSON.stringify(timer.alertConfig.warnings ?? [])
+    const after = JSON.stringify(alertConfig.warnings ?? [])
+    return before === after ? timer.firedWarnings : []
+  }
+
+  private updateDeadlineTimer(
+    id: number,
+    label: string,
+    update: ITimerUpdate,
+  ): IDeadlineTimerState {
+    const deadlineTimer = this.getComputedTimer(id) as IDeadlineTimerState
+    const targetAt = update.targetAt ?? deadlineTimer.targetAt
+    if (!Number.isFinite(targetAt)) {
+      throw new Error("Deadline must be a valid time")
+    }
+
+    const alertConfig = update.alertConfig ?? deadlineTimer.alertConfig
+    let updatedTimer: IDeadlineTimerState = {
+      ...deadlineTimer,
+      label,
+      targetAt,
+      alertConfig,
+      firedWarnings: this.keepFiredWarnings(deadlineTimer, alertConfig),
+    }
+
+    const retargeted = targetAt !== deadlineTimer.targetAt
+    if (retargeted && targetAt > this.clock.now()) {
+      // Moving the target into the future re-arms a finished deadline
+      if (deadlineTimer.isFinished) {
+        if (!deadlineTimer.isAcknowledged) {
+          this.audioService.cancelAlert(id)
+        }
+        this.finishedTimers.delete(id)
+        this.storageService.deleteTimerRuntime(id)
+      }
+
+      updatedTimer = {
+        ...updatedTimer,
+        remainingSeconds: Math.ceil((targetAt - this.clock.now()) / 1000),
+        isRunning: true,
+        isFinished: false,
+        isAcknowledged: false,
+        overtimeSeconds: 0,
+        firedWarnings: [],
+      }
+      this.timers.set(id, updatedTimer)
+      this.startTicking(id)
+      this.checkWarnings(id, false)
+    } else {
+      this.timers.set(id, updatedTimer)
+      this.checkWarnings(id, false)
+    }
+
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", this.getComputedTimer(id) ?? updatedTimer)
+
+    if (retargeted) {
+      this.finishIfExpired(id)
+    }
+    return this.getComputedTimer(id) as IDeadlineTimerState
+  }
+
+  private adjustRemainingSeconds(
+    remainingSeconds: number,
+    oldTotalSeconds: number,
+    newTotalSeconds: number,
+    adjustment: RemainingTimeAdjustment,
+  ): number {
+    if (adjustment === "proportional") {
+      return Math.round((remainingSeconds * newTotalSeconds) / oldTotalSeconds)
+    }
+    return Math.max(0, remainingSeconds + newTotalSeconds - oldTotalSeconds)
+  }
+
   startTimer(id: number): void {
     const timer = this.timers.get(id)
     if (!timer) {
       throw new Error(`Timer with id ${id} not found`)
     }
 
+    if (timer.type === "deadline") {
+      throw new Error("Deadline timers run until their target time and cannot be started")
+    }
+
     // If timer is finished but not acknowledged, don't start
     if (timer.type === "countdown") {
       const countdownTimer = timer as ICountdownTimerState
@@ -252,6 +737,9 @@ export class TimerService implements ITimerService {
           remainingSeconds: countdownTimer.totalSeconds,
           isFinished: false,
           isAcknowledged: false,
+          overtimeSeconds: 0,
+          firedWarnings: [],
+          startedAt: this.clock.now(),
         }
         this.timers.set(id, resetTimer)
         this.finishedTimers.delete(id)
@@ -261,24 +749,28 @@ export class TimerService implements ITimerService {
 
         const runtime: ITimerRuntime = {
           timerId: id,
-          startedAt: Date.now(),
+          startedAt: this.clock.now(),
           baseRemainingSeconds: resetTimer.totalSeconds,
         }
 
         this.storageService.saveTimerRuntime(runtime)
-        this.startInterval(id)
+        this.startTicking(id)
+        this.checkWarnings(id, false)
         this.persistTimers()
-        this.notifyObservers("onTimerUpdated", updatedTimer)
+        this.notifyObservers("onTimerUpdated", this.timers.get(id) ?? updatedTimer)
         return
       }
     }
 
-    const updatedTimer: TimerState = { ...timer, isRunning: true }
+    const updatedTimer: TimerState =
+      timer.type === "countdown"
+        ? { ...timer, isRunning: true, startedAt: timer.startedAt ?? this.clock.now() }
+        : { ...timer, isRunning: true }
     this.timers.set(id, updatedTimer)
 
     const runtime: ITimerRuntime = {
       timerId: id,
-      startedAt: Date.now(),
+      startedAt: this.clock.now(),
       baseRemainingSeconds:
         timer.type === "countdown" ? (timer as ICountdownTimerState).remainingSeconds : undefined,
       baseElapsedSeconds:
@@ -286,9 +778,10 @@ export class TimerService implements ITimerService {
     }
 
     this.storageService.saveTimerRuntime(runtime)
-    this.startInterval(id)
+    this.startTicking(id)
+    this.checkWarnings(id, false)
     this.persistTimers()
-    this.notifyObservers("onTimerUpdated", updatedTimer)
+    this.notifyObservers("onTimerUpdated", this.timers.get(id) ?? updatedTimer)
   }
 
   pauseTimer(id: number): void {
@@ -297,13 +790,13 @@ export class TimerService implements ITimerService {
       throw new Error(`Timer with id ${id} not found`)
     }
 
-    // Stop the interval
-    const interval = this.intervals.get(id)
-    if (interval) {
-      clearInterval(interval)
-      this.intervals.delete(id)
+    if (timer.type === "deadline") {
+      throw new Error("Deadline timers run until their target time and cannot be paused")
     }
 
+    // Stop the interval
+    this.stopTicking(id)
+
     // Get the computed state before pausing (to preserve accumulated time)
     const computedTimer = this.getComputedTimer(id)
     let updatedTimer: TimerState = { ...timer, isRunning: false }
@@ -343,12 +836,17 @@ export class TimerService implements ITimerService {
     if (timer.isRunning) {
       this.pauseTimer(id)
     }
+    // Stop counting overtime
+    this.stopTicking(id)
     const countdownTimer = timer as ICountdownTimerState
     const resetTimer: ICountdownTimerState = {
       ...countdownTimer,
       remainingSeconds: countdownTimer.totalSeconds,
       isFinished: false,
       isAcknowledged: false,
+      overtimeSeconds: 0,
+      firedWarnings: [],
+      startedAt: undefined,
     }
     this.timers.set(id, resetTimer)
     this.finishedTimers.delete(id)
@@ -371,6 +869,7 @@ export class TimerService implements ITimerService {
     const resetTimer: ICountupTimerState = {
       ...(timer as ICountupTimerState),
       elapsedSeconds: 0,
+      laps: [],
     }
 
     this.timers.set(id, resetTimer)
@@ -379,21 +878,42 @@ export class TimerService implements ITimerService {
     this.notifyObservers("onTimerUpdated", resetTimer)
   }
 
-  acknowledgeTimer(id: number): void {
+  recordLap(id: number, note?: string): ICountupLap {
     const timer = this.timers.get(id)
-    if (!timer || timer.type !== "countdown") {
-      throw new Error(`Countdown timer with id ${id} not found`)
+    if (!timer || timer.type !== "countup") {
+      throw new Error(`Countup timer with id ${id} not found`)
     }
 
-    const countdownTimer = timer as ICountdownTimerState
+    const computedTimer = this.getComputedTimer(id) as ICountupTimerState
+    const trimmedNote = note?.trim()
+    const lap: ICountupLap = {
+      elapsedSeconds: computedTimer.elapsedSeconds,
+      recordedAt: this.clock.now(),
+      ...(trimmedNote ? { note: trimmedNote } : {}),
+    }
+
+    const updatedTimer: ICountupTimerState = {
+      ...(timer as ICountupTimerState),
+      laps: [...(timer as ICountupTimerState).laps, lap],
+    }
+
+    this.timers.set(id, updatedTimer)
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", updatedTimer)
+    return lap
+  }
+
+  acknowledgeTimer(id: number): void {
+    const timer = this.getAlertingTimer(id)
 
     // Cancel ongoing alerts
-    this.audioService.cancelAlert()
+    this.audioService.cancelAlert(id)
 
     // Mark as acknowledged
-    const acknowledgedTimer: ICountdownTimerState = {
-      ...countdownTimer,
+    const acknowledgedTimer: AlertingTimerState = {
+      ...timer,
       isAcknowledged: true,
+      overtimeSeconds: this.recordFinalOvertime(id),
     }
 
     this.timers.set(id, acknowledgedTimer)
@@ -401,21 +921,97 @@ export class TimerService implements ITimerService {
     this.notifyObservers("onTimerUpdated", acknowledgedTimer)
   }
 
-  stopAlert(id: number): void {
-    const timer = this.timers.get(id)
-    if (!timer || timer.type !== "countdown") {
-      throw new Error(`Countdown timer with id ${id} not found`)
+  adjustTime(id: number, deltaSeconds: number): void {
+    const timer = this.getAlertingTimer(id)
+
+    if (timer.isFinished) {
+      throw new Error("Cannot adjust a finished timer - snooze it instead")
+    }
+
+    if (timer.type === "deadline") {
+      // Shift the target itself, never further back than now
+      const targetAt = Math.max(this.clock.now(), timer.targetAt + deltaSeconds * 1000)
+      this.updateDeadlineTimer(id, timer.label, { targetAt })
+      return
+    }
+
+    const computedTimer = this.getComputedTimer(id) as ICountdownTimerState
+    const remainingSeconds = Math.max(0, computedTimer.remainingSeconds + deltaSeconds)
+    const adjustedTimer: ICountdownTimerState = {
+      ...(timer as ICountdownTimerState),
+      remainingSeconds,
+    }
+    this.timers.set(id, adjustedTimer)
+
+    if (adjustedTimer.isRunning) {
+      // Rebase the runtime so the adjustment survives reloads
+      this.storageService.saveTimerRuntime({
+        timerId: id,
+        startedAt: this.clock.now(),
+        baseRemainingSeconds: remainingSeconds,
+      })
+      this.scheduleTick()
+    }
+
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", adjustedTimer)
+
+    if (adjustedTimer.isRunning) {
+      this.finishIfExpired(id)
+    }
+  }
+
+  snoozeTimer(id: number): void {
+    const timer = this.getAlertingTimer(id)
+    if (!timer.isFinished) {
+      throw new Error("Only finished timers can be snoozed")
+    }
+
+    this.audioService.cancelAlert(id)
+
+    const snoozeSeconds = timer.alertConfig.snoozeSeconds ?? this.DEFAULT_SNOOZE_SECONDS
+    if (timer.type === "deadline") {
+      this.updateDeadlineTimer(id, timer.label, {
+        targetAt: this.clock.now() + snoozeSeconds * 1000,
+      })
+      return
     }
 
     const countdownTimer = timer as ICountdownTimerState
+    const snoozedTimer: ICountdownTimerState = {
+      ...countdownTimer,
+      remainingSeconds: snoozeSeconds,
+      isRunning: true,
+      isFinished: false,
+      isAcknowledged: false,
+      overtimeSeconds: 0,
+      firedWarnings: [],
+    }
+
+    this.timers.set(id, snoozedTimer)
+    this.finishedTimers.delete(id)
+    this.storageService.saveTimerRuntime({
+      timerId: id,
+      startedAt: this.clock.now(),
+      baseRemainingSeconds: snoozeSeconds,
+    })
+    this.startTicking(id)
+    this.checkWarnings(id, false)
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", this.timers.get(id) ?? snoozedTimer)
+  }
+
+  stopAlert(id: number): void {
+    const timer = this.getAlertingTimer(id)
 
     // Cancel ongoing alerts
-    this.audioService.cancelAlert()
+    this.audioService.cancelAlert(id)
 
     // Mark as acknowledged to stop the flashing and change button
-    const stoppedTimer: ICountdownTimerState = {
-      ...countdownTimer,
+    const stoppedTimer: AlertingTimerState = {
+      ...timer,
       isAcknowledged: true,
+      overtimeSeconds: this.recordFinalOvertime(id),
     }
 
     this.timers.set(id, stoppedTimer)
@@ -423,20 +1019,41 @@ export class TimerService implements ITimerService {
     this.notifyObservers("onTimerUpdated", stoppedTimer)
   }
 
+  /**
+   * Freeze the overtime of a finished timer that is being acknowledged
+   * Returns the final overtime in seconds
+   */
+  private recordFinalOvertime(id: number): number {
+    const computed = this.getComputedTimer(id)
+    const overtimeSeconds =
+      computed && this.isAlertingTimer(computed) ? computed.overtimeSeconds : 0
+
+    const runtime = this.storageService.getTimerRuntime(id)
+    if (runtime?.finishedAt) {
+      this.stopTicking(id)
+      this.storageService.saveTimerRuntime({ timerId: id, startedAt: 0 })
+    }
+
+    return overtimeSeconds
+  }
+
   deleteTimer(id: number): void {
     const timer = this.timers.get(id)
     if (!timer) return
 
-    if (timer.isRunning) {
-      const interval = this.intervals.get(id)
-      if (interval) {
-        clearInterval(interval)
-        this.intervals.delete(id)
-      }
-    }
+    // Running timers and timers counting overtime both have an interval
+    this.stopTicking(id)
 
     // Cancel any ongoing alert for this timer
-    this.audioService.cancelAlert()
+    this.audioService.cancelAlert(id)
+
+    // Heal the sequence by linking the predecessor to the deleted timer's successor
+    const predecessor = this.findPredecessor(id)
+    if (predecessor) {
+      const successorId =
+        timer.type === "countdown" ? (timer as ICountdownTimerState).nextTimerId : undefined
+      this.setNextTimerId(predecessor.id, successorId)
+    }
 
     this.timers.delete(id)
     this.finishedTimers.delete(id)
@@ -445,6 +1062,105 @@ export class TimerService implements ITimerService {
     this.notifyObservers("onTimerDeleted", id)
   }
 
+  linkTimers(id: number, nextId: number): void {
+    const timer = this.timers.get(id)
+    if (!timer || timer.type !== "countdown") {
+      throw new Error(`Countdown timer with id ${id} not found`)
+    }
+
+    const nextTimer = this.timers.get(nextId)
+    if (!nextTimer) {
+      throw new Error(`Timer with id ${nextId} not found`)
+    }
+
+    if (nextTimer.type === "deadline") {
+      throw new Error("Deadline timers start on their own and cannot follow another timer")
+    }
+
+    // Walk forward from the successor - reaching this timer means a cycle
+    let cursor: number | undefined = nextId
+    const visited = new Set<number>()
+    while (cursor !== undefined && !visited.has(cursor)) {
+      if (cursor === id) {
+        throw new Error(`Linking timer ${id} to ${nextId} would create a cycle`)
+      }
+      visited.add(cursor)
+      cursor = this.getNextTimerId(cursor)
+    }
+
+    // A timer can only follow one predecessor
+    const previousPredecessor = this.findPredecessor(nextId)
+    if (previousPredecessor && previousPredecessor.id !== id) {
+      this.setNextTimerId(previousPredecessor.id, undefined)
+    }
+
+    this.setNextTimerId(id, nextId)
+  }
+
+  unlinkTimer(id: number): void {
+    const timer = this.timers.get(id)
+    if (!timer || timer.type !== "countdown") {
+      throw new Error(`Countdown timer with id ${id} not found`)
+    }
+
+    this.setNextTimerId(id, undefined)
+  }
+
+  getSequence(id: number): ITimerSequence {
+    if (!this.timers.has(id)) {
+      return { timerIds: [] }
+    }
+
+    // Rewind to the head of the chain
+    let head = id
+    const visited = new Set<number>([id])
+    let predecessor = this.findPredecessor(head)
+    while (predecessor && !visited.has(predecessor.id)) {
+      head = predecessor.id
+      visited.add(head)
+      predecessor = this.findPredecessor(head)
+    }
+
+    const timerIds: number[] = []
+    let cursor: number | undefined = head
+    while (cursor !== undefined && this.timers.has(cursor) && !timerIds.includes(cursor)) {
+      timerIds.push(cursor)
+      cursor = this.getNextTimerId(cursor)
+    }
+
+    return { timerIds }
+  }
+
+  private getNextTimerId(id: number): number | undefined {
+    const timer = this.timers.get(id)
+    return timer && timer.type === "countdown"
+      ? (timer as ICountdownTimerState).nextTimerId
+      : undefined
+  }
+
+  private findPredecessor(id: number): ICountdownTimerState | undefined {
+    for (const timer of this.timers.values()) {
+      if (timer.type === "countdown" && (timer as ICountdownTimerState).nextTimerId === id) {
+        return timer as ICountdownTimerState
+      }
+    }
+    return undefined
+  }
+
+  private setNextTimerId(id: number, nextId: number | undefined): void {
+    const timer = this.timers.get(id)
+    if (!timer || timer.type !== "countdown") return
+
+    const linkedTimer: ICountdownTimerState = {
+      ...(timer as ICountdownTimerState),
+      nextTimerId: nextId,
+    }
+
+    this.timers.set(id, linkedTimer)
+    this.persistTimers()
+    this.notifyObservers("onTimerUpdated", linkedTimer)
+  }
+
   getTimer(id: number): TimerState | undefined {
     return this.getComputedTimer(id)
   }
@@ -476,9 +1192,29 @@ export class TimerService implements ITimerService {
     this.storageService.saveTimers(timers)
   }
 
-  private notifyObservers(method: keyof ITimerObserver, data: TimerState | number): void {
+  private notifyObservers(
+    method: "onTimerUpdated" | "onTimerCreated" | "onTimerDeleted",
+    data: TimerState | number,
+  ): void {
+    // Updates raised during a tick are collected and delivered as one batch
+    if (method === "onTimerUpdated" && this.pendingUpdates) {
+      const timer = data as TimerState
+      this.pendingUpdates.set(timer.id, timer)
+      return
+    }
+
     this.observers.forEach((observer) => {
       ;(observer[method] as any)(data)
     })
   }
+
+  private notifyTick(timers: TimerState[]): void {
+    this.observers.forEach((observer) => {
+      if (observer.onTimersTicked) {
+        observer.onTimersTicked(timers)
+      } else {
+        timers.forEach((timer) => observer.onTimerUpdated(timer))
+      }
+    })
+  }
 }
@@ -0,0 +1,93 @@
+/**
+ * UtteranceContextService - Single Responsibility: Gather what alert messages can
+ * say about a timer from the timer and dashboard services
+ * Implements IUtteranceContextProvider
+ */
+
+import {
+  IUtteranceContext,
+  IUtteranceContextProvider,
+  ITimerService,
+  IDashboardService,
+  IClock,
+} from "../types/index"
+
+export class UtteranceContextService implements IUtteranceContextProvider {
+  private timerService: ITimerService
+  private dashboardService: IDashboardService
+  private clock: IClock
+
+  constructor(timerService: ITimerService, dashboardService: IDashboardService, clock: IClock) {
+    this.timerService = timerService
+    this.dashboardService = dashboardService
+    this.clock = clock
+  }
+
+  getContext(timerId: number): IUtteranceContext | null {
+    const timer = this.timerService.getTimer(timerId)
+    if (!timer) return null
+
+    const context = {
+      timerName: timer.label,
+      now: this.clock.now(),
+      dashboard: this.findDashboardName(timer.id),
+    }
+
+    switch (timer.type) {
+      case "countdown":
+        return {
+          ...context,
+          durationSeconds: timer.totalSeconds,
+          remainingSeconds: timer.remainingSeconds,
+          overtimeSeconds: timer.overtimeSeconds,
+          startedAt: timer.startedAt,
+          nextTimer: this.findTimerName(timer.nextTimerId),
+        }
+      case "deadline":
+        return {
+          ...context,
+          remainingSeconds: timer.remainingSeconds,
+          overtimeSeconds: timer.overtimeSeconds,
+          targetAt: timer.targetAt,
+        }
+      default:
+        return context
+    }
+  }
+
+  getDraftContext(
+    timerName: string,
+    durationSeconds?: number,
+    targetAt?: number,
+  ): IUtteranceContext {
+    const now = this.clock.now()
+    return {
+      timerName,
+      now,
+      dashboard: this.dashboardService.getCurrentDashboard()?.name,
+      durationSeconds,
+      remainingSeconds:
+        targetAt === undefined ? durationSeconds : Math.max(0, Math.ceil((targetAt - now) / 1000)),
+      overtimeSeconds: 0,
+      startedAt: durationSeconds === undefined ? undefined : now,
+      targetAt,
+    }
+  }
+
+  /**
+   * A timer can sit on several dashboards; prefer the one being looked at
+   */
+  private findDashboardName(timerId: number): string | undefined {
+    const current = this.dashboardService.getCurrentDashboard()
+    if (current?.timerIds.includes(timerId)) {
+      return current.name
+    }
+    return this.dashboardService
+      .getAllDashboards()
+      .find((dashboard) => dashboard.timerIds.includes(timerId))?.name
+  }
+
+  private findTimerName(timerId: number | undefined): string | undefined {
+    return timerId === undefined ? undefined : this.timerService.getTimer(timerId)?.label
+  }
+}
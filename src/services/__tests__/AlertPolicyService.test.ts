@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { AlertPolicyService } from "../AlertPolicyService"
+import { TimerService } from "../TimerService"
+import { StorageService } from "../StorageService"
+import { FakeClock } from "../FakeClock"
+import type { IAlertConfig, IAudioService } from "../../types/index"
+
+describe("AlertPolicyService", () => {
+  let audioService: IAudioService & { playAlert: ReturnType<typeof vi.fn> }
+  let storageService: StorageService
+  let clock: FakeClock
+
+  const config: IAlertConfig = {
+    enabled: true,
+    repeatCount: "infinite",
+    waitBetweenRepeat: 10,
+    utteranceTemplate: "{timer name} has completed",
+  }
+
+  // Wednesday 1 January 2025, local time
+  const at = (hours: number, minutes: number = 0) =>
+    new Date(2025, 0, 1, hours, minutes).getTime()
+
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+
+    audioService = { playBeep: vi.fn(), playAlert: vi.fn(), cancelAlert: vi.fn() }
+    storageService = new StorageService()
+    clock = new FakeClock(at(12))
+  })
+
+  it("should pass alerts through outside quiet hours", () => {
+    const policy = new AlertPolicyService(audioService, storageService, clock)
+
+    policy.playAlert(1, "bread", config)
+
+    expect(audioService.playAlert).toHaveBeenCalledWith(1, "bread", config)
+  })
+
+  it("should play a single chime while do-not-disturb is on", () => {
+    const policy = new AlertPolicyService(audioService, storageService, clock)
+    policy.updateSettings({ enabled: true, windows: [], mode: "chime" })
+
+    policy.playAlert(1, "bread", config)
+
+    expect(audioService.playAlert).toHaveBeenCalledWith(1, "bread", {
+      ...config,
+      alertStyle: "sound",
+      sound: "chime",
+      repeatCount: 1,
+    })
+  })
+
+  it("should only alert visually in visual mode", () => {
+    const policy = new AlertPolicyService(audioService, storageService, clock)
+    policy.updateSettings({ enabled: true, windows: [], mode: "visual" })
+
+    policy.playAlert(1, "bread", config)
+
+    expect(audioService.playAlert).not.toHaveBeenCalled()
+  })
+
+  it("should cover the early hours after a window that runs past midnight", () => {
+    const weekdayNights = { days: [1, 2, 3, 4, 5], start: "22:00", end: "07:00" }
+    const saturdayNight = { days: [6], start: "22:00", end: "07:00" }
+
+    // Wednesday 06:59 belongs to Tuesday night; Sunday night is not quiet
+    expect(AlertPolicyService.isWithin(weekdayNights, new Date(at(6, 59)))).toBe(true)
+    expect(AlertPolicyService.isWithin(weekdayNights, new Date(at(7)))).toBe(false)
+    expect(AlertPolicyService.isWithin(weekdayNights, new Date(at(22)))).toBe(true)
+    expect(AlertPolicyService.isWithin(saturdayNight, new Date(at(23)))).toBe(false)
+    expect(AlertPolicyService.isWithin(weekdayNights, new Date(2025, 0, 6, 3))).toBe(false)
+  })
+
+  it("should keep its settings across reloads", () => {
+    const settings = {
+      enabled: false,
+      windows: [{ days: [3], start: "11:00", end: "13:00" }],
+      mode: "visual" as const,
+    }
+    new AlertPolicyService(audioService, storageService, clock).updateSettings(settings)
+
+    const reloaded = new AlertPolicyService(audioService, new StorageService(), clock)
+
+    expect(reloaded.getSettings()).toEqual(settings)
+    expect(reloaded.isQuiet()).toBe(true)
+  })
+
+  it("should quiet timers that finished while the page was closed", () => {
+    const policy = new AlertPolicyService(audioService, storageService, clock)
+    const timerService = new TimerService(policy, storageService, clock)
+    const timer = timerService.createCountdownTimer("proofing", 3600, config)
+    timerService.startTimer(timer.id)
+
+    // The page is closed overnight and opened during quiet hours
+    policy.updateSettings({
+      enabled: false,
+      windows: [{ days: [3], start: "12:30", end: "15:00" }],
+      mode: "visual",
+    })
+    clock.jump(at(14) - clock.now())
+    new TimerService(
+      new AlertPolicyService(audioService, new StorageService(), clock),
+      new StorageService(),
+      clock,
+    )
+
+    expect(audioService.playAlert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,336 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { AudioService } from "../AudioService"
+import { FakeClock } from "../FakeClock"
+import type { IAlertConfig, IUtteranceContext } from "../../types/index"
+
+class FakeUtterance {
+  text: string
+  voice: unknown = null
+  rate = 1
+  pitch = 1
+  volume = 1
+  onend: (() => void) | null = null
+  onerror: ((event: { error: string }) => void) | null = null
+
+  constructor(text: string) {
+    this.text = text
+  }
+}
+
+describe("AudioService", () => {
+  let audioService: AudioService
+  let clock: FakeClock
+  let spoken: FakeUtterance[]
+  let cancelSpeech: ReturnType<typeof vi.fn>
+  let voices: Array<{ name: string; lang: string; default: boolean }>
+
+  const config: IAlertConfig = {
+    enabled: true,
+    repeatCount: "infinite",
+    waitBetweenRepeat: 10,
+    utteranceTemplate: "{timer name} has completed",
+  }
+
+  const spokenTexts = () => spoken.map((utterance) => utterance.text)
+  const finishSpeaking = () => spoken[spoken.length - 1].onend?.()
+
+  beforeEach(() => {
+    spoken = []
+    cancelSpeech = vi.fn()
+    voices = [
+      { name: "Anna", lang: "de-DE", default: false },
+      { name: "Google US English", lang: "en-US", default: false },
+      { name: "Amélie", lang: "fr-CA", default: true },
+    ]
+    const listeners: Array<() => void> = []
+
+    ;(global as any).window = {
+      speechSynthesis: {
+        getVoices: () => voices,
+        speak: (utterance: FakeUtterance) => spoken.push(utterance),
+        cancel: cancelSpeech,
+      },
+    }
+    ;(global as any).document = {
+      addEventListener: (_type: string, listener: () => void) => listeners.push(listener),
+      removeEventListener: vi.fn(),
+    }
+    ;(global as any).SpeechSynthesisUtterance = FakeUtterance
+
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+    audioService = new AudioService(clock)
+
+    // Speech is only allowed after the first user interaction
+    listeners.forEach((listener) => listener())
+  })
+
+  it("should announce timers that finish together one after the other", () => {
+    audioService.playAlert(1, "bread", config)
+    audioService.playAlert(2, "rice", config)
+
+    expect(spokenTexts()).toEqual(["bread has completed"])
+
+    finishSpeaking()
+
+    expect(spokenTexts()).toEqual(["bread has completed", "rice has completed"])
+    expect(cancelSpeech).not.toHaveBeenCalled()
+  })
+
+  it("should interleave the repeats of concurrent alerts", () => {
+    audioService.playAlert(1, "bread", config)
+    audioService.playAlert(2, "rice", { ...config, waitBetweenRepeat: 5 })
+    finishSpeaking()
+    finishSpeaking()
+
+    clock.advance(5000)
+    expect(spokenTexts()[2]).toBe("rice has completed")
+    finishSpeaking()
+
+    clock.advance(5000)
+    expect(spokenTexts()).toEqual([
+      "bread has completed",
+      "rice has completed",
+      "rice has completed",
+      "bread has completed",
+    ])
+  })
+
+  it("should stop after the configured number of repeats", () => {
+    audioService.playAlert(1, "bread", { ...config, repeatCount: 2 })
+    finishSpeaking()
+    clock.advance(10_000)
+    finishSpeaking()
+    clock.advance(60_000)
+
+    expect(spokenTexts()).toEqual(["bread has completed", "bread has completed"])
+  })
+
+  it("should only silence the cancelled timer", () => {
+    audioService.playAlert(1, "bread", config)
+    audioService.playAlert(2, "rice", config)
+
+    audioService.cancelAlert(1)
+
+    expect(cancelSpeech).toHaveBeenCalledTimes(1)
+    expect(spokenTexts()).toEqual(["bread has completed", "rice has completed"])
+
+    // The interrupted utterance reports its end late - it must not advance the queue
+    spoken[0].onend?.()
+    finishSpeaking()
+    clock.advance(10_000)
+
+    expect(spokenTexts()).toEqual([
+      "bread has completed",
+      "rice has completed",
+      "rice has completed",
+    ])
+  })
+
+  it("should drop a queued or waiting alert without interrupting the current speech", () => {
+    audioService.playAlert(1, "bread", config)
+    audioService.playAlert(2, "rice", config)
+
+    audioService.cancelAlert(2)
+    finishSpeaking()
+    clock.advance(10_000)
+
+    expect(cancelSpeech).not.toHaveBeenCalled()
+    expect(spokenTexts()).toEqual(["bread has completed", "bread has completed"])
+  })
+
+  it("should replace a timer's previous alert when it alerts again", () => {
+    audioService.playAlert(1, "bread", config)
+    audioService.playAlert(1, "bread", { ...config, utteranceTemplate: "{timer name} again" })
+
+    expect(spokenTexts()).toEqual(["bread has completed", "bread again"])
+  })
+
+  describe("Voices", () => {
+    it("should speak with the named voice and speech settings", () => {
+      audioService.playAlert(1, "Brot", {
+        ...config,
+        voiceName: "Anna",
+        voiceLang: "de-DE",
+        rate: 1.5,
+        pitch: 0.8,
+        volume: 0.5,
+      })
+
+      const [utterance] = spoken
+      expect((utterance.voice as { name: string }).name).toBe("Anna")
+      expect(utterance.rate).toBe(1.5)
+      expect(utterance.pitch).toBe(0.8)
+      expect(utterance.volume).toBe(0.5)
+    })
+
+    it("should fall back to a voice of the same language when the named one is missing", () => {
+      audioService.playAlert(1, "pain", { ...config, voiceName: "Thomas", voiceLang: "fr-FR" })
+
+      expect((spoken[0].voice as { name: string }).name).toBe("Amélie")
+    })
+
+    it("should use the default voice when nothing is configured", () => {
+      audioService.playAlert(1, "bread", config)
+
+      expect((spoken[0].voice as { name: string }).name).toBe("Google US English")
+      expect(spoken[0].rate).toBe(1)
+    })
+
+    it("should clamp speech settings to the supported ranges", () => {
+      audioService.playAlert(1, "bread", { ...config, rate: 50, volume: 3 })
+
+      expect(spoken[0].rate).toBe(10)
+      expect(spoken[0].volume).toBe(1)
+    })
+
+    it("should preview a disabled alert once", () => {
+      audioService.previewAlert(
+        { timerName: "bread", now: clock.now() },
+        { ...config, enabled: false, voiceName: "Anna" },
+      )
+      finishSpeaking()
+      clock.advance(60_000)
+
+      expect(spokenTexts()).toEqual(["bread has completed"])
+      expect(audioService.getVoices()).toContainEqual({ name: "Anna", lang: "de-DE" })
+    })
+  })
+  describe("Message templates", () => {
+    const finishedAt = Date.parse("2025-01-01T12:00:00.000Z")
+
+    beforeEach(() => {
+      audioService.setContextProvider({
+        getContext: (timerId: number): IUtteranceContext | null =>
+          timerId === 1
+            ? {
+                timerName: "bread",
+                now: clock.now(),
+                dashboard: "Kitchen",
+                durationSeconds: 3780,
+                overtimeSeconds: Math.floor((clock.now() - finishedAt) / 1000),
+                nextTimer: "cooling",
+              }
+            : null,
+        getDraftContext: (timerName: string) => ({ timerName, now: clock.now() }),
+      })
+    })
+
+    it("should fill placeholders with speech-friendly values", () => {
+      audioService.playAlert(1, "bread", {
+        ...config,
+        utteranceTemplate: "{timer name} on {dashboard} took {duration}, next up {next timer}",
+      })
+
+      expect(spokenTexts()).toEqual([
+        "bread on Kitchen took one hour three minutes, next up cooling",
+      ])
+    })
+
+    it("should render the message again for every repeat", () => {
+      audioService.playAlert(1, "bread", {
+        ...config,
+        utteranceTemplate: "{timer name} finished {overtime} ago",
+      })
+      finishSpeaking()
+      clock.advance(10_000)
+      finishSpeaking()
+      clock.advance(10_000)
+
+      expect(spokenTexts()).toEqual([
+        "bread finished zero seconds ago",
+        "bread finished ten seconds ago",
+        "bread finished twenty seconds ago",
+      ])
+    })
+
+    it("should only fill the timer name for timers without context", () => {
+      audioService.playAlert(2, "rice", {
+        ...config,
+        utteranceTemplate: "{ Timer Name } is done on {dashboard}",
+      })
+
+      expect(spokenTexts()).toEqual(["rice is done on"])
+    })
+  })
+  describe("Alarm sounds", () => {
+    let peakGains: number[]
+    let stoppedEarly: number
+
+    beforeEach(() => {
+      peakGains = []
+      stoppedEarly = 0
+      const param = () => ({
+        setValueAtTime: vi.fn(),
+        linearRampToValueAtTime: vi.fn(),
+        exponentialRampToValueAtTime: vi.fn(),
+      })
+
+      ;(global as any).window.AudioContext = class {
+        state = "running"
+        currentTime = 0
+        destination = {}
+        createOscillator() {
+          return {
+            type: "sine",
+            frequency: param(),
+            connect: vi.fn(),
+            start: vi.fn(),
+            stop: (when?: number) => {
+              if (when === undefined) stoppedEarly++
+            },
+          }
+        }
+        createGain() {
+          const gain = param()
+          gain.setValueAtTime.mockImplementation((value: number) => peakGains.push(value))
+          return { gain, connect: vi.fn() }
+        }
+      }
+    })
+
+    it("should play the sound instead of speaking when configured", () => {
+      audioService.playAlert(1, "bread", { ...config, alertStyle: "sound", sound: "klaxon" })
+
+      expect(peakGains).toHaveLength(8)
+      clock.advance(2000)
+      expect(spokenTexts()).toEqual([])
+    })
+
+    it("should speak after the sound when both are configured", () => {
+      audioService.playAlert(1, "bread", { ...config, alertStyle: "both", sound: "chime" })
+      expect(spokenTexts()).toEqual([])
+
+      clock.advance(1800)
+      expect(spokenTexts()).toEqual(["bread has completed"])
+    })
+
+    it("should get louder with every repeat", () => {
+      audioService.playAlert(1, "bread", {
+        ...config,
+        alertStyle: "sound",
+        sound: "chime",
+        waitBetweenRepeat: 1,
+      })
+      clock.advance(1800)
+      clock.advance(1000)
+      clock.advance(1800)
+      clock.advance(1000)
+
+      // Three chime notes per announcement
+      expect(peakGains[0]).toBeCloseTo(0.2)
+      expect(peakGains[3]).toBeCloseTo(0.3)
+      expect(peakGains[6]).toBeCloseTo(0.4)
+    })
+
+    it("should stop the sound of a cancelled alert and let the next one play", () => {
+      audioService.playAlert(1, "bread", { ...config, alertStyle: "sound", sound: "klaxon" })
+      audioService.playAlert(2, "rice", config)
+
+      audioService.cancelAlert(1)
+
+      expect(stoppedEarly).toBe(8)
+      expect(spokenTexts()).toEqual(["rice has completed"])
+      expect(cancelSpeech).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest"
+import { FakeClock } from "../FakeClock"
+
+describe("FakeClock", () => {
+  it("should only move time when advanced", () => {
+    const clock = new FakeClock(1000)
+
+    expect(clock.now()).toBe(1000)
+    clock.advance(500)
+    expect(clock.now()).toBe(1500)
+  })
+
+  it("should run due callbacks in order with the clock set to their due time", () => {
+    const clock = new FakeClock(0)
+    const calls: Array<[string, number]> = []
+
+    clock.setTimeout(() => calls.push(["second", clock.now()]), 200)
+    clock.setTimeout(() => calls.push(["first", clock.now()]), 100)
+    clock.setTimeout(() => calls.push(["later", clock.now()]), 1000)
+    clock.advance(500)
+
+    expect(calls).toEqual([
+      ["first", 100],
+      ["second", 200],
+    ])
+    expect(clock.getPendingCount()).toBe(1)
+  })
+
+  it("should run callbacks scheduled by other callbacks within the same advance", () => {
+    const clock = new FakeClock(0)
+    const callback = vi.fn()
+
+    const reschedule = () => {
+      callback()
+      clock.setTimeout(reschedule, 1000)
+    }
+    clock.setTimeout(reschedule, 1000)
+    clock.advance(3000)
+
+    expect(callback).toHaveBeenCalledTimes(3)
+  })
+
+  it("should not run cleared callbacks", () => {
+    const clock = new FakeClock(0)
+    const callback = vi.fn()
+
+    const handle = clock.setTimeout(callback, 100)
+    clock.clearTimeout(handle)
+    clock.advance(1000)
+
+    expect(callback).not.toHaveBeenCalled()
+  })
+
+  it("should jump without running callbacks until the next advance", () => {
+    const clock = new FakeClock(0)
+    const callback = vi.fn()
+
+    clock.setTimeout(callback, 100)
+    clock.jump(10_000)
+    expect(callback).not.toHaveBeenCalled()
+    expect(clock.now()).toBe(10_000)
+
+    clock.advance(0)
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
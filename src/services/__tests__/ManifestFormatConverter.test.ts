@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest"
+import { readdirSync, readFileSync } from "node:fs"
+import { ManifestFormat, ManifestFormatConverter } from "../ManifestFormatConverter"
+import { ManifestMigrator } from "../ManifestMigrator"
+import { ManifestValidator } from "../ManifestValidator"
+import type { IDashboardManifest } from "../ManifestRepository"
+
+const fixturesDir = new URL("../../../data/dashboards/", import.meta.url)
+const fixtures = readdirSync(fixturesDir)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => ({
+    file,
+    manifest: ManifestMigrator.migrate(
+      JSON.parse(readFileSync(new URL(file, fixturesDir), "utf8")),
+    ) as IDashboardManifest,
+  }))
+
+const now = Date.parse("2025-01-01T12:00:00.000Z")
+
+/** Write a manifest in a format and read it back */
+const roundTrip = (manifest: IDashboardManifest, format: ManifestFormat) =>
+  ManifestFormatConverter.parse(
+    ManifestFormatConverter.stringify(manifest, format),
+    format,
+    "dashboards.txt",
+    now,
+  )
+
+/** A manifest using everything the format has, in awkward combinations */
+const everything: IDashboardManifest = {
+  version: "2.0.0",
+  exportedAt: "2025-01-01T11:00:00.000Z",
+  dashboards: [
+    {
+      id: "kitchen",
+      name: "Kitchen",
+      timers: [
+        {
+          id: 1,
+          label: "Pasta",
+          type: "countdown",
+          totalSeconds: 540,
+          nextTimerId: 2,
+          alertConfig: {
+            enabled: true,
+            utteranceTemplate: "{timer name} is done",
+            repeatCount: 3,
+            waitBetweenRepeat: 5,
+            warnings: [{ at: 60, unit: "seconds", utteranceTemplate: "one minute left" }],
+            sound: "chime",
+            alertStyle: "both",
+          },
+        },
+        { id: 2, label: "Sauce: stir; taste", type: "countdown", totalSeconds: 90.5 },
+        { id: 10, label: " spaced ", type: "countdown", nextTimerId: 1 },
+        {
+          id: 11,
+          label: 'Say "when"',
+          type: "countup",
+          laps: [{ elapsedSeconds: 12, recordedAt: "2025-01-01T10:00:00.000Z", note: "a {note}" }],
+        },
+        { id: 12, label: "[Dinner]", type: "deadline", targetAt: "2025-01-01T18:00:00+01:00" },
+      ],
+    },
+    { id: "dashboard-2", name: "Empty ] board", timers: [] },
+    { id: "yes", name: "yes", timers: [{ id: 1, label: "null", type: "countup" }] },
+  ],
+}
+
+describe("ManifestFormatConverter", () => {
+  it("should have fixtures to check against", () => {
+    expect(fixtures.length).toBeGreaterThan(0)
+  })
+
+  describe.each(fixtures)("fixture $file", ({ manifest }) => {
+    it.each(["json", "yaml", "recipe"] as const)("should survive a round trip as %s", (format) => {
+      expect(roundTrip(manifest, format)).toEqual(manifest)
+    })
+  })
+
+  it.each(["json", "yaml", "recipe"] as const)(
+    "should keep every detail of a manifest as %s",
+    (format) => {
+      expect(roundTrip(everything, format)).toEqual(everything)
+    },
+  )
+
+  describe("recipes", () => {
+    it("should read steps joined by ';' as a sequence of countdowns", () => {
+      const manifest = ManifestFormatConverter.parse(
+        "autolyse: 1h; rest after autolyse: 30m\nbulk: count up\n",
+        "recipe",
+        "Sourdough.recipe",
+        now,
+      )
+
+      expect(manifest).toEqual({
+        version: ManifestMigrator.CURRENT_VERSION,
+        exportedAt: "2025-01-01T12:00:00.000Z",
+        dashboards: [
+          {
+            id: "sourdough",
+            name: "Sourdough",
+            timers: [
+              { id: 1, label: "autolyse", type: "countdown", totalSeconds: 3600, nextTimerId: 2 },
+              { id: 2, label: "rest after autolyse", type: "countdown", totalSeconds: 1800 },
+              { id: 3, label: "bulk", type: "countup" },
+            ],
+          },
+        ],
+      })
+      expect(ManifestValidator.validate(manifest)).toEqual([])
+    })
+
+    it("should write a dashboard's shared settings once", () => {
+      const recipe = ManifestFormatConverter.stringify(fixtures[0].manifest, "recipe")
+      const lines = recipe.split("\n")
+
+      expect(lines[0]).toMatch(/^# Multi-Timer recipe 2\.0\.0, exported /)
+      expect(lines.filter((line) => line.includes("alertConfig"))).toEqual(
+        lines.filter((line) => line.startsWith("[")),
+      )
+      expect(lines).toContain(
+        "autolyse: 1h; rest after autolyse: 30m; rest after stretch and fold 1: 15m; " +
+          "rest after stretch and fold 2: 15m; rest after stretch and fold 3: 15m; " +
+          "rest after stretch and fold 4: 15m",
+      )
+    })
+
+    it.each([
+      ["bread 1h", 'Recipe line 1: write each step as "label: duration"'],
+      ["[Baking\nbread: 1h", 'Recipe line 1: close the dashboard name with "]"'],
+      ["bread: 1 hour", 'Recipe line 1: "1 hour" is not a duration like 1h30m'],
+      ["# notes\n\nbread: 1h {id: 1}", "Recipe line 3: "],
+      ["bulk: count up; bread: 1h", 'Recipe step "bulk": only countdowns can start'],
+    ])("should reject %j", (text, message) => {
+      expect(() => ManifestFormatConverter.parse(text, "recipe", "bad.recipe", now)).toThrow(
+        message,
+      )
+    })
+  })
+
+  describe("YAML", () => {
+    it("should read what people write by hand", () => {
+      const yaml = [
+        "# Shared kitchen timers",
+        "---",
+        "version: '2.0.0'",
+        'exportedAt: "2025-01-01T12:00:00Z"',
+        "dashboards:",
+        "- id: kitchen   # inline comment",
+        '  name: "Kitchen #1"',
+        "  timers:",
+        "    - {id: 1, label: Eggs, type: countdown, totalSeconds: 360}",
+        "    -",
+        "      id: 2",
+        "      label: 'Tea'",
+        "      type: countup",
+        "      laps: []",
+      ].join("\n")
+
+      expect(ManifestFormatConverter.parse(yaml, "yaml", "kitchen.yaml", now)).toEqual({
+        version: "2.0.0",
+        exportedAt: "2025-01-01T12:00:00Z",
+        dashboards: [
+          {
+            id: "kitchen",
+            name: "Kitchen #1",
+            timers: [
+              { id: 1, label: "Eggs", type: "countdown", totalSeconds: 360 },
+              { id: 2, label: "Tea", type: "countup", laps: [] },
+            ],
+          },
+        ],
+      })
+    })
+
+    it.each([
+      ["a:\n\tb: 1", "Invalid YAML at line 2: indent with spaces, not tabs"],
+      ["a: 1\n   b: 2", "Invalid YAML at line 2: unexpected indentation"],
+      ["a: 1\na: 2", "Invalid YAML at line 2: duplicate key 'a'"],
+      ["a: &anchor 1", "Invalid YAML at line 1: anchors and aliases are not supported"],
+      ["a: |\n  text", "Invalid YAML at line 1: block scalars are not supported"],
+      ["a: [1, 2", "Invalid YAML at line 1: flow collections must close on the same line"],
+      ["a: 1\n---\nb: 2", "Invalid YAML at line 2: only one document is supported"],
+    ])("should reject %j", (yaml, message) => {
+      expect(() => ManifestFormatConverter.parse(yaml, "yaml", "bad.yaml", now)).toThrow(message)
+    })
+  })
+
+  it.each([
+    ["manifest.JSON", "anything", "json"],
+    ["manifest.yml", "{}", "yaml"],
+    ["bread.recipe", "{}", "recipe"],
+    ["bread.txt", "dashboards:", "recipe"],
+    ["download", '  {"version": "2.0.0"}', "json"],
+    ["download", "version: 2.0.0\ndashboards:\n  - id: a", "yaml"],
+    ["download", "---\nversion: 2.0.0", "yaml"],
+    ["download", "autolyse: 1h; rest: 30m", "recipe"],
+  ])("should detect %s containing %j as %s", (fileName, content, format) => {
+    expect(ManifestFormatConverter.detect(fileName, content)).toBe(format)
+  })
+})
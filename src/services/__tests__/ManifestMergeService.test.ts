@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { ManifestMergeService } from "../ManifestMergeService"
+import { TimerService } from "../TimerService"
+import { DashboardService } from "../DashboardService"
+import { StorageService } from "../StorageService"
+import { FakeClock } from "../FakeClock"
+import type { IDashboardManifest } from "../ManifestRepository"
+import type { IAudioService, ICountdownTimerState } from "../../types/index"
+
+describe("ManifestMergeService", () => {
+  let timerService: TimerService
+  let dashboardService: DashboardService
+  let mergeService: ManifestMergeService
+  let clock: FakeClock
+
+  const manifest = (
+    timers: IDashboardManifest["dashboards"][number]["timers"],
+    name: string = "Baking",
+  ): IDashboardManifest => ({
+    version: "1.0.0",
+    exportedAt: "2025-01-01T12:00:00.000Z",
+    dashboards: [{ id: "baking", name, timers }],
+  })
+
+  const bread = { id: 1, label: "Bread", type: "countdown" as const, totalSeconds: 3600 }
+  const rest = { id: 2, label: "Rest", type: "countdown" as const, totalSeconds: 600 }
+
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+
+    const audioService: IAudioService = {
+      playBeep: vi.fn(),
+      playAlert: vi.fn(),
+      cancelAlert: vi.fn(),
+    }
+    const storageService = new StorageService()
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+    timerService = new TimerService(audioService, storageService, clock)
+    dashboardService = new DashboardService(storageService)
+    mergeService = new ManifestMergeService(timerService, dashboardService, clock)
+  })
+
+  const getDashboard = () => dashboardService.getAllDashboards()[0]
+  const getTimers = () => getDashboard().timerIds.map((id) => timerService.getTimer(id)!)
+
+  it("should create dashboards, timers and sequence links from a new manifest", () => {
+    const summary = mergeService.merge(manifest([{ ...bread, nextTimerId: 2 }, rest]))
+
+    const [first, second] = getTimers() as ICountdownTimerState[]
+    expect(getDashboard().name).toBe("Baking")
+    expect(first.label).toBe("Bread")
+    expect(first.nextTimerId).toBe(second.id)
+    expect(getDashboard().origin).toEqual({
+      sourceId: "default",
+      dashboardId: "baking",
+      timerIds: { "1": first.id, "2": second.id },
+    })
+    expect(summary).toEqual({
+      dashboardsAdded: 1,
+      dashboardsRenamed: 0,
+      dashboardsRemoved: 0,
+      timersAdded: 2,
+      timersUpdated: 0,
+      timersRemoved: 0,
+    })
+  })
+
+  it("should update timers in place so running timers keep running", () => {
+    mergeService.merge(manifest([bread]))
+    const timerId = getDashboard().timerIds[0]
+    timerService.startTimer(timerId)
+    clock.advance(600_000)
+
+    const summary = mergeService.merge(manifest([{ ...bread, label: "Sourdough" }], "Weekend"))
+
+    const timer = timerService.getTimer(timerId) as ICountdownTimerState
+    expect(dashboardService.getAllDashboards()).toHaveLength(1)
+    expect(getDashboard().name).toBe("Weekend")
+    expect(timer.label).toBe("Sourdough")
+    expect(timer.isRunning).toBe(true)
+    expect(timer.remainingSeconds).toBe(3000)
+    expect(ManifestMergeService.describe(summary)).toBe("1 dashboard renamed, 1 timer updated")
+  })
+
+  it("should report nothing to do when loading the same manifest again", () => {
+    mergeService.merge(manifest([{ ...bread, nextTimerId: 2 }, rest]))
+
+    expect(mergeService.plan(manifest([{ ...bread, nextTimerId: 2 }, rest]))).toEqual([])
+  })
+
+  it("should describe timer changes field by field", () => {
+    mergeService.merge(manifest([bread, rest]))
+    const alertConfig = {
+      enabled: true,
+      utteranceTemplate: "timer {timer name} has completed",
+      repeatCount: 1,
+      waitBetweenRepeat: 10,
+    }
+
+    const changes = mergeService.plan(
+      manifest([{ ...bread, totalSeconds: 5400, nextTimerId: 2, alertConfig }, rest]),
+    )
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0].kind === "timer-updated" && changes[0].fields).toEqual([
+      { field: "totalSeconds", from: 3600, to: 5400 },
+      { field: "alertConfig.repeatCount", from: "infinite", to: 1 },
+      { field: "nextTimer", from: undefined, to: "Rest" },
+    ])
+  })
+
+  it("should keep dashboards and timers added locally", () => {
+    mergeService.merge(manifest([bread]))
+    const local = timerService.createCountupTimer("Coffee")
+    dashboardService.addTimerToDashboard(getDashboard().id, local.id)
+    dashboardService.createDashboard("Kitchen")
+
+    mergeService.merge(manifest([]), { removeMissing: true })
+
+    expect(dashboardService.getAllDashboards().map((d) => d.name)).toEqual(["Baking", "Kitchen"])
+    expect(getTimers().map((timer) => timer.label)).toEqual(["Coffee"])
+  })
+
+  it("should only remove what the manifest dropped when asked to", () => {
+    mergeService.merge(manifest([bread, rest]))
+
+    mergeService.merge(manifest([bread]))
+    expect(getTimers()).toHaveLength(2)
+
+    const summary = mergeService.merge(manifest([bread]), { removeMissing: true })
+    expect(getTimers().map((timer) => timer.label)).toEqual(["Bread"])
+    expect(summary.timersRemoved).toBe(1)
+
+    mergeService.merge({ ...manifest([]), dashboards: [] }, { removeMissing: true })
+    expect(dashboardService.getAllDashboards()).toHaveLength(0)
+    expect(timerService.getAllTimers()).toHaveLength(0)
+  })
+
+  it("should keep the dashboards of one source apart from another's", () => {
+    mergeService.merge(manifest([bread]))
+    mergeService.merge(manifest([rest], "Kitchen"), { sourceId: "kitchen" })
+
+    const [personal, kitchen] = dashboardService.getAllDashboards()
+    expect(personal.name).toBe("Baking")
+    expect(kitchen.name).toBe("Kitchen")
+    expect(ManifestMergeService.getSourceId(kitchen)).toBe("kitchen")
+
+    // Dropping everything from the kitchen manifest leaves the personal one alone
+    mergeService.merge(
+      { ...manifest([]), dashboards: [] },
+      { sourceId: "kitchen", removeMissing: true },
+    )
+    expect(dashboardService.getAllDashboards().map((d) => d.name)).toEqual(["Baking"])
+    expect(getTimers().map((timer) => timer.label)).toEqual(["Bread"])
+  })
+
+  it("should match an exported manifest by local ids", () => {
+    const dashboard = dashboardService.createDashboard("Morning")
+    const timer = timerService.createCountdownTimer("Tea", 180)
+    dashboardService.addTimerToDashboard(dashboard.id, timer.id)
+
+    mergeService.merge({
+      version: "1.0.0",
+      exportedAt: "2025-01-01T12:00:00.000Z",
+      dashboards: [
+        {
+          id: dashboard.id,
+          name: "Morning",
+          timers: [{ id: timer.id, label: "Tea", type: "countdown", totalSeconds: 240 }],
+        },
+      ],
+    })
+
+    expect(timerService.getAllTimers()).toHaveLength(1)
+    expect((timerService.getTimer(timer.id) as ICountdownTimerState).totalSeconds).toBe(240)
+  })
+
+  it("should apply only the changes that were picked", () => {
+    mergeService.merge(manifest([bread]))
+    const next = manifest([{ ...bread, totalSeconds: 5400 }, rest], "Weekend")
+
+    const changes = mergeService.plan(next)
+    mergeService.apply(next, changes.filter((change) => change.kind === "timer-added"))
+
+    expect(getDashboard().name).toBe("Baking")
+    expect(getTimers().map((timer) => (timer as ICountdownTimerState).totalSeconds)).toEqual([
+      3600, 600,
+    ])
+    expect(mergeService.plan(next).map((change) => change.kind)).toEqual([
+      "dashboard-renamed",
+      "timer-updated",
+    ])
+  })
+
+  it("should link what was applied before a change failed, so loading again adds no copy", () => {
+    // A countdown the timer service refuses, as in a manifest that skipped validation
+    const broken = manifest([bread, { ...rest, totalSeconds: 0 }])
+    expect(() => mergeService.merge(broken)).toThrow()
+    expect(getDashboard().origin).toMatchObject({ dashboardId: "baking" })
+
+    mergeService.merge(manifest([bread, rest]))
+
+    expect(dashboardService.getAllDashboards()).toHaveLength(1)
+    expect(getTimers().map((timer) => timer.label)).toEqual(["Bread", "Rest"])
+  })
+
+  it("should delete a removed source's dashboards along with their timers", () => {
+    mergeService.merge(manifest([bread]), { sourceId: "kitchen" })
+    mergeService.merge(manifest([rest], "Personal"))
+    const shared = timerService.createCountdownTimer("Shared", 60)
+    dashboardService.getAllDashboards().forEach((dashboard) => {
+      dashboardService.addTimerToDashboard(dashboard.id, shared.id)
+    })
+
+    expect(mergeService.removeSourceDashboards("kitchen")).toBe(1)
+
+    expect(dashboardService.getAllDashboards().map((dashboard) => dashboard.name)).toEqual([
+      "Personal",
+    ])
+    expect(timerService.getAllTimers().map((timer) => timer.label)).toEqual(["Rest", "Shared"])
+  })
+})
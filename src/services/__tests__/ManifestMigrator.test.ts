@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest"
+import { readdirSync, readFileSync } from "node:fs"
+import { ManifestMigrator } from "../ManifestMigrator"
+import { ManifestRepository } from "../ManifestRepository"
+
+const fixturesDir = new URL("../../../data/dashboards/", import.meta.url)
+const fixtures = readdirSync(fixturesDir)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => ({ file, manifest: JSON.parse(readFileSync(new URL(file, fixturesDir), "utf8")) }))
+
+/** The same manifest in the shape DashboardRepository used to write */
+const toGithubShape = (manifest: any) => ({
+  ...manifest,
+  dashboards: manifest.dashboards.map((dashboard: any) => ({
+    ...dashboard,
+    timers: dashboard.timers.map(({ totalSeconds, alertConfig, ...timer }: any) => ({
+      ...timer,
+      ...(totalSeconds !== undefined ? { duration: totalSeconds } : {}),
+      ...(alertConfig
+        ? {
+            alertConfig: {
+              enabled: alertConfig.enabled,
+              message: alertConfig.utteranceTemplate,
+              repeat: alertConfig.repeatCount === "infinite" ? "infinite" : "finite",
+              ...(alertConfig.repeatCount !== "infinite"
+                ? { repeatCount: alertConfig.repeatCount }
+                : {}),
+              waitBetweenRepeat: alertConfig.waitBetweenRepeat,
+            },
+          }
+        : {}),
+    })),
+  })),
+})
+
+describe("ManifestMigrator", () => {
+  it("should have fixtures to check against", () => {
+    expect(fixtures.length).toBeGreaterThan(0)
+  })
+
+  describe.each(fixtures)("fixture $file", ({ manifest }) => {
+    it("should only bump the version of a manifest already in the current shape", () => {
+      expect(ManifestMigrator.migrate(manifest)).toEqual({
+        ...manifest,
+        version: ManifestMigrator.CURRENT_VERSION,
+      })
+    })
+
+    it("should upgrade the DashboardRepository shape to the same manifest", () => {
+      expect(ManifestMigrator.migrate(toGithubShape(manifest))).toEqual(
+        ManifestMigrator.migrate(manifest),
+      )
+    })
+
+    it("should leave a current manifest as it is", () => {
+      const current = ManifestMigrator.migrate(manifest)
+      expect(ManifestMigrator.migrate(current)).toBe(current)
+    })
+  })
+
+  it("should settle on a number of repeats", () => {
+    const timer = (alertConfig: object) => ({
+      id: 1,
+      label: "Bread",
+      type: "countdown",
+      duration: 60,
+      alertConfig: { enabled: true, waitBetweenRepeat: 3, ...alertConfig },
+    })
+    const migrated = ManifestMigrator.migrate({
+      version: "1.0.0",
+      exportedAt: "2025-01-01T12:00:00.000Z",
+      dashboards: [
+        {
+          id: "baking",
+          name: "Baking",
+          timers: [
+            timer({ message: "done", repeat: "finite", repeatCount: 3 }),
+            timer({ message: "done", repeat: "finite" }),
+            timer({ utteranceTemplate: "done", repeatCount: "once" }),
+            timer({ utteranceTemplate: "done", repeatCount: "finite" }),
+          ],
+        },
+      ],
+    }) as any
+
+    expect(migrated.dashboards[0].timers.map((t: any) => t.alertConfig.repeatCount)).toEqual([
+      3, 1, 1, 1,
+    ])
+    expect(migrated.dashboards[0].timers[0]).toEqual({
+      id: 1,
+      label: "Bread",
+      type: "countdown",
+      totalSeconds: 60,
+      alertConfig: {
+        enabled: true,
+        waitBetweenRepeat: 3,
+        utteranceTemplate: "done",
+        repeatCount: 3,
+      },
+    })
+  })
+
+  it("should refuse manifests from a newer version of the app", () => {
+    expect(() =>
+      ManifestMigrator.migrate({ version: "3.0.0", exportedAt: "", dashboards: [] }),
+    ).toThrow("Manifest version 3.0.0 is newer than this app supports (2.0.0)")
+    expect(() => ManifestMigrator.migrate({ version: "latest", dashboards: [] })).toThrow(
+      "unknown version 'latest'",
+    )
+  })
+
+  it("should upgrade a manifest cached before the upgrade", () => {
+    const store: Record<string, string> = {
+      particularparrot_manifest_cache: JSON.stringify(toGithubShape(fixtures[0].manifest)),
+    }
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+
+    expect(new ManifestRepository().getCachedManifest()).toEqual(
+      ManifestMigrator.migrate(fixtures[0].manifest),
+    )
+  })
+})
@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { ManifestRepository } from "../ManifestRepository"
+import { ManifestValidationError } from "../ManifestValidator"
+
+interface IRecordedRequest {
+  method: string
+  url: string
+  headers: IncomingMessage["headers"]
+  body: string
+}
+
+/**
+ * Stand-in for a manifest host: keeps one document per path, answering GETs
+ * with it (wrapped in a JSONBin-style record under /b/) and storing PUT/POST bodies
+ * Each stored version gets an ETag and a Last-Modified date, and conditional
+ * requests are honoured
+ */
+class ManifestServer {
+  readonly requests: IRecordedRequest[] = []
+  readonly documents = new Map<string, unknown>()
+  readonly versions = new Map<string, number>()
+  status: number = 200
+  validators: "etag" | "last-modified" | "none" = "etag"
+  /** Whether responses to PUT/POST carry validators, as GET responses do */
+  writeValidators: boolean = true
+  private server: Server
+
+  constructor() {
+    this.server = createServer((request, response) => this.handle(request, response))
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve))
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  /** Store a new version, as if another device pushed it */
+  store(path: string, document: unknown): void {
+    this.documents.set(path, document)
+    this.versions.set(path, (this.versions.get(path) ?? 0) + 1)
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    let body = ""
+    request.on("data", (chunk) => (body += chunk))
+    request.on("end", () => {
+      const url = request.url ?? "/"
+      this.requests.push({ method: request.method ?? "GET", url, headers: request.headers, body })
+
+      if (this.status !== 200) {
+        response.writeHead(this.status, "Unauthorized").end()
+        return
+      }
+
+      const isBin = url.startsWith("/b/")
+      const path = isBin ? url.replace(/\/latest$/, "") : url
+      const version = this.versions.get(path) ?? 0
+      const etag = `"v${version}"`
+      const lastModified = new Date(Date.UTC(2025, 0, 1, 12, version)).toUTCString()
+      const headers: Record<string, string> = { "Content-Type": "application/json" }
+      if (this.validators === "etag") headers.ETag = etag
+      if (this.validators === "last-modified") headers["Last-Modified"] = lastModified
+
+      if (request.method === "GET") {
+        const document = this.documents.get(path)
+        if (
+          request.headers["if-none-match"] === etag ||
+          request.headers["if-modified-since"] === lastModified
+        ) {
+          response.writeHead(304, headers).end()
+          return
+        }
+        response.writeHead(document ? 200 : 404, headers)
+        response.end(JSON.stringify(isBin ? { record: document, metadata: {} } : document))
+        return
+      }
+
+      const { "if-match": ifMatch, "if-unmodified-since": ifUnmodifiedSince } = request.headers
+      const isStale =
+        (ifMatch && ifMatch !== etag) || (ifUnmodifiedSince && ifUnmodifiedSince !== lastModified)
+      if (isStale) {
+        response.writeHead(412, "Precondition Failed").end()
+        return
+      }
+
+      this.store(path, JSON.parse(body))
+      const written = {
+        ...headers,
+        ...(headers.ETag ? { ETag: `"v${version + 1}"` } : {}),
+        ...(headers["Last-Modified"]
+          ? { "Last-Modified": new Date(Date.UTC(2025, 0, 1, 12, version + 1)).toUTCString() }
+          : {}),
+      }
+      response.writeHead(
+        200,
+        this.writeValidators ? written : { "Content-Type": "application/json" },
+      )
+      response.end(body)
+    })
+  }
+}
+
+describe("ManifestRepository", () => {
+  let server: ManifestServer
+  let baseUrl: string
+  let repository: ManifestRepository
+
+  const content = JSON.stringify({
+    version: "2.0.0",
+    exportedAt: "2025-01-01T12:00:00.000Z",
+    dashboards: [
+      {
+        id: "baking",
+        name: "Baking",
+        timers: [{ id: 1, label: "Bread", type: "countdown", totalSeconds: 3600 }],
+      },
+    ],
+  })
+
+  beforeEach(async () => {
+    const store: Record<string, string> = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+
+    server = new ManifestServer()
+    baseUrl = await server.start()
+    repository = new ManifestRepository()
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it("should push with PUT and read the manifest back", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+
+    await repository.pushToRemote(content)
+    const manifest = await repository.fetchFromRemote()
+
+    expect(server.requests.map((request) => request.method)).toEqual(["PUT", "GET"])
+    expect(server.requests[0].headers["content-type"]).toBe("application/json")
+    expect(manifest.dashboards[0].timers[0].label).toBe("Bread")
+  })
+
+  it("should push with POST when configured", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifests`, { pushMethod: "POST" })
+
+    await repository.pushToRemote(content)
+
+    expect(server.requests[0].method).toBe("POST")
+    expect(server.documents.get("/manifests")).toEqual(JSON.parse(content))
+  })
+
+  it("should push JSONBin-style endpoints to the bin and unwrap the record", async () => {
+    repository.saveManifestUrl(`${baseUrl}/b/123/latest`, {
+      endpointStyle: "jsonbin",
+      authHeaderName: "X-Master-Key",
+      authHeaderValue: "secret",
+    })
+
+    await repository.pushToRemote(content)
+    const manifest = await repository.fetchFromRemote()
+
+    expect(server.requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      "PUT /b/123",
+      "GET /b/123/latest",
+    ])
+    expect(server.requests.every((request) => request.headers["x-master-key"] === "secret")).toBe(
+      true,
+    )
+    expect(manifest.dashboards[0].name).toBe("Baking")
+  })
+
+  it("should report a rejected push", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.status = 401
+
+    await expect(repository.pushToRemote(content)).rejects.toThrow(
+      "Failed to push to remote: 401 Unauthorized",
+    )
+  })
+
+  it("should refuse to push an invalid manifest", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+
+    await expect(repository.pushToRemote(JSON.stringify({ version: "1.0.0" }))).rejects.toThrow(
+      "Invalid manifest",
+    )
+    expect(server.requests).toHaveLength(0)
+  })
+
+  it("should send the ETag and treat 304 as unchanged", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+
+    const first = await repository.fetchLatest()
+    const second = await repository.fetchLatest()
+
+    expect(first.unchanged).toBe(false)
+    expect(server.requests[1].headers["if-none-match"]).toBe('"v1"')
+    expect(second).toEqual({ manifest: first.manifest, unchanged: true, fromCache: false })
+  })
+
+  it("should fall back to Last-Modified dates", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.validators = "last-modified"
+    server.store("/manifest.json", JSON.parse(content))
+
+    await repository.fetchLatest()
+    const second = await repository.fetchLatest()
+
+    expect(server.requests[1].headers["if-modified-since"]).toBe("Wed, 01 Jan 2025 12:01:00 GMT")
+    expect(second.unchanged).toBe(true)
+  })
+
+  it("should detect a push that would overwrite another device's edit", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    // Pushing over the version that was loaded is fine, and becomes the new base
+    await repository.pushToRemote(content)
+    expect(server.requests[1].headers["if-match"]).toBe('"v1"')
+    await repository.pushToRemote(content)
+
+    server.store("/manifest.json", { ...JSON.parse(content), dashboards: [] })
+
+    await expect(repository.pushToRemote(content)).rejects.toThrow("changed on another device")
+    expect(server.documents.get("/manifest.json")).toMatchObject({ dashboards: [] })
+  })
+
+  it("should download again after the manifest changed", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    server.store("/manifest.json", { ...JSON.parse(content), dashboards: [] })
+    const result = await repository.fetchLatest()
+
+    expect(result.unchanged).toBe(false)
+    expect(result.manifest.dashboards).toEqual([])
+  })
+
+  it("should report an invalid manifest rather than fall back to the cached one", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    server.store("/manifest.json", { ...JSON.parse(content), dashboards: [{ id: 1 }] })
+    const error = await repository.fetchLatest().catch((e) => e)
+
+    expect(error).toBeInstanceOf(ManifestValidationError)
+    expect(error.issues.map((issue: { pointer: string }) => issue.pointer)).toEqual([
+      "/dashboards/0/id",
+      "/dashboards/0/name",
+      "/dashboards/0/timers",
+    ])
+  })
+
+  it("should fall back to the cached manifest only when the server fails", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+    const first = await repository.fetchLatest()
+
+    server.status = 401
+    const result = await repository.fetchLatest()
+
+    expect(result).toEqual({ manifest: first.manifest, unchanged: false, fromCache: true })
+  })
+
+  it("should download again when the cached manifest cannot be read", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.store("/manifest.json", JSON.parse(content))
+    localStorage.setItem("particularparrot_manifest_cache", "{not json")
+
+    const result = await repository.fetchLatest()
+
+    expect(result.fromCache).toBe(false)
+    expect(server.requests[0].headers["if-none-match"]).toBeUndefined()
+    expect(result.manifest.dashboards[0].name).toBe("Baking")
+  })
+
+  it("should require a load after a push answered without validators", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.writeValidators = false
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    await repository.pushToRemote(content)
+    expect(repository.getValidators(`${baseUrl}/manifest.json`)).toEqual({ reloadRequired: true })
+    await expect(repository.pushToRemote(content)).rejects.toThrow("Load the manifest")
+
+    await repository.fetchLatest()
+    await repository.pushToRemote(content)
+    const pushes = server.requests.filter((request) => request.method === "PUT")
+    expect(pushes.map((request) => request.headers["if-match"])).toEqual(['"v1"', '"v2"'])
+  })
+
+  it("should not overwrite an edit made on another device right after a push", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.writeValidators = false
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    await repository.pushToRemote(content)
+    server.store("/manifest.json", { ...JSON.parse(content), dashboards: [] })
+
+    await expect(repository.pushToRemote(content)).rejects.toThrow("Load the manifest")
+    expect(server.documents.get("/manifest.json")).toMatchObject({ dashboards: [] })
+    expect(server.requests.filter((request) => request.method === "PUT")).toHaveLength(1)
+  })
+
+  it("should push without checks to servers that never send validators", async () => {
+    repository.saveManifestUrl(`${baseUrl}/manifest.json`)
+    server.validators = "none"
+    server.store("/manifest.json", JSON.parse(content))
+    await repository.fetchLatest()
+
+    await repository.pushToRemote(content)
+    await repository.pushToRemote(content)
+
+    expect(server.requests.filter((request) => request.method === "PUT")).toHaveLength(2)
+  })
+})
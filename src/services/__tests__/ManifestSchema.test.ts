@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest"
+import { readdirSync, readFileSync } from "node:fs"
+import { ManifestSchema } from "../../../scripts/ManifestSchema"
+import { ManifestValidator } from "../ManifestValidator"
+import { ManifestMigrator } from "../ManifestMigrator"
+
+const fixturesDir = new URL("../../../data/dashboards/", import.meta.url)
+
+/**
+ * Just enough of JSON Schema to check manifests against the generated schema
+ */
+const matches = (schema: any, value: any, root: any): boolean => {
+  if (schema.$ref) return matches(root.$defs[schema.$ref.replace("#/$defs/", "")], value, root)
+  if (schema.anyOf) return schema.anyOf.some((member: any) => matches(member, value, root))
+  if ("const" in schema) return value === schema.const
+  if (schema.enum) return schema.enum.includes(value)
+
+  switch (schema.type) {
+    case "string":
+      return (
+        typeof value === "string" &&
+        (schema.pattern === undefined || new RegExp(schema.pattern).test(value)) &&
+        (schema.format !== "date-time" ||
+          /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value))
+      )
+    case "number":
+      return (
+        typeof value === "number" &&
+        (schema.minimum === undefined || value >= schema.minimum) &&
+        (schema.maximum === undefined || value <= schema.maximum)
+      )
+    case "boolean":
+      return typeof value === "boolean"
+    case "array":
+      return Array.isArray(value) && value.every((item) => matches(schema.items, item, root))
+    case "object":
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        (schema.required ?? []).every((key: string) => value[key] !== undefined) &&
+        Object.entries(schema.properties ?? {}).every(
+          ([key, property]) => value[key] === undefined || matches(property, value[key], root),
+        )
+      )
+  }
+  throw new Error(`Unsupported schema ${JSON.stringify(schema)}`)
+}
+
+describe("Manifest JSON Schema", () => {
+  const schema = ManifestSchema.generate()
+
+  const alertConfig = {
+    enabled: true,
+    utteranceTemplate: "timer {timer name} has completed",
+    repeatCount: "infinite",
+    waitBetweenRepeat: 3,
+    warnings: [{ at: 60, unit: "seconds", utteranceTemplate: "one minute left" }],
+    alertStyle: "both",
+    sound: "chime",
+    rate: 1,
+  }
+  const manifest = () =>
+    structuredClone({
+      $schema: "manifest.schema.json",
+      version: "2.0.0",
+      exportedAt: "2025-01-01T12:00:00.000Z",
+      dashboards: [
+        {
+          id: "baking",
+          name: "Baking",
+          timers: [
+            { id: 1, label: "Bread", type: "countdown", totalSeconds: 60, nextTimerId: 2, alertConfig },
+            {
+              id: 2,
+              label: "Proof",
+              type: "countup",
+              laps: [{ elapsedSeconds: 30, recordedAt: "2025-01-01T12:00:30.000Z", note: "risen" }],
+            },
+            {
+              id: 3,
+              label: "Oven",
+              type: "deadline",
+              targetAt: "2025-01-01T18:00:00+01:00",
+              alertConfig,
+            },
+          ],
+        },
+      ],
+    })
+
+  /** The manifest with the value at a path replaced, or removed when undefined */
+  const change = (path: Array<string | number>, value: unknown) => {
+    const changed: any = manifest()
+    const parent = path.slice(0, -1).reduce((node, key) => node[key], changed)
+    const key = path[path.length - 1]
+    if (value === undefined) delete parent[key]
+    else parent[key] = value
+    return changed
+  }
+  const timer = (index: number, ...path: Array<string | number>) => [
+    "dashboards",
+    0,
+    "timers",
+    index,
+    ...path,
+  ]
+
+  it("should be published as generated from the manifest types", () => {
+    // Run `pnpm schema` to update the schema after changing the types
+    expect(readFileSync(ManifestSchema.OUTPUT_PATH, "utf8")).toBe(ManifestSchema.stringify(schema))
+  })
+
+  it.each(readdirSync(fixturesDir).filter((file) => file.endsWith(".json")))(
+    "should accept fixture %s",
+    (file) => {
+      const fixture = JSON.parse(readFileSync(new URL(file, fixturesDir), "utf8"))
+      expect(matches(schema, ManifestMigrator.migrate(fixture), schema)).toBe(true)
+    },
+  )
+
+  it.each([
+    ["a complete manifest", manifest(), true],
+    ["a numeric version", change(["version"], 2), false],
+    ["a numeric $schema", change(["$schema"], 1), false],
+    ["a dashboard that is an array", change(["dashboards", 0], []), false],
+    ["timers that are an object", change(["dashboards", 0, "timers"], {}), false],
+    ["a timer without a label", change(timer(0, "label"), undefined), false],
+    ["an unknown timer type", change(timer(0, "type"), "stopwatch"), false],
+    ["a negative duration", change(timer(0, "totalSeconds"), -1), false],
+    ["a zero duration", change(timer(0, "totalSeconds"), 0), true],
+    ["a duration given as text", change(timer(0, "totalSeconds"), "60"), false],
+    ["a successor id given as text", change(timer(0, "nextTimerId"), "2"), false],
+    ["no repeats", change(timer(0, "alertConfig", "repeatCount"), 0), false],
+    ["a number of repeats", change(timer(0, "alertConfig", "repeatCount"), 3), true],
+    ["repeating once by name", change(timer(0, "alertConfig", "repeatCount"), "once"), false],
+    ["an alert without enabled", change(timer(0, "alertConfig", "enabled"), undefined), false],
+    ["an unknown sound", change(timer(0, "alertConfig", "sound"), "bell"), false],
+    ["an unknown alert style", change(timer(0, "alertConfig", "alertStyle"), "loud"), false],
+    ["a warning in minutes", change(timer(0, "alertConfig", "warnings", 0, "unit"), "min"), false],
+    ["a lap time given as a number", change(timer(1, "laps", 0, "recordedAt"), 5), false],
+    ["a countup with an alert", change(timer(1, "alertConfig"), "anything"), true],
+    ["a deadline without a target", change(timer(2, "targetAt"), undefined), false],
+    ["a deadline in words", change(timer(2, "targetAt"), "tomorrow"), false],
+    ["a deadline without a time", change(timer(2, "targetAt"), "2025-01-01"), false],
+    ["a timer with an unknown field", change(timer(2, "colour"), "red"), true],
+  ])("should agree with the validator on %s", (_, value, valid) => {
+    expect(matches(schema, value, schema)).toBe(valid)
+    expect(ManifestValidator.hasErrors(ManifestValidator.validate(value))).toBe(!valid)
+  })
+})
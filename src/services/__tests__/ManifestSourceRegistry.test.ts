@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { ManifestSourceRegistry } from "../ManifestSourceRegistry"
+import { ManifestRepository } from "../ManifestRepository"
+import { FakeClock } from "../FakeClock"
+
+describe("ManifestSourceRegistry", () => {
+  let store: Record<string, string>
+  let clock: FakeClock
+
+  beforeEach(() => {
+    store = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+  })
+
+  it("should keep the URL and cache of every source apart", () => {
+    const registry = new ManifestSourceRegistry(clock)
+    const personal = registry.addSource("Personal", "https://example.com/personal.json")
+    const kitchen = registry.addSource("Kitchen", "https://example.com/kitchen.json")
+
+    expect(personal.id).toBe(ManifestSourceRegistry.DEFAULT_SOURCE_ID)
+    expect(kitchen.id).not.toBe(personal.id)
+    expect(registry.getRepository(kitchen.id).getRemoteConfig()?.rawUrl).toBe(
+      "https://example.com/kitchen.json",
+    )
+
+    const reloaded = new ManifestSourceRegistry(clock)
+    expect(reloaded.getSources().map((source) => source.name)).toEqual(["Personal", "Kitchen"])
+    expect(reloaded.getRepository(personal.id).getRemoteConfig()?.rawUrl).toBe(
+      "https://example.com/personal.json",
+    )
+  })
+
+  it("should turn a URL saved before sources existed into the first source", () => {
+    new ManifestRepository(clock).saveManifestUrl("https://example.com/manifest.json")
+
+    const registry = new ManifestSourceRegistry(clock)
+
+    expect(registry.getSources()).toEqual([
+      { id: ManifestSourceRegistry.DEFAULT_SOURCE_ID, name: "Personal", enabled: true },
+    ])
+  })
+
+  it("should reject duplicate names and invalid URLs", () => {
+    const registry = new ManifestSourceRegistry(clock)
+    registry.addSource("Kitchen", "https://example.com/kitchen.json")
+
+    expect(() => registry.addSource("kitchen", "https://example.com/other.json")).toThrow(
+      'A manifest source named "kitchen" already exists',
+    )
+    expect(() => registry.addSource("Personal", "not a url")).toThrow()
+    expect(registry.getSources()).toHaveLength(1)
+  })
+
+  it("should disable, rename and remove sources", () => {
+    const registry = new ManifestSourceRegistry(clock)
+    const source = registry.addSource("Kitchen", "https://example.com/kitchen.json")
+
+    registry.updateSource(source.id, { name: "Shared Kitchen", enabled: false })
+    expect(registry.getSource(source.id)).toMatchObject({ name: "Shared Kitchen", enabled: false })
+
+    registry.removeSource(source.id)
+    expect(registry.getSources()).toEqual([])
+    expect(registry.getRepository(source.id).isConfigured()).toBe(false)
+  })
+})
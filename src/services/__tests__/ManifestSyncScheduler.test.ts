@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { ManifestSyncScheduler } from "../ManifestSyncScheduler"
+import { ManifestMergeService } from "../ManifestMergeService"
+import { ManifestRepository, IDashboardManifest } from "../ManifestRepository"
+import { TimerService } from "../TimerService"
+import { DashboardService } from "../DashboardService"
+import { StorageService } from "../StorageService"
+import { FakeClock } from "../FakeClock"
+import type { IAudioService } from "../../types/index"
+
+describe("ManifestSyncScheduler", () => {
+  let timerService: TimerService
+  let dashboardService: DashboardService
+  let scheduler: ManifestSyncScheduler
+  let clock: FakeClock
+  let remote: IDashboardManifest | null
+  let fetchMock: ReturnType<typeof vi.fn>
+  let isPageHidden: boolean
+  let isOnline: boolean
+
+  const manifest = (
+    timers: IDashboardManifest["dashboards"][number]["timers"],
+  ): IDashboardManifest => ({
+    version: "1.0.0",
+    exportedAt: "2025-01-01T12:00:00.000Z",
+    dashboards: [{ id: "baking", name: "Baking", timers }],
+  })
+
+  const bread = { id: 1, label: "Bread", type: "countdown" as const, totalSeconds: 3600 }
+  const rest = { id: 2, label: "Rest", type: "countdown" as const, totalSeconds: 600 }
+
+  const getLabels = () =>
+    dashboardService
+      .getAllDashboards()[0]
+      .timerIds.map((id) => timerService.getTimer(id)?.label)
+
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    })
+    isPageHidden = false
+    isOnline = true
+    vi.stubGlobal("window", { addEventListener: vi.fn(), removeEventListener: vi.fn() })
+    vi.stubGlobal("document", {
+      get hidden() {
+        return isPageHidden
+      },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    })
+    vi.stubGlobal("navigator", {
+      get onLine() {
+        return isOnline
+      },
+    })
+
+    remote = manifest([bread])
+    fetchMock = vi.fn(async () =>
+      remote
+        ? new Response(JSON.stringify(remote), { status: 200 })
+        : new Response("", { status: 503, statusText: "Service Unavailable" }),
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const audioService: IAudioService = {
+      playBeep: vi.fn(),
+      playAlert: vi.fn(),
+      cancelAlert: vi.fn(),
+    }
+    const storageService = new StorageService()
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+    timerService = new TimerService(audioService, storageService, clock)
+    dashboardService = new DashboardService(storageService)
+
+    const repository = new ManifestRepository(clock)
+    repository.saveManifestUrl("https://example.com/manifest.json")
+    scheduler = new ManifestSyncScheduler(
+      "default",
+      repository,
+      new ManifestMergeService(timerService, dashboardService, clock),
+      clock,
+      60_000,
+    )
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+    vi.unstubAllGlobals()
+  })
+
+  it("should apply additions from the manifest and report synced", async () => {
+    await scheduler.syncNow()
+
+    expect(getLabels()).toEqual(["Bread"])
+    expect(scheduler.getStatus()).toMatchObject({
+      state: "synced",
+      lastSyncedAt: clock.now(),
+      nextSyncAt: clock.now() + 60_000,
+    })
+  })
+
+  it("should keep edits made on this device unless the manifest changed them too", async () => {
+    await scheduler.syncNow()
+    const breadId = dashboardService.getAllDashboards()[0].timerIds[0]
+    timerService.updateTimer(breadId, { label: "Sourdough" })
+
+    remote = manifest([bread, rest])
+    await scheduler.syncNow()
+    expect(getLabels()).toEqual(["Sourdough", "Rest"])
+
+    remote = manifest([{ ...bread, label: "Rye" }, rest])
+    await scheduler.syncNow()
+    expect(getLabels()).toEqual(["Rye", "Rest"])
+  })
+
+  it("should leave removals for review and report stale", async () => {
+    remote = manifest([bread, rest])
+    await scheduler.syncNow()
+
+    remote = manifest([bread])
+    await scheduler.syncNow()
+
+    expect(getLabels()).toEqual(["Bread", "Rest"])
+    expect(scheduler.getStatus()).toMatchObject({ state: "stale", pendingChanges: 1 })
+  })
+
+  it("should back off after failures", async () => {
+    remote = null
+
+    await scheduler.syncNow()
+    expect(scheduler.getStatus()).toMatchObject({
+      state: "error",
+      message: "Failed to fetch from remote: 503 Service Unavailable",
+      nextSyncAt: clock.now() + 120_000,
+    })
+
+    await scheduler.syncNow()
+    expect(scheduler.getStatus().nextSyncAt).toBe(clock.now() + 240_000)
+  })
+
+  it("should use the cached manifest when the server cannot be reached", async () => {
+    await scheduler.syncNow()
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"))
+
+    await scheduler.syncNow()
+
+    expect(scheduler.getStatus()).toMatchObject({ state: "offline", lastSyncedAt: clock.now() })
+    expect(getLabels()).toEqual(["Bread"])
+  })
+
+  it("should not poll while hidden or offline", async () => {
+    await scheduler.syncNow()
+    fetchMock.mockClear()
+
+    isPageHidden = true
+    clock.advance(60_000)
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    isPageHidden = false
+    isOnline = false
+    scheduler.start()
+    clock.advance(0)
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(scheduler.getStatus().state).toBe("offline")
+  })
+})
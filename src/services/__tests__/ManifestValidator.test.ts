@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest"
+import { readFileSync } from "node:fs"
+import { ManifestValidationError, ManifestValidator } from "../ManifestValidator"
+import { ManifestMigrator } from "../ManifestMigrator"
+
+describe("ManifestValidator", () => {
+  const manifest = (timers: unknown[], dashboards: unknown[] = []) => ({
+    version: "2.0.0",
+    exportedAt: "2025-01-01T12:00:00.000Z",
+    dashboards: [{ id: "baking", name: "Baking", timers }, ...dashboards],
+  })
+  const alertConfig = {
+    enabled: true,
+    utteranceTemplate: "timer {timer name} has completed",
+    repeatCount: "infinite",
+    waitBetweenRepeat: 3,
+  }
+  const bread = { id: 1, label: "Bread", type: "countdown", totalSeconds: 3600, alertConfig }
+
+  it("should find nothing wrong with the fixture", () => {
+    const fixture = JSON.parse(
+      readFileSync(new URL("../../../data/dashboards/baking.json", import.meta.url), "utf8"),
+    )
+
+    expect(ManifestValidator.validate(ManifestMigrator.migrate(fixture))).toEqual([])
+  })
+
+  it("should report every error with a JSON pointer", () => {
+    const issues = ManifestValidator.validate(
+      manifest(
+        [
+          { ...bread, alertConfig: { ...alertConfig, repeatCount: 0, rate: "fast" } },
+          { id: 2, type: "stopwatch" },
+          { id: 3, label: "Lunch", type: "deadline", targetAt: "noon" },
+        ],
+        [null],
+      ),
+    )
+
+    expect(issues).toEqual([
+      {
+        pointer: "/dashboards/0/timers/0/alertConfig/repeatCount",
+        severity: "error",
+        message: "must be 'infinite' or a number of at least 1",
+      },
+      {
+        pointer: "/dashboards/0/timers/0/alertConfig/rate",
+        severity: "error",
+        message: "must be a number",
+      },
+      { pointer: "/dashboards/0/timers/1/label", severity: "error", message: "must be a string" },
+      {
+        pointer: "/dashboards/0/timers/1/type",
+        severity: "error",
+        message: "must be 'countdown', 'countup' or 'deadline'",
+      },
+      {
+        pointer: "/dashboards/0/timers/2/targetAt",
+        severity: "error",
+        message: "must be an ISO 8601 date and time",
+      },
+      { pointer: "/dashboards/1", severity: "error", message: "must be an object" },
+    ])
+  })
+
+  it("should warn about likely mistakes without failing", () => {
+    const issues = ManifestValidator.validate(
+      manifest(
+        [
+          { ...bread, nextTimerId: 9 },
+          { ...bread, totalSeconds: 0 },
+          {
+            id: 3,
+            label: "Lunch",
+            type: "deadline",
+            targetAt: "2025-01-01T11:00:00.000Z",
+            alertConfig,
+          },
+        ],
+        [{ id: "baking", name: "Baking again", timers: [] }],
+      ),
+      Date.parse("2025-01-01T12:00:00.000Z"),
+    )
+
+    expect(ManifestValidator.hasErrors(issues)).toBe(false)
+    expect(issues.map((issue) => issue.pointer)).toEqual([
+      "/dashboards/0/timers/1/totalSeconds",
+      "/dashboards/0/timers/1/id",
+      "/dashboards/0/timers/2/targetAt",
+      "/dashboards/0/timers/0/nextTimerId",
+      "/dashboards/1/id",
+    ])
+  })
+
+  it("should only refuse countdowns with a negative duration", () => {
+    const issues = ManifestValidator.validate(
+      manifest([
+        { ...bread, totalSeconds: -1 },
+        { ...bread, id: 2, totalSeconds: 0 },
+        { ...bread, id: 3, totalSeconds: undefined },
+      ]),
+    )
+
+    expect(issues).toEqual([
+      {
+        pointer: "/dashboards/0/timers/0/totalSeconds",
+        severity: "error",
+        message: "must not be negative",
+      },
+      {
+        pointer: "/dashboards/0/timers/1/totalSeconds",
+        severity: "warning",
+        message: "is zero - the timer would finish straight away",
+      },
+    ])
+  })
+
+  it("should sum up all errors in the thrown error", () => {
+    const issues = ManifestValidator.validate({ version: 2, dashboards: "none" })
+    const error = new ManifestValidationError(issues)
+
+    expect(error.issues).toHaveLength(3)
+    expect(error.message).toBe("Invalid manifest: /version must be a string (and 2 more problems)")
+  })
+
+  it("should escape keys in JSON pointers", () => {
+    expect(ManifestValidator.toPointer(["a/b", "c~d", 0])).toBe("/a~1b/c~0d/0")
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { NotificationService } from "../NotificationService"
+import { TimerService } from "../TimerService"
+import { AudioService } from "../AudioService"
+import { StorageService } from "../StorageService"
+import { FakeClock } from "../FakeClock"
+import type { IAlertConfig, IUtteranceContext } from "../../types/index"
+
+class FakeNotification {
+  static permission: NotificationPermission = "granted"
+  static shown: FakeNotification[] = []
+
+  title: string
+  options: NotificationOptions
+  closed = false
+  onclick: (() => void) | null = null
+
+  constructor(title: string, options: NotificationOptions) {
+    this.title = title
+    this.options = options
+    FakeNotification.shown.push(this)
+  }
+
+  close(): void {
+    this.closed = true
+  }
+}
+
+describe("NotificationService", () => {
+  let timerService: TimerService
+  let clock: FakeClock
+  let isPageHidden: boolean
+
+  const config: IAlertConfig = {
+    enabled: true,
+    repeatCount: 1,
+    waitBetweenRepeat: 0,
+    utteranceTemplate: "{timer name} is done",
+  }
+
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+
+    FakeNotification.permission = "granted"
+    FakeNotification.shown = []
+    isPageHidden = true
+    ;(global as any).window = {
+      Notification: FakeNotification,
+      speechSynthesis: { getVoices: () => [], speak: vi.fn(), cancel: vi.fn() },
+      focus: vi.fn(),
+    }
+    ;(global as any).Notification = FakeNotification
+    ;(global as any).document = {
+      get hidden() {
+        return isPageHidden
+      },
+      hasFocus: () => !isPageHidden,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    }
+
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+    const audioService = new AudioService(clock)
+    vi.spyOn(audioService, "playAlert").mockImplementation(() => {})
+    vi.spyOn(audioService, "cancelAlert").mockImplementation(() => {})
+    timerService = new TimerService(audioService, new StorageService(), clock)
+
+    const notificationService = new NotificationService(timerService, {
+      getContext: (timerId: number): IUtteranceContext | null => {
+        const timer = timerService.getTimer(timerId)
+        return timer ? { timerName: timer.label, now: clock.now() } : null
+      },
+      getDraftContext: (timerName: string) => ({ timerName, now: clock.now() }),
+    })
+    timerService.subscribe(notificationService)
+  })
+
+  it("should notify once when a timer finishes in the background", () => {
+    const timer = timerService.createCountdownTimer("bread", 60, config)
+    timerService.startTimer(timer.id)
+
+    clock.advance(60_000)
+    clock.advance(5_000)
+
+    expect(FakeNotification.shown).toHaveLength(1)
+    expect(FakeNotification.shown[0].title).toBe("⏰ bread")
+    expect(FakeNotification.shown[0].options.body).toBe("bread is done")
+    expect(FakeNotification.shown[0].options.tag).toBe(`timer-${timer.id}`)
+  })
+
+  it("should close the notification when the timer is acknowledged", () => {
+    const timer = timerService.createCountdownTimer("bread", 60, config)
+    timerService.startTimer(timer.id)
+    clock.advance(60_000)
+
+    timerService.acknowledgeTimer(timer.id)
+
+    expect(FakeNotification.shown[0].closed).toBe(true)
+  })
+
+  it("should not notify while the page is in front", () => {
+    isPageHidden = false
+    const timer = timerService.createDeadlineTimer("bus", clock.now() + 30_000, config)
+
+    clock.advance(30_000)
+
+    expect(timerService.getTimer(timer.id)?.isFinished).toBe(true)
+    expect(FakeNotification.shown).toHaveLength(0)
+  })
+
+  it("should not notify without permission", () => {
+    FakeNotification.permission = "denied"
+    const timer = timerService.createCountdownTimer("bread", 60, config)
+    timerService.startTimer(timer.id)
+
+    clock.advance(60_000)
+
+    expect(FakeNotification.shown).toHaveLength(0)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import { StorageService } from "../StorageService"
+import type { ITimerRuntime } from "../../types/index"
+
+describe("StorageService", () => {
+  let store: Record<string, string>
+
+  beforeEach(() => {
+    store = {}
+    ;(global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value
+      },
+      removeItem: (key: string) => {
+        delete store[key]
+      },
+    }
+  })
+
+  describe("simulated storage", () => {
+    const runtime: ITimerRuntime = { timerId: 1, startedAt: 1000, baseRemainingSeconds: 60 }
+
+    it("should start from a copy of the real state", () => {
+      const real = new StorageService()
+      real.saveCurrentDashboard("kitchen")
+      real.saveTimerRuntime(runtime)
+
+      const simulated = StorageService.createSimulated()
+
+      expect(simulated.getCurrentDashboard()).toBe("kitchen")
+      expect(simulated.getTimerRuntime(1)).toEqual(runtime)
+    })
+
+    it("should never write to the real state", () => {
+      const real = new StorageService()
+      real.saveTimerRuntime(runtime)
+
+      const simulated = StorageService.createSimulated()
+      simulated.saveTimerRuntime({ ...runtime, startedAt: 9_000_000 })
+      simulated.deleteTimerRuntime(1)
+      simulated.saveCurrentDashboard("simulated")
+
+      expect(real.getTimerRuntime(1)).toEqual(runtime)
+      expect(real.getCurrentDashboard()).toBeNull()
+    })
+
+    it("should drop what an earlier simulation left behind", () => {
+      StorageService.createSimulated().saveCurrentDashboard("earlier")
+
+      expect(StorageService.createSimulated().getCurrentDashboard()).toBeNull()
+    })
+  })
+})
@@ -2,7 +2,13 @@ import { describe, it, expect, beforeEach, vi, beforeAll } from "vitest"
 import { TimerService } from "../TimerService"
 import { AudioService } from "../AudioService"
 import { StorageService } from "../StorageService"
-import type { IAlertConfig, ICountdownTimerState } from "../../types/index"
+import { FakeClock } from "../FakeClock"
+import type {
+  IAlertConfig,
+  ICountdownTimerState,
+  ICountupTimerState,
+  IDeadlineTimerState,
+} from "../../types/index"
 
 // Mock window, document, and localStorage for Node.js environment
 beforeAll(() => {
@@ -43,14 +49,17 @@ describe("TimerService", () => {
   let timerService: TimerService
   let audioService: AudioService
   let storageService: StorageService
+  let clock: FakeClock
 
   beforeEach(() => {
     // Clear localStorage before each test
     localStorage.clear()
 
-    audioService = new AudioService()
+    clock = new FakeClock(Date.parse("2025-01-01T12:00:00.000Z"))
+
+    audioService = new AudioService(clock)
     storageService = new StorageService()
-    timerService = new TimerService(audioService, storageService)
+    timerService = new TimerService(audioService, storageService, clock)
 
     // Mock audio methods
     vi.spyOn(audioService, "playAlert").mockImplementation(() => {})
@@ -221,7 +230,7 @@ describe("TimerService", () => {
 
       timerService.acknowledgeTimer(timer.id)
 
-      expect(audioService.cancelAlert).toHaveBeenCalled()
+      expect(audioService.cancelAlert).toHaveBeenCalledWith(timer.id)
     })
 
     it("should cancel alert when stopping alert", () => {
@@ -237,19 +246,19 @@ describe("TimerService", () => {
 
       timerService.stopAlert(timer.id)
 
-      expect(audioService.cancelAlert).toHaveBeenCalled()
+      expect(audioService.cancelAlert).toHaveBeenCalledWith(timer.id)
     })
 
     it("should throw error when acknowledging non-existent timer", () => {
       expect(() => {
         timerService.acknowledgeTimer(99999)
-      }).toThrow("Countdown timer with id 99999 not found")
+      }).toThrow("Countdown or deadline timer with id 99999 not found")
     })
 
     it("should throw error when stopping alert on non-existent timer", () => {
       expect(() => {
         timerService.stopAlert(99999)
-      }).toThrow("Countdown timer with id 99999 not found")
+      }).toThrow("Countdown or deadline timer with id 99999 not found")
     })
   })
 
@@ -274,6 +283,49 @@ describe("TimerService", () => {
       expect((resetTimer as any).elapsedSeconds).toBe(0)
     })
 
+    it("should record laps on a countup timer", () => {
+      const timer = timerService.createCountupTimer("bulk fermentation")
+      timerService.startTimer(timer.id)
+      clock.advance(30_000)
+      timerService.recordLap(timer.id, "  fold 1 ")
+      clock.advance(45_000)
+      timerService.recordLap(timer.id)
+
+      const laps = (timerService.getTimer(timer.id) as ICountupTimerState).laps
+      expect(laps.map((lap) => lap.elapsedSeconds)).toEqual([30, 75])
+      expect(laps[0].note).toBe("fold 1")
+      expect(laps[1].note).toBeUndefined()
+
+      // Laps are persisted with the timer
+      const reloaded = new TimerService(audioService, storageService, clock)
+      expect((reloaded.getTimer(timer.id) as ICountupTimerState).laps).toHaveLength(2)
+    })
+
+    it("should clear laps when a countup timer is reset", () => {
+      const timer = timerService.createCountupTimer("bulk fermentation")
+      timerService.recordLap(timer.id)
+
+      timerService.resetCountupTimer(timer.id)
+
+      expect((timerService.getTimer(timer.id) as ICountupTimerState).laps).toEqual([])
+    })
+
+    it("should remember when a countdown run started until it is reset", () => {
+      const timer = timerService.createCountdownTimer("tea", 300)
+      const startedAt = clock.now()
+
+      timerService.startTimer(timer.id)
+      clock.advance(60_000)
+      timerService.pauseTimer(timer.id)
+      clock.advance(60_000)
+      timerService.startTimer(timer.id)
+
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).startedAt).toBe(startedAt)
+
+      timerService.resetCountdownTimer(timer.id)
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).startedAt).toBeUndefined()
+    })
+
     it("should get all timers", () => {
       const config: IAlertConfig = {
         enabled: true,
@@ -314,6 +366,253 @@ describe("TimerService", () => {
     })
   })
 
+  describe("Update Timer", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+    }
+
+    it("should update label, duration and alert config while keeping the id", () => {
+      const timer = timerService.createCountdownTimer("bake", 600, config)
+      const newConfig: IAlertConfig = { ...config, repeatCount: 3 }
+
+      timerService.updateTimer(timer.id, {
+        label: " bake lid on ",
+        totalSeconds: 1800,
+        alertConfig: newConfig,
+      })
+
+      const updated = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(updated.label).toBe("bake lid on")
+      expect(updated.totalSeconds).toBe(1800)
+      expect(updated.remainingSeconds).toBe(1800)
+      expect(updated.alertConfig).toEqual(newConfig)
+    })
+
+    it("should keep the elapsed time of a running countdown by default", () => {
+      const timer = timerService.createCountdownTimer("bake", 600, config)
+      timerService.startTimer(timer.id)
+      clock.advance(200_000)
+
+      timerService.updateTimer(timer.id, { totalSeconds: 900 })
+      clock.advance(10_000)
+
+      const updated = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(updated.isRunning).toBe(true)
+      expect(updated.remainingSeconds).toBe(690)
+    })
+
+    it("should scale the remaining time proportionally when requested", () => {
+      const timer = timerService.createCountdownTimer("bake", 600, config)
+      timerService.startTimer(timer.id)
+      clock.advance(300_000)
+      timerService.pauseTimer(timer.id)
+
+      timerService.updateTimer(timer.id, { totalSeconds: 1200 }, "proportional")
+
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).remainingSeconds).toBe(600)
+    })
+
+    it("should finish a running countdown shortened below its elapsed time", () => {
+      const timer = timerService.createCountdownTimer("bake", 600, config)
+      timerService.startTimer(timer.id)
+      clock.advance(300_000)
+
+      timerService.updateTimer(timer.id, { totalSeconds: 120 })
+      clock.advance(1000)
+
+      expect(timerService.getTimer(timer.id)?.isFinished).toBe(true)
+    })
+
+    it("should reject invalid updates", () => {
+      const countdown = timerService.createCountdownTimer("bake", 600, config)
+      const countup = timerService.createCountupTimer("proof")
+
+      expect(() => timerService.updateTimer(countdown.id, { label: "  " })).toThrow(
+        "Timer label cannot be empty",
+      )
+      expect(() => timerService.updateTimer(countdown.id, { totalSeconds: 0 })).toThrow(
+        "Total time must be greater than 0",
+      )
+      expect(() => timerService.updateTimer(countup.id, { totalSeconds: 60 })).toThrow(
+        "Only countdown timers have a duration and alert configuration",
+      )
+    })
+
+    it("should rename a countup timer", () => {
+      const timer = timerService.createCountupTimer("proof")
+
+      timerService.updateTimer(timer.id, { label: "bulk fermentation" })
+
+      expect(timerService.getTimer(timer.id)?.label).toBe("bulk fermentation")
+    })
+  })
+
+  describe("Time Adjustments", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+      snoozeSeconds: 120,
+    }
+
+    it("should add time to a running countdown", () => {
+      const timer = timerService.createCountdownTimer("bake", 600, config)
+      timerService.startTimer(timer.id)
+      clock.advance(100_000)
+
+      timerService.adjustTime(timer.id, 300)
+      clock.advance(10_000)
+
+      const adjusted = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(adjusted.remainingSeconds).toBe(790)
+      expect(adjusted.totalSeconds).toBe(600)
+      expect(storageService.getTimerRuntime(timer.id)?.baseRemainingSeconds).toBe(800)
+    })
+
+    it("should remove time from a paused countdown without going below zero", () => {
+      const timer = timerService.createCountdownTimer("bake", 20, config)
+
+      timerService.adjustTime(timer.id, -30)
+
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).remainingSeconds).toBe(0)
+    })
+
+    it("should finish a running countdown when its time is removed", () => {
+      const timer = timerService.createCountdownTimer("bake", 20, config)
+      timerService.startTimer(timer.id)
+
+      timerService.adjustTime(timer.id, -30)
+
+      expect(timerService.getTimer(timer.id)?.isFinished).toBe(true)
+      expect(audioService.playAlert).toHaveBeenCalled()
+    })
+
+    it("should snooze a finished countdown for the configured length", () => {
+      const timer = timerService.createCountdownTimer("bake", 5, config)
+      timerService.startTimer(timer.id)
+      clock.advance(8000)
+      ;(audioService.cancelAlert as any).mockClear()
+
+      timerService.snoozeTimer(timer.id)
+
+      const snoozed = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(audioService.cancelAlert).toHaveBeenCalled()
+      expect(snoozed.isFinished).toBe(false)
+      expect(snoozed.isRunning).toBe(true)
+      expect(snoozed.remainingSeconds).toBe(120)
+
+      clock.advance(120_000)
+      expect(timerService.getTimer(timer.id)?.isFinished).toBe(true)
+    })
+
+    it("should only snooze finished countdowns", () => {
+      const timer = timerService.createCountdownTimer("bake", 5, config)
+
+      expect(() => timerService.snoozeTimer(timer.id)).toThrow("Only finished timers can be snoozed")
+    })
+  })
+
+  describe("Reload", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+    }
+
+    it("should resume a running countdown after a reload", () => {
+      const timer = timerService.createCountdownTimer("proof", 3600, config)
+      timerService.startTimer(timer.id)
+
+      clock.jump(20 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      const resumed = reloaded.getTimer(timer.id) as ICountdownTimerState
+      expect(resumed.isRunning).toBe(true)
+      expect(resumed.remainingSeconds).toBe(40 * 60)
+    })
+
+    it("should finish and alert a countdown that expired hours before a reload", () => {
+      const timer = timerService.createCountdownTimer("cold proof", 3600, config)
+      timerService.startTimer(timer.id)
+      ;(audioService.playAlert as any).mockClear()
+
+      clock.jump(3 * 60 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      const finished = reloaded.getTimer(timer.id) as ICountdownTimerState
+      expect(finished.isRunning).toBe(false)
+      expect(finished.isFinished).toBe(true)
+      expect(finished.overtimeSeconds).toBe(2 * 60 * 60)
+      expect(audioService.playAlert).toHaveBeenCalledTimes(1)
+    })
+
+    it("should resume a count-up timer after a reload", () => {
+      const timer = timerService.createCountupTimer("bulk fermentation")
+      timerService.startTimer(timer.id)
+
+      clock.jump(5 * 60 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      expect((reloaded.getTimer(timer.id) as ICountupTimerState).elapsedSeconds).toBe(5 * 60 * 60)
+    })
+  })
+
+  describe("Shared Ticker", () => {
+    it("should batch all running timers into one notification per second", () => {
+      clock.jump(250)
+
+      const observer = {
+        onTimerUpdated: vi.fn(),
+        onTimerCreated: vi.fn(),
+        onTimerDeleted: vi.fn(),
+        onTimersTicked: vi.fn(),
+      }
+
+      const timers = Array.from({ length: 15 }, (_, index) =>
+        timerService.createCountupTimer(`timer ${index}`),
+      )
+      timers.forEach((timer) => timerService.startTimer(timer.id))
+      timerService.subscribe(observer)
+
+      clock.advance(3000)
+
+      expect(observer.onTimersTicked).toHaveBeenCalledTimes(3)
+      expect(observer.onTimersTicked.mock.calls[0][0]).toHaveLength(15)
+      expect(observer.onTimerUpdated).not.toHaveBeenCalled()
+    })
+
+    it("should fall back to per-timer updates for observers without onTimersTicked", () => {
+      const observer = {
+        onTimerUpdated: vi.fn(),
+        onTimerCreated: vi.fn(),
+        onTimerDeleted: vi.fn(),
+      }
+
+      const first = timerService.createCountupTimer("first")
+      const second = timerService.createCountupTimer("second")
+      timerService.startTimer(first.id)
+      timerService.startTimer(second.id)
+      timerService.subscribe(observer)
+
+      clock.advance(1000)
+
+      expect(observer.onTimerUpdated).toHaveBeenCalledTimes(2)
+    })
+
+    it("should stop ticking when no timer is active", () => {
+      const timer = timerService.createCountupTimer("counter")
+      timerService.startTimer(timer.id)
+      timerService.pauseTimer(timer.id)
+
+      expect(clock.getPendingCount()).toBe(0)
+    })
+  })
+
   describe("Timer Completion Flow", () => {
     it("should mark timer as finished and allow acknowledge/stop alert flow", () => {
       const config: IAlertConfig = {
@@ -359,4 +658,400 @@ describe("TimerService", () => {
       expect(audioService.cancelAlert).toHaveBeenCalled()
     })
   })
+
+  describe("Timer Sequences", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+    }
+
+    it("should link timers into a sequence", () => {
+      const autolyse = timerService.createCountdownTimer("autolyse", 60, config)
+      const rest = timerService.createCountdownTimer("rest", 30, config)
+      const fold = timerService.createCountupTimer("fold")
+
+      timerService.linkTimers(autolyse.id, rest.id)
+      timerService.linkTimers(rest.id, fold.id)
+
+      expect(timerService.getSequence(rest.id).timerIds).toEqual([autolyse.id, rest.id, fold.id])
+      expect((timerService.getTimer(autolyse.id) as ICountdownTimerState).nextTimerId).toBe(rest.id)
+    })
+
+    it("should reject links that would create a cycle", () => {
+      const first = timerService.createCountdownTimer("first", 60, config)
+      const second = timerService.createCountdownTimer("second", 60, config)
+
+      timerService.linkTimers(first.id, second.id)
+
+      expect(() => timerService.linkTimers(second.id, first.id)).toThrow("would create a cycle")
+      expect(() => timerService.linkTimers(first.id, first.id)).toThrow("would create a cycle")
+    })
+
+    it("should only allow countdowns to have a successor", () => {
+      const counter = timerService.createCountupTimer("counter")
+      const countdown = timerService.createCountdownTimer("countdown", 60, config)
+
+      expect(() => timerService.linkTimers(counter.id, countdown.id)).toThrow(
+        `Countdown timer with id ${counter.id} not found`,
+      )
+    })
+
+    it("should unlink a timer", () => {
+      const first = timerService.createCountdownTimer("first", 60, config)
+      const second = timerService.createCountdownTimer("second", 60, config)
+
+      timerService.linkTimers(first.id, second.id)
+      timerService.unlinkTimer(first.id)
+
+      expect(timerService.getSequence(first.id).timerIds).toEqual([first.id])
+    })
+
+    it("should heal the sequence when a timer in the middle is deleted", () => {
+      const first = timerService.createCountdownTimer("first", 60, config)
+      const middle = timerService.createCountdownTimer("middle", 60, config)
+      const last = timerService.createCountdownTimer("last", 60, config)
+
+      timerService.linkTimers(first.id, middle.id)
+      timerService.linkTimers(middle.id, last.id)
+      timerService.deleteTimer(middle.id)
+
+      expect(timerService.getSequence(first.id).timerIds).toEqual([first.id, last.id])
+    })
+
+    it("should start the successor when a countdown finishes", () => {
+      const autolyse = timerService.createCountdownTimer("autolyse", 2, config)
+      const rest = timerService.createCountdownTimer("rest", 30, config)
+      timerService.linkTimers(autolyse.id, rest.id)
+
+      timerService.startTimer(autolyse.id)
+      clock.advance(2000)
+
+      expect(timerService.getTimer(autolyse.id)?.isFinished).toBe(true)
+      expect(timerService.getTimer(rest.id)?.isRunning).toBe(true)
+      expect((timerService.getTimer(rest.id) as ICountdownTimerState).remainingSeconds).toBe(30)
+      expect(audioService.playAlert).toHaveBeenCalledWith(autolyse.id, "autolyse", config)
+    })
+
+    it("should catch up a sequence that finished while the page was closed", () => {
+      const autolyse = timerService.createCountdownTimer("autolyse", 60, config)
+      const rest = timerService.createCountdownTimer("rest", 60, config)
+      const fold = timerService.createCountdownTimer("fold", 60, config)
+      timerService.linkTimers(autolyse.id, rest.id)
+      timerService.linkTimers(rest.id, fold.id)
+      timerService.startTimer(autolyse.id)
+
+      // Simulate a reload 150 seconds later
+      clock.jump(150_000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      expect(reloaded.getTimer(autolyse.id)?.isFinished).toBe(true)
+      expect(reloaded.getTimer(rest.id)?.isFinished).toBe(true)
+      expect(reloaded.getTimer(fold.id)?.isRunning).toBe(true)
+      expect((reloaded.getTimer(fold.id) as ICountdownTimerState).remainingSeconds).toBe(30)
+    })
+  })
+
+  describe("Overtime", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+    }
+
+    it("should keep counting overtime after a countdown finishes", () => {
+      const timer = timerService.createCountdownTimer("bread", 5, config)
+      timerService.startTimer(timer.id)
+      clock.advance(5000 + 192_000)
+
+      const finished = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(finished.isFinished).toBe(true)
+      expect(finished.remainingSeconds).toBe(0)
+      expect(finished.overtimeSeconds).toBe(192)
+    })
+
+    it("should keep overtime across reloads", () => {
+      const timer = timerService.createCountdownTimer("bread", 5, config)
+      timerService.startTimer(timer.id)
+      clock.advance(5000)
+
+      clock.jump(60_000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      expect((reloaded.getTimer(timer.id) as ICountdownTimerState).overtimeSeconds).toBe(60)
+    })
+
+    it("should record the final overtime when acknowledged", () => {
+      const timer = timerService.createCountdownTimer("bread", 5, config)
+      timerService.startTimer(timer.id)
+      clock.advance(5000 + 30_000)
+      timerService.acknowledgeTimer(timer.id)
+      clock.advance(60_000)
+
+      const acknowledged = timerService.getTimer(timer.id) as ICountdownTimerState
+      expect(acknowledged.isAcknowledged).toBe(true)
+      expect(acknowledged.overtimeSeconds).toBe(30)
+      expect(storageService.getTimerRuntime(timer.id)?.finishedAt).toBeUndefined()
+    })
+
+    it("should clear overtime when restarted", () => {
+      const timer = timerService.createCountdownTimer("bread", 5, config)
+      timerService.startTimer(timer.id)
+      clock.advance(10_000)
+      timerService.acknowledgeTimer(timer.id)
+      timerService.startTimer(timer.id)
+
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).overtimeSeconds).toBe(0)
+    })
+  })
+  describe("Deadline Timers", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} is due",
+      snoozeSeconds: 120,
+    }
+    const guestsArrive = Date.parse("2025-01-01T18:30:00.000Z")
+
+    it("should count down to the target time from creation", () => {
+      const timer = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+      expect(timer.isRunning).toBe(true)
+
+      clock.advance(30 * 60 * 1000)
+
+      const deadline = timerService.getTimer(timer.id) as IDeadlineTimerState
+      expect(deadline.remainingSeconds).toBe(6 * 60 * 60)
+      expect(deadline.targetAt).toBe(guestsArrive)
+    })
+
+    it("should alert exactly at the target time", () => {
+      const timer = timerService.createDeadlineTimer("call", clock.now() + 90_500, config)
+
+      clock.advance(90_499)
+      expect(audioService.playAlert).not.toHaveBeenCalled()
+
+      clock.advance(1)
+      const finished = timerService.getTimer(timer.id) as IDeadlineTimerState
+      expect(finished.isFinished).toBe(true)
+      expect(finished.isRunning).toBe(false)
+      expect(audioService.playAlert).toHaveBeenCalledWith(timer.id, "call", config)
+    })
+
+    it("should count overtime until acknowledged", () => {
+      const timer = timerService.createDeadlineTimer("call", clock.now() + 5000, config)
+      clock.advance(5000 + 45_000)
+      expect((timerService.getTimer(timer.id) as IDeadlineTimerState).overtimeSeconds).toBe(45)
+
+      timerService.acknowledgeTimer(timer.id)
+      clock.advance(60_000)
+
+      const acknowledged = timerService.getTimer(timer.id) as IDeadlineTimerState
+      expect(acknowledged.isAcknowledged).toBe(true)
+      expect(acknowledged.overtimeSeconds).toBe(45)
+    })
+
+    it("should finish straight away when the target is already in the past", () => {
+      const timer = timerService.createDeadlineTimer("missed", clock.now() - 60_000, config)
+
+      expect(timer.isFinished).toBe(true)
+      expect(audioService.playAlert).toHaveBeenCalledTimes(1)
+    })
+
+    it("should reject an invalid target time", () => {
+      expect(() => timerService.createDeadlineTimer("bad", NaN, config)).toThrow(
+        "Deadline must be a valid time",
+      )
+    })
+
+    it("should not be started, paused or linked into a sequence", () => {
+      const deadline = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+      const countdown = timerService.createCountdownTimer("roast", 3600, config)
+
+      expect(() => timerService.pauseTimer(deadline.id)).toThrow("cannot be paused")
+      expect(() => timerService.startTimer(deadline.id)).toThrow("cannot be started")
+      expect(() => timerService.linkTimers(countdown.id, deadline.id)).toThrow(
+        "cannot follow another timer",
+      )
+    })
+
+    it("should move the target when time is adjusted", () => {
+      const timer = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+
+      timerService.adjustTime(timer.id, 300)
+
+      const adjusted = timerService.getTimer(timer.id) as IDeadlineTimerState
+      expect(adjusted.targetAt).toBe(guestsArrive + 300_000)
+    })
+
+    it("should snooze by pushing the target past now", () => {
+      const timer = timerService.createDeadlineTimer("call", clock.now() + 5000, config)
+      clock.advance(5000)
+
+      timerService.snoozeTimer(timer.id)
+
+      const snoozed = timerService.getTimer(timer.id) as IDeadlineTimerState
+      expect(snoozed.isFinished).toBe(false)
+      expect(snoozed.isRunning).toBe(true)
+      expect(snoozed.targetAt).toBe(clock.now() + 120_000)
+
+      clock.advance(120_000)
+      expect((timerService.getTimer(timer.id) as IDeadlineTimerState).isFinished).toBe(true)
+    })
+
+    it("should re-arm a finished deadline whose target is moved into the future", () => {
+      const timer = timerService.createDeadlineTimer("call", clock.now() + 5000, config)
+      clock.advance(5000)
+      timerService.acknowledgeTimer(timer.id)
+
+      const updated = timerService.updateTimer(timer.id, {
+        targetAt: clock.now() + 60_000,
+      }) as IDeadlineTimerState
+
+      expect(updated.isFinished).toBe(false)
+      expect(updated.isAcknowledged).toBe(false)
+      expect(updated.remainingSeconds).toBe(60)
+    })
+
+    it("should only accept a target time on deadline timers", () => {
+      const countdown = timerService.createCountdownTimer("roast", 3600, config)
+      const deadline = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+
+      expect(() => timerService.updateTimer(countdown.id, { targetAt: guestsArrive })).toThrow(
+        "Only deadline timers have a target time",
+      )
+      expect(() => timerService.updateTimer(deadline.id, { totalSeconds: 60 })).toThrow(
+        "rather than a duration",
+      )
+    })
+
+    it("should keep its target across a reload", () => {
+      const timer = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+
+      clock.jump(60 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      const resumed = reloaded.getTimer(timer.id) as IDeadlineTimerState
+      expect(resumed.isRunning).toBe(true)
+      expect(resumed.remainingSeconds).toBe(5 * 60 * 60 + 30 * 60)
+    })
+
+    it("should finish a deadline that passed while the page was closed", () => {
+      const timer = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+
+      clock.jump(7 * 60 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      const finished = reloaded.getTimer(timer.id) as IDeadlineTimerState
+      expect(finished.isFinished).toBe(true)
+      expect(finished.overtimeSeconds).toBe(30 * 60)
+    })
+
+    it("should read a target stored as a date string", () => {
+      const timer = timerService.createDeadlineTimer("guests arrive", guestsArrive, config)
+      const stored = JSON.parse(localStorage.getItem("multi-timer-timers") as string)
+      stored[0].targetAt = "2025-01-01T19:30:00+01:00"
+      localStorage.setItem("multi-timer-timers", JSON.stringify(stored))
+
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      expect((reloaded.getTimer(timer.id) as IDeadlineTimerState).targetAt).toBe(guestsArrive)
+    })
+  })
+  describe("Warnings", () => {
+    const config: IAlertConfig = {
+      enabled: true,
+      repeatCount: "infinite",
+      waitBetweenRepeat: 10,
+      utteranceTemplate: "{timer name} has completed",
+      warnings: [
+        { at: 300, unit: "seconds", utteranceTemplate: "{timer name} has 5 minutes left" },
+        { at: 50, unit: "percent", utteranceTemplate: "{timer name} is halfway" },
+      ],
+    }
+    const spokenTemplates = () =>
+      (audioService.playAlert as any).mock.calls.map(
+        ([, , alertConfig]: [number, string, IAlertConfig]) => alertConfig.utteranceTemplate,
+      )
+
+    it("should announce each threshold once as it is crossed", () => {
+      const timer = timerService.createCountdownTimer("roast", 20 * 60, config)
+      timerService.startTimer(timer.id)
+
+      clock.advance(10 * 60 * 1000 - 1000)
+      expect(audioService.playAlert).not.toHaveBeenCalled()
+
+      clock.advance(1000)
+      expect(spokenTemplates()).toEqual(["{timer name} is halfway"])
+
+      clock.advance(5 * 60 * 1000)
+      expect(spokenTemplates()).toEqual([
+        "{timer name} is halfway",
+        "{timer name} has 5 minutes left",
+      ])
+      expect((audioService.playAlert as any).mock.calls[1][2].repeatCount).toBe(1)
+
+      clock.advance(60 * 1000)
+      expect(audioService.playAlert).toHaveBeenCalledTimes(2)
+      expect((timerService.getTimer(timer.id) as ICountdownTimerState).firedWarnings).toEqual([
+        1, 0,
+      ])
+    })
+
+    it("should skip thresholds already passed when started", () => {
+      const timer = timerService.createCountdownTimer("tea", 4 * 60, config)
+      timerService.startTimer(timer.id)
+
+      clock.advance(3 * 60 * 1000)
+
+      // The 5 minute warning was never reachable, halfway still is
+      expect(spokenTemplates()).toEqual(["{timer name} is halfway"])
+    })
+
+    it("should not repeat a warning after a reload", () => {
+      const timer = timerService.createCountdownTimer("roast", 20 * 60, config)
+      timerService.startTimer(timer.id)
+      clock.advance(11 * 60 * 1000)
+      expect(audioService.playAlert).toHaveBeenCalledTimes(1)
+
+      timerService.pauseTimer(timer.id)
+      const reloaded = new TimerService(audioService, storageService, clock)
+      reloaded.startTimer(timer.id)
+      clock.advance(2 * 60 * 1000)
+
+      expect(spokenTemplates()).toEqual(["{timer name} is halfway"])
+    })
+
+    it("should stay quiet about thresholds passed while the page was closed", () => {
+      const timer = timerService.createCountdownTimer("roast", 20 * 60, config)
+      timerService.startTimer(timer.id)
+
+      clock.jump(12 * 60 * 1000)
+      const reloaded = new TimerService(audioService, storageService, clock)
+
+      expect(audioService.playAlert).not.toHaveBeenCalled()
+      expect((reloaded.getTimer(timer.id) as ICountdownTimerState).firedWarnings).toEqual([1])
+    })
+
+    it("should arm the warnings again after a reset", () => {
+      const timer = timerService.createCountdownTimer("roast", 20 * 60, config)
+      timerService.startTimer(timer.id)
+      clock.advance(10 * 60 * 1000)
+      timerService.resetCountdownTimer(timer.id)
+      timerService.startTimer(timer.id)
+      clock.advance(10 * 60 * 1000)
+
+      expect(spokenTemplates()).toEqual(["{timer name} is halfway", "{timer name} is halfway"])
+    })
+
+    it("should only use time-left thresholds on deadlines", () => {
+      timerService.createDeadlineTimer("guests arrive", clock.now() + 20 * 60 * 1000, config)
+
+      clock.advance(15 * 60 * 1000)
+
+      expect(spokenTemplates()).toEqual(["{timer name} has 5 minutes left"])
+    })
+  })
 })
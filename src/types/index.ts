@@ -13,6 +13,13 @@ export interface ICountdownTimerState {
   readonly isFinished: boolean
   readonly isAcknowledged: boolean
   readonly alertConfig: IAlertConfig
+  readonly nextTimerId?: number
+  /** Seconds past zero - live while unacknowledged, final once acknowledged */
+  readonly overtimeSeconds: number
+  /** Indexes into alertConfig.warnings that have already been announced this run */
+  readonly firedWarnings: readonly number[]
+  /** When the current run began from the full duration, cleared on reset */
+  readonly startedAt?: number
 }
 
 export interface ICountupTimerState {
@@ -22,22 +29,158 @@ export interface ICountupTimerState {
   readonly elapsedSeconds: number
   readonly isRunning: boolean
   readonly isFinished: boolean
+  readonly laps: readonly ICountupLap[]
 }
 
-export type TimerState = ICountdownTimerState | ICountupTimerState
+/**
+ * A split recorded on a count-up timer
+ */
+export interface ICountupLap {
+  readonly elapsedSeconds: number
+  readonly recordedAt: number
+  readonly note?: string
+}
+
+/**
+ * A timer counting down to an absolute moment rather than for a duration
+ * It runs on its own from creation until the target is reached
+ */
+export interface IDeadlineTimerState {
+  readonly id: number
+  readonly label: string
+  readonly type: "deadline"
+  /** Target as UTC epoch milliseconds, so it means the same instant in every time zone */
+  readonly targetAt: number
+  readonly remainingSeconds: number
+  readonly isRunning: boolean
+  readonly isFinished: boolean
+  readonly isAcknowledged: boolean
+  readonly alertConfig: IAlertConfig
+  readonly overtimeSeconds: number
+  readonly firedWarnings: readonly number[]
+}
+
+export type TimerState = ICountdownTimerState | ICountupTimerState | IDeadlineTimerState
+
+/**
+ * Timers that finish and raise an alert
+ */
+export type AlertingTimerState = ICountdownTimerState | IDeadlineTimerState
+
+/**
+ * A chain of timers linked through nextTimerId, ordered from head to tail.
+ * When a countdown in the chain finishes, its successor is started automatically.
+ */
+export interface ITimerSequence {
+  readonly timerIds: readonly number[]
+}
 
 export interface IAlertConfig {
   readonly enabled: boolean
   readonly repeatCount: number | "infinite"
   readonly waitBetweenRepeat: number
   readonly utteranceTemplate: string
+  /** How long the snooze action restarts a finished countdown for (default 5 minutes) */
+  readonly snoozeSeconds?: number
+  /** Announcements made before the timer reaches zero */
+  readonly warnings?: readonly IAlertWarning[]
+  /** Preferred voice by name; falls back to voiceLang, then to the default voice */
+  readonly voiceName?: string
+  /** BCP 47 language tag such as "de-DE" used when the named voice is not installed */
+  readonly voiceLang?: string
+  /** Speech rate 0.1 - 10 (default 1) */
+  readonly rate?: number
+  /** Speech pitch 0 - 2 (default 1) */
+  readonly pitch?: number
+  /** Volume 0 - 1 of both speech and alarm sound (default 1) */
+  readonly volume?: number
+  /** Whether the alert speaks, plays an alarm sound, or both (default "speech") */
+  readonly alertStyle?: AlertStyle
+  /** Alarm played when the style includes a sound (default "chime") */
+  readonly sound?: AlarmSound
 }
 
+/**
+ * "both" plays the alarm sound first and then speaks the message
+ */
+export type AlertStyle = "speech" | "sound" | "both"
+
+export type AlarmSound = "chime" | "klaxon" | "rising"
+
+/**
+ * A synthesized alarm, played as a fixed pattern of notes
+ */
+export interface IAlarmTone {
+  readonly name: AlarmSound
+  readonly label: string
+  readonly notes: readonly IToneNote[]
+}
+
+/**
+ * One oscillator note of an alarm; times are in seconds from the start of the pattern
+ * A note with an endFrequency glides to it over its duration
+ */
+export interface IToneNote {
+  readonly frequency: number
+  readonly endFrequency?: number
+  readonly start: number
+  readonly duration: number
+  readonly waveform: OscillatorType
+}
+
+/**
+ * A pre-completion announcement such as "5 minutes left" or "halfway"
+ * "seconds" thresholds count the time left; "percent" thresholds are a share of
+ * a countdown's total duration and do not apply to deadlines, which have none
+ */
+export interface IAlertWarning {
+  readonly at: number
+  readonly unit: "seconds" | "percent"
+  readonly utteranceTemplate: string
+}
+
+/**
+ * Fields of an existing timer that can be edited in place
+ */
+export interface ITimerUpdate {
+  readonly label?: string
+  readonly totalSeconds?: number
+  readonly targetAt?: number
+  readonly alertConfig?: IAlertConfig
+}
+
+/**
+ * How the remaining time of a started countdown follows a duration change:
+ * "absolute" keeps the elapsed time, "proportional" keeps the fraction left
+ */
+export type RemainingTimeAdjustment = "absolute" | "proportional"
+
 export interface IDashboard {
   readonly id: string
   readonly name: string
   readonly timerIds: readonly number[]
   readonly createdAt: number
+  /** Set on dashboards loaded from a manifest, so loading it again updates them */
+  readonly origin?: IDashboardOrigin
+}
+
+/**
+ * Links a local dashboard and its timers to their ids in a manifest
+ */
+export interface IDashboardOrigin {
+  /** Manifest source the dashboard came from; unset on dashboards loaded before sources existed */
+  readonly sourceId?: string
+  readonly dashboardId: string
+  /** Manifest timer id to local timer id */
+  readonly timerIds: Readonly<Record<string, number>>
+}
+
+/**
+ * Fields of a dashboard that can be changed after creation
+ */
+export interface IDashboardUpdate {
+  readonly name?: string
+  readonly origin?: IDashboardOrigin
 }
 
 export interface ITimerRuntime {
@@ -45,12 +188,34 @@ export interface ITimerRuntime {
   readonly startedAt: number
   readonly baseRemainingSeconds?: number
   readonly baseElapsedSeconds?: number
+  /** When a countdown reached zero, kept until acknowledged to track overtime */
+  readonly finishedAt?: number
+}
+
+/**
+ * Opaque handle returned by IClock.setTimeout
+ */
+export type ClockTimeoutHandle = unknown
+
+/**
+ * Source of time and scheduling - injected so time can be controlled in tests
+ * and in the "simulate time" debugging mode
+ */
+export interface IClock {
+  now(): number
+  setTimeout(callback: () => void, delayMs: number): ClockTimeoutHandle
+  clearTimeout(handle: ClockTimeoutHandle): void
 }
 
 export interface ITimerObserver {
   onTimerUpdated(timer: TimerState): void
   onTimerCreated(timer: TimerState): void
   onTimerDeleted(id: number): void
+  /**
+   * Called once per tick with every timer that changed during it
+   * Observers without it receive one onTimerUpdated call per timer instead
+   */
+  onTimersTicked?(timers: TimerState[]): void
 }
 
 export interface IDashboardObserver {
@@ -60,10 +225,94 @@ export interface IDashboardObserver {
   onDashboardSelected(dashboard: IDashboard): void
 }
 
+/**
+ * Everything an utterance template can mention about the timer it announces
+ * Durations are in seconds, moments in epoch milliseconds
+ */
+export interface IUtteranceContext {
+  readonly timerName: string
+  readonly now: number
+  readonly dashboard?: string
+  readonly durationSeconds?: number
+  readonly remainingSeconds?: number
+  readonly overtimeSeconds?: number
+  readonly startedAt?: number
+  readonly targetAt?: number
+  readonly nextTimer?: string
+}
+
+/**
+ * Looks up the current template context of a timer, or null for unknown ids
+ */
+export interface IUtteranceContextProvider {
+  getContext(timerId: number): IUtteranceContext | null
+  /** Context for a timer that is still being filled in on the create form */
+  getDraftContext(timerName: string, durationSeconds?: number, targetAt?: number): IUtteranceContext
+}
+
+/**
+ * Alerts are tracked per timer: starting or cancelling one timer's alert never
+ * touches the announcements of another
+ */
 export interface IAudioService {
   playBeep(): void
-  playAlert(timerName: string, config: IAlertConfig): void
-  cancelAlert(): void
+  playAlert(timerId: number, timerName: string, config: IAlertConfig): void
+  cancelAlert(timerId: number): void
+}
+
+/**
+ * How alerts are toned down while do-not-disturb is on: "visual" keeps only the
+ * flashing timer card, "chime" plays a single chime instead of the configured alert
+ */
+export type QuietAlertMode = "visual" | "chime"
+
+/**
+ * A recurring quiet period in local time, e.g. weekdays from 22:00 to 07:00
+ * A window whose end is before its start runs past midnight; its days are the
+ * days it starts on
+ */
+export interface IQuietHoursWindow {
+  /** Days of the week, 0 = Sunday */
+  readonly days: readonly number[]
+  /** "HH:MM" */
+  readonly start: string
+  readonly end: string
+}
+
+export interface IDoNotDisturbSettings {
+  /** Manual toggle, quiet regardless of the schedule */
+  readonly enabled: boolean
+  readonly windows: readonly IQuietHoursWindow[]
+  readonly mode: QuietAlertMode
+}
+
+/**
+ * Decides whether alerts are currently toned down and stores the schedule
+ */
+export interface IDoNotDisturbService {
+  getSettings(): IDoNotDisturbSettings
+  updateSettings(settings: IDoNotDisturbSettings): void
+  isQuiet(): boolean
+}
+
+/**
+ * A speech synthesis voice installed in the browser
+ */
+export interface IVoiceOption {
+  readonly name: string
+  readonly lang: string
+}
+
+/**
+ * Lists the installed voices and lets the user hear an alert configuration
+ */
+export interface IVoiceService {
+  getVoices(): IVoiceOption[]
+  /** Called whenever the browser finishes loading or changes its voice list */
+  onVoicesChanged(listener: () => void): void
+  previewAlert(context: IUtteranceContext, config: IAlertConfig): void
+  /** Play an alarm sound once at the given volume (default 1) */
+  previewSound(sound: AlarmSound, volume?: number): void
 }
 
 export interface IStorageService {
@@ -78,18 +327,28 @@ export interface IStorageService {
   saveTimerRuntime(runtime: ITimerRuntime): void
   getTimerRuntime(timerId: number): ITimerRuntime | null
   deleteTimerRuntime(timerId: number): void
+  saveDoNotDisturbSettings(settings: IDoNotDisturbSettings): void
+  loadDoNotDisturbSettings(): IDoNotDisturbSettings | null
 }
 
 export interface ITimerService {
   createCountdownTimer(label: string, totalSeconds: number, alertConfig?: IAlertConfig): TimerState
   createCountupTimer(label: string): TimerState
+  createDeadlineTimer(label: string, targetAt: number, alertConfig?: IAlertConfig): TimerState
+  updateTimer(id: number, update: ITimerUpdate, adjustment?: RemainingTimeAdjustment): TimerState
   startTimer(id: number): void
   pauseTimer(id: number): void
   resetCountdownTimer(id: number): void
   resetCountupTimer(id: number): void
+  recordLap(id: number, note?: string): ICountupLap
   deleteTimer(id: number): void
   acknowledgeTimer(id: number): void
+  adjustTime(id: number, deltaSeconds: number): void
+  snoozeTimer(id: number): void
   stopAlert(id: number): void
+  linkTimers(id: number, nextId: number): void
+  unlinkTimer(id: number): void
+  getSequence(id: number): ITimerSequence
   getTimer(id: number): TimerState | undefined
   getAllTimers(): TimerState[]
   subscribe(observer: ITimerObserver): void
@@ -98,6 +357,7 @@ export interface ITimerService {
 
 export interface IDashboardService {
   createDashboard(name: string): IDashboard
+  updateDashboard(id: string, update: IDashboardUpdate): IDashboard
   deleteDashboard(id: string): void
   selectDashboard(id: string): void
   getCurrentDashboard(): IDashboard | null
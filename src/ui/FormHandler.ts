@@ -2,26 +2,58 @@
  * FormHandler - Single Responsibility: Handle form inputs and user interactions
  */
 
-import { ITimerService, IDashboardService, IAlertConfig } from "../types/index"
+import {
+  ITimerService,
+  IDashboardService,
+  IAlertConfig,
+  IAlertWarning,
+  ICountdownTimerState,
+  TimerState,
+  IVoiceService,
+  IUtteranceContext,
+  IUtteranceContextProvider,
+  AlertStyle,
+} from "../types/index"
+import { HtmlSanitizer } from "../utils/HtmlSanitizer"
+import { TimeFormatter } from "../utils/TimeFormatter"
+import { AlertWarningFormatter } from "../utils/AlertWarningFormatter"
+import { VoiceOptionFormatter } from "../utils/VoiceOptionFormatter"
+import { UtteranceTemplate } from "../utils/UtteranceTemplate"
+import { AlarmToneLibrary } from "../utils/AlarmToneLibrary"
 
 export class FormHandler {
+  private static readonly DEFAULT_UTTERANCE_TEMPLATE = "timer {timer name} has completed"
+
   private timerService: ITimerService
   private dashboardService: IDashboardService
-  private currentMode: "countdown" | "countup" = "countdown"
-
-  constructor(timerService: ITimerService, dashboardService: IDashboardService) {
+  private voiceService: IVoiceService
+  private utteranceContext: IUtteranceContextProvider
+  private currentMode: TimerState["type"] = "countdown"
+
+  constructor(
+    timerService: ITimerService,
+    dashboardService: IDashboardService,
+    voiceService: IVoiceService,
+    utteranceContext: IUtteranceContextProvider,
+  ) {
     this.timerService = timerService
     this.dashboardService = dashboardService
+    this.voiceService = voiceService
+    this.utteranceContext = utteranceContext
     this.setupEventListeners()
+    this.updateVoiceOptions()
+    this.voiceService.onVoicesChanged(() => this.updateVoiceOptions())
   }
 
   private setupEventListeners(): void {
     // Mode switching
     const modeCountdownBtn = document.getElementById("modeCountdown")
     const modeCountupBtn = document.getElementById("modeCountup")
+    const modeDeadlineBtn = document.getElementById("modeDeadline")
 
     modeCountdownBtn?.addEventListener("click", () => this.setMode("countdown"))
     modeCountupBtn?.addEventListener("click", () => this.setMode("countup"))
+    modeDeadlineBtn?.addEventListener("click", () => this.setMode("deadline"))
 
     // Dashboard creation
     const createDashboardBtn = document.getElementById("createDashboardBtn")
@@ -39,14 +71,20 @@ export class FormHandler {
     const repeatModeSelect = document.getElementById("repeatMode") as HTMLSelectElement
     repeatModeSelect?.addEventListener("change", () => this.updateRepeatConfigVisibility())
 
-    // Timer creation
+    const previewVoiceBtn = document.getElementById("previewVoiceBtn")
+    previewVoiceBtn?.addEventListener("click", () => this.previewVoice())
+
+    const testSoundBtn = document.getElementById("testSoundBtn")
+    testSoundBtn?.addEventListener("click", () => this.testSound())
+
+    // Timer creation - the countdown form also creates deadlines
     const createTimerBtn = document.getElementById("createTimerBtn")
-    createTimerBtn?.addEventListener("click", () => this.createCountdownTimer())
+    createTimerBtn?.addEventListener("click", () => this.createAlertingTimer())
 
     const labelInput = document.getElementById("label") as HTMLInputElement
     labelInput?.addEventListener("keypress", (e) => {
-      if (e.key === "Enter" && this.currentMode === "countdown") {
-        this.createCountdownTimer()
+      if (e.key === "Enter") {
+        this.createAlertingTimer()
       }
     })
 
@@ -57,6 +95,13 @@ export class FormHandler {
       }
     })
 
+    const deadlineInput = document.getElementById("deadlineAt") as HTMLInputElement
+    deadlineInput?.addEventListener("keypress", (e) => {
+      if (e.key === "Enter" && this.currentMode === "deadline") {
+        this.createDeadlineTimer()
+      }
+    })
+
     // Countup creation
     const createCountupBtn = document.getElementById("createCountupBtn")
     createCountupBtn?.addEventListener("click", () => this.createCountupTimer())
@@ -68,7 +113,11 @@ export class FormHandler {
       }
     })
 
+    // Edit cards are re-rendered, so listen for message edits on the whole page
+    document.addEventListener("input", () => this.updateUtterancePreviews())
+
     this.updateDashboardButtonState()
+    this.updateUtterancePreviews()
   }
 
   private updateRepeatConfigVisibility(): void {
@@ -80,20 +129,44 @@ export class FormHandler {
     }
   }
 
-  private getAlertConfig(): IAlertConfig {
-    const alertEnabled = (document.getElementById("alertEnabled") as HTMLInputElement).checked
-    const repeatMode = (document.getElementById("repeatMode") as HTMLSelectElement).value
+  /**
+   * Read the alert configuration inputs
+   * The idSuffix selects the inputs of a timer card in edit mode (e.g. "-123")
+   * Returns null (after telling the user) when the warnings cannot be parsed or a
+   * message uses an unknown placeholder
+   */
+  private getAlertConfig(idSuffix: string = ""): IAlertConfig | null {
+    const alertEnabled = (document.getElementById(`alertEnabled${idSuffix}`) as HTMLInputElement)
+      .checked
+    const repeatMode = (document.getElementById(`repeatMode${idSuffix}`) as HTMLSelectElement)
+      .value
     const repeatCount = parseInt(
-      (document.getElementById("repeatCount") as HTMLInputElement).value,
+      (document.getElementById(`repeatCount${idSuffix}`) as HTMLInputElement).value,
       10,
     )
     const waitBetweenRepeat = parseInt(
-      (document.getElementById("waitBetweenRepeat") as HTMLInputElement).value,
+      (document.getElementById(`waitBetweenRepeat${idSuffix}`) as HTMLInputElement).value,
       10,
     )
     const utteranceTemplate = (
-      document.getElementById("utteranceTemplate") as HTMLInputElement
+      document.getElementById(`utteranceTemplate${idSuffix}`) as HTMLInputElement
     ).value.trim()
+    const snoozeInput = document.getElementById(`snoozeMinutes${idSuffix}`) as HTMLInputElement
+    const snoozeMinutes = parseInt(snoozeInput?.value ?? "", 10)
+    const snoozeSeconds = isNaN(snoozeMinutes) ? 300 : Math.max(1, snoozeMinutes) * 60
+    const warningsInput = document.getElementById(
+      `warnings${idSuffix}`,
+    ) as HTMLTextAreaElement | null
+
+    let warnings: IAlertWarning[]
+    try {
+      UtteranceTemplate.validate(utteranceTemplate)
+      warnings = AlertWarningFormatter.parse(warningsInput?.value ?? "")
+      warnings.forEach((warning) => UtteranceTemplate.validate(warning.utteranceTemplate))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error))
+      return null
+    }
 
     let config: IAlertConfig
 
@@ -102,14 +175,16 @@ export class FormHandler {
         enabled: alertEnabled,
         repeatCount: 1,
         waitBetweenRepeat: 0,
-        utteranceTemplate: utteranceTemplate || "timer {timer name} has completed",
+        utteranceTemplate: utteranceTemplate || FormHandler.DEFAULT_UTTERANCE_TEMPLATE,
+        snoozeSeconds,
       }
     } else if (repeatMode === "finite") {
       config = {
         enabled: alertEnabled,
         repeatCount: Math.max(1, repeatCount),
         waitBetweenRepeat,
-        utteranceTemplate: utteranceTemplate || "timer {timer name} has completed",
+        utteranceTemplate: utteranceTemplate || FormHandler.DEFAULT_UTTERANCE_TEMPLATE,
+        snoozeSeconds,
       }
     } else {
       // infinite
@@ -117,39 +192,188 @@ export class FormHandler {
         enabled: alertEnabled,
         repeatCount: "infinite",
         waitBetweenRepeat,
-        utteranceTemplate: utteranceTemplate || "timer {timer name} has completed",
+        utteranceTemplate: utteranceTemplate || FormHandler.DEFAULT_UTTERANCE_TEMPLATE,
+        snoozeSeconds,
       }
     }
 
-    return config
+    return {
+      ...config,
+      ...(warnings.length > 0 ? { warnings } : {}),
+      ...this.getVoiceSettings(idSuffix),
+      ...this.getSoundSettings(idSuffix),
+    }
+  }
+
+  /**
+   * Read the alert style and alarm sound; a speech-only alert stores neither
+   */
+  private getSoundSettings(idSuffix: string): Partial<IAlertConfig> {
+    const styleSelect = document.getElementById(`alertStyle${idSuffix}`) as HTMLSelectElement | null
+    const soundSelect = document.getElementById(`alarmSound${idSuffix}`) as HTMLSelectElement | null
+    const alertStyle = styleSelect?.value as AlertStyle | undefined
+
+    if (!alertStyle || alertStyle === "speech") {
+      return {}
+    }
+
+    const sound = soundSelect?.value
+    return {
+      alertStyle,
+      sound: AlarmToneLibrary.isAlarmSound(sound) ? sound : "chime",
+    }
+  }
+
+  /**
+   * Read the voice picker and speech sliders; settings left at their defaults are omitted
+   * The voice's language is stored too, as a fallback on devices without that voice
+   */
+  private getVoiceSettings(idSuffix: string): Partial<IAlertConfig> {
+    const voiceSelect = document.getElementById(`voiceName${idSuffix}`) as HTMLSelectElement | null
+    const voiceName = voiceSelect?.value ?? ""
+    const voiceLang = voiceSelect?.selectedOptions[0]?.dataset.lang ?? ""
+
+    const readSlider = (id: string): number | undefined => {
+      const input = document.getElementById(`${id}${idSuffix}`) as HTMLInputElement | null
+      const value = parseFloat(input?.value ?? "")
+      return isNaN(value) || value === 1 ? undefined : value
+    }
+    const rate = readSlider("speechRate")
+    const pitch = readSlider("speechPitch")
+    const volume = readSlider("speechVolume")
+
+    return {
+      ...(voiceName ? { voiceName } : {}),
+      ...(voiceName && voiceLang ? { voiceLang } : {}),
+      ...(rate !== undefined ? { rate } : {}),
+      ...(pitch !== undefined ? { pitch } : {}),
+      ...(volume !== undefined ? { volume } : {}),
+    }
+  }
+
+  /**
+   * Speak the alert message once with the voice settings of the create form,
+   * or of a timer card in edit mode when a timer id is given
+   */
+  previewVoice(timerId?: number): void {
+    const idSuffix = timerId !== undefined ? `-${timerId}` : ""
+    const config = this.getAlertConfig(idSuffix)
+    if (!config) return
+
+    this.voiceService.previewAlert(this.getPreviewContext(timerId), config)
+  }
+
+  /**
+   * Play the selected alarm sound once at the selected volume
+   */
+  testSound(timerId?: number): void {
+    const idSuffix = timerId !== undefined ? `-${timerId}` : ""
+    const soundSelect = document.getElementById(`alarmSound${idSuffix}`) as HTMLSelectElement | null
+    const volumeInput = document.getElementById(
+      `speechVolume${idSuffix}`,
+    ) as HTMLInputElement | null
+    const sound = soundSelect?.value
+    const volume = parseFloat(volumeInput?.value ?? "")
+
+    this.voiceService.previewSound(
+      AlarmToneLibrary.isAlarmSound(sound) ? sound : "chime",
+      isNaN(volume) ? 1 : volume,
+    )
   }
 
-  setMode(mode: "countdown" | "countup"): void {
+  /**
+   * Template context from the form being filled in: the create form, or the
+   * timer card in edit mode when a timer id is given
+   */
+  private getPreviewContext(timerId?: number): IUtteranceContext {
+    if (timerId !== undefined) {
+      const labelInput = document.getElementById(`editLabel-${timerId}`) as HTMLInputElement | null
+      const context = this.utteranceContext.getContext(timerId)
+      const timerName = labelInput?.value?.trim() || context?.timerName || "Timer"
+      return context ? { ...context, timerName } : this.utteranceContext.getDraftContext(timerName)
+    }
+
+    const labelInput = document.getElementById("label") as HTMLInputElement | null
+    const timerName = labelInput?.value?.trim() || "Timer"
+
+    if (this.currentMode === "deadline") {
+      const deadlineInput = document.getElementById("deadlineAt") as HTMLInputElement | null
+      const targetAt = TimeFormatter.parseDateTimeLocal(deadlineInput?.value ?? "")
+      return this.utteranceContext.getDraftContext(
+        timerName,
+        undefined,
+        isNaN(targetAt) ? undefined : targetAt,
+      )
+    }
+
+    const timeInput = document.getElementById("timeFormat") as HTMLInputElement | null
+    const totalSeconds = TimeFormatter.parse(timeInput?.value?.trim() ?? "")
+    return this.utteranceContext.getDraftContext(timerName, totalSeconds ?? undefined)
+  }
+
+  /**
+   * Show what each alert message on the page will say, or which of its
+   * placeholders are unknown; preview elements carry the id suffix of their form
+   */
+  updateUtterancePreviews(): void {
+    document.querySelectorAll<HTMLElement>("[data-utterance-preview]").forEach((preview) => {
+      const idSuffix = preview.dataset.utterancePreview ?? ""
+      const templateInput = document.getElementById(
+        `utteranceTemplate${idSuffix}`,
+      ) as HTMLInputElement | null
+      if (!templateInput) return
+
+      const template = templateInput.value.trim() || FormHandler.DEFAULT_UTTERANCE_TEMPLATE
+      const unknown = UtteranceTemplate.findUnknownPlaceholders(template)
+      const timerId = idSuffix ? parseInt(idSuffix.slice(1), 10) : undefined
+
+      preview.classList.toggle("invalid", unknown.length > 0)
+      preview.textContent =
+        unknown.length > 0
+          ? `Unknown placeholder ${unknown.join(", ")}`
+          : `Will say: "${UtteranceTemplate.render(template, this.getPreviewContext(timerId))}"`
+    })
+  }
+
+  private updateVoiceOptions(): void {
+    const voiceSelect = document.getElementById("voiceName") as HTMLSelectElement | null
+    if (!voiceSelect) return
+
+    const selectedLang = voiceSelect.selectedOptions[0]?.dataset.lang ?? ""
+    voiceSelect.innerHTML = VoiceOptionFormatter.toHtml(
+      this.voiceService.getVoices(),
+      voiceSelect.value,
+      selectedLang,
+    )
+  }
+
+  setMode(mode: TimerState["type"]): void {
     this.currentMode = mode
 
-    const modeCountdown = document.getElementById("modeCountdown")
-    const modeCountup = document.getElementById("modeCountup")
-    const countdownInputs = document.getElementById("countdownInputs")
-    const countupInputs = document.getElementById("countupInputs")
+    document.getElementById("modeCountdown")?.classList.toggle("active", mode === "countdown")
+    document.getElementById("modeCountup")?.classList.toggle("active", mode === "countup")
+    document.getElementById("modeDeadline")?.classList.toggle("active", mode === "deadline")
+
+    // Deadlines share the countdown form, with a target time in place of the duration
+    this.setVisible("countdownInputs", mode !== "countup", "grid")
+    this.setVisible("countupInputs", mode === "countup", "grid")
+    this.setVisible("durationField", mode === "countdown")
+    this.setVisible("startAfterField", mode === "countdown")
+    this.setVisible("deadlineField", mode === "deadline")
+
+    const deadlineInput = document.getElementById("deadlineAt") as HTMLInputElement | null
+    if (mode === "deadline" && deadlineInput && !deadlineInput.value) {
+      // Suggest the next full hour
+      const nextHour = new Date()
+      nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0)
+      deadlineInput.value = TimeFormatter.toDateTimeLocal(nextHour.getTime())
+    }
+  }
 
-    if (mode === "countdown") {
-      modeCountdown?.classList.add("active")
-      modeCountup?.classList.remove("active")
-      if (countdownInputs) {
-        countdownInputs.style.display = "grid"
-      }
-      if (countupInputs) {
-        countupInputs.style.display = "none"
-      }
-    } else {
-      modeCountdown?.classList.remove("active")
-      modeCountup?.classList.add("active")
-      if (countdownInputs) {
-        countdownInputs.style.display = "none"
-      }
-      if (countupInputs) {
-        countupInputs.style.display = "grid"
-      }
+  private setVisible(elementId: string, visible: boolean, display: string = ""): void {
+    const element = document.getElementById(elementId)
+    if (element) {
+      element.style.display = visible ? display : "none"
     }
   }
 
@@ -204,35 +428,65 @@ export class FormHandler {
     }
   }
 
-  private parseTimeFormat(format: string): number | null {
-    const format_lower = format.toLowerCase().trim()
-
-    if (!format_lower) return null
-
-    let totalSeconds = 0
-    const dayMatch = format_lower.match(/(\d+)\s*d/)
-    const hourMatch = format_lower.match(/(\d+)\s*h/)
-    const minMatch = format_lower.match(/(\d+)\s*m/)
-    const secMatch = format_lower.match(/(\d+)\s*s/)
-
-    if (!dayMatch && !hourMatch && !minMatch && !secMatch) {
-      return null
+  /**
+   * Populate the "Start after" selects with the countdowns of the current dashboard
+   */
+  updateStartAfterOptions(): void {
+    const currentDashboard = this.dashboardService.getCurrentDashboard()
+    const countdowns = currentDashboard
+      ? this.timerService
+          .getAllTimers()
+          .filter(
+            (timer): timer is ICountdownTimerState =>
+              timer.type === "countdown" && currentDashboard.timerIds.includes(timer.id),
+          )
+      : []
+
+    const optionsHtml = [
+      '<option value="">Nothing (start manually)</option>',
+      ...countdowns.map(
+        (timer) =>
+          `<option value="${timer.id}">${HtmlSanitizer.escape(timer.label)}</option>`,
+      ),
+    ].join("")
+
+    for (const selectId of ["startAfter", "startAfterCountup"]) {
+      const select = document.getElementById(selectId) as HTMLSelectElement | null
+      if (!select) continue
+
+      const previousValue = select.value
+      select.innerHTML = optionsHtml
+      if (countdowns.some((timer) => String(timer.id) === previousValue)) {
+        select.value = previousValue
+      }
     }
+  }
 
-    if (dayMatch) {
-      totalSeconds += parseInt(dayMatch[1]) * 86400
+  /**
+   * Link a newly created timer after the countdown chosen in the given select
+   */
+  private linkToStartAfter(selectId: string, timerId: number): void {
+    const select = document.getElementById(selectId) as HTMLSelectElement | null
+    const predecessorId = select?.value ? parseInt(select.value, 10) : NaN
+    if (isNaN(predecessorId)) return
+
+    try {
+      this.timerService.linkTimers(predecessorId, timerId)
+    } catch (error) {
+      alert(`Could not add timer to sequence: ${error instanceof Error ? error.message : error}`)
     }
-    if (hourMatch) {
-      totalSeconds += parseInt(hourMatch[1]) * 3600
-    }
-    if (minMatch) {
-      totalSeconds += parseInt(minMatch[1]) * 60
-    }
-    if (secMatch) {
-      totalSeconds += parseInt(secMatch[1])
+
+    if (select) {
+      select.value = ""
     }
+  }
 
-    return totalSeconds
+  private createAlertingTimer(): void {
+    if (this.currentMode === "deadline") {
+      this.createDeadlineTimer()
+    } else if (this.currentMode === "countdown") {
+      this.createCountdownTimer()
+    }
   }
 
   private createCountdownTimer(): void {
@@ -264,7 +518,7 @@ export class FormHandler {
       return
     }
 
-    const totalSeconds = this.parseTimeFormat(timeFormat)
+    const totalSeconds = TimeFormatter.parse(timeFormat)
     if (totalSeconds === null || totalSeconds <= 0) {
       alert("Invalid time format. Use formats like: 2h3m4s, 5m, 30s")
       return
@@ -272,16 +526,135 @@ export class FormHandler {
 
     // Get alert configuration from form
     const alertConfig = this.getAlertConfig()
+    if (!alertConfig) return
 
     // Create timer with alert config
     const timer = this.timerService.createCountdownTimer(label, totalSeconds, alertConfig)
 
     this.dashboardService.addTimerToDashboard(currentDashboard.id, timer.id)
+    this.linkToStartAfter("startAfter", timer.id)
 
     labelInput.value = ""
     timeInput.value = ""
   }
 
+  private createDeadlineTimer(): void {
+    const currentDashboard = this.dashboardService.getCurrentDashboard()
+    if (!currentDashboard) {
+      alert("Please create or select a dashboard first")
+      return
+    }
+
+    const labelInput = document.getElementById("label") as HTMLInputElement
+    const deadlineInput = document.getElementById("deadlineAt") as HTMLInputElement
+
+    const label = labelInput?.value?.trim() || ""
+    if (!label) {
+      alert("Please enter a timer label")
+      return
+    }
+
+    if (!this.isLabelUnique(label, "deadline")) {
+      alert("A timer with this label already exists in the current dashboard")
+      return
+    }
+
+    const targetAt = TimeFormatter.parseDateTimeLocal(deadlineInput?.value || "")
+    if (isNaN(targetAt)) {
+      alert("Please choose a target date and time")
+      return
+    }
+
+    if (targetAt <= Date.now()) {
+      alert("The target time must be in the future")
+      return
+    }
+
+    const alertConfig = this.getAlertConfig()
+    if (!alertConfig) return
+
+    const timer = this.timerService.createDeadlineTimer(label, targetAt, alertConfig)
+    this.dashboardService.addTimerToDashboard(currentDashboard.id, timer.id)
+
+    labelInput.value = ""
+    deadlineInput.value = ""
+  }
+
+  /**
+   * Validate the inputs of a timer card in edit mode and apply them
+   * Returns true if the timer was updated
+   */
+  saveTimerEdit(timerId: number): boolean {
+    const timer = this.timerService.getTimer(timerId)
+    if (!timer) {
+      alert("This timer no longer exists")
+      return false
+    }
+
+    const labelInput = document.getElementById(`editLabel-${timerId}`) as HTMLInputElement | null
+    const label = labelInput?.value?.trim() || ""
+
+    if (!label) {
+      alert("Please enter a timer label")
+      return false
+    }
+
+    if (!this.isLabelUnique(label, timer.type, timerId)) {
+      alert("A timer with this label already exists in the current dashboard")
+      return false
+    }
+
+    if (timer.type === "countup") {
+      this.timerService.updateTimer(timerId, { label })
+      return true
+    }
+
+    if (timer.type === "deadline") {
+      const deadlineInput = document.getElementById(
+        `editDeadlineAt-${timerId}`,
+      ) as HTMLInputElement | null
+      const value = deadlineInput?.value || ""
+
+      // The input has minute precision, so only send a target the user actually changed
+      let targetAt: number | undefined
+      if (value !== TimeFormatter.toDateTimeLocal(timer.targetAt)) {
+        targetAt = TimeFormatter.parseDateTimeLocal(value)
+        if (isNaN(targetAt)) {
+          alert("Please choose a target date and time")
+          return false
+        }
+        if (targetAt <= Date.now()) {
+          alert("The target time must be in the future")
+          return false
+        }
+      }
+
+      const alertConfig = this.getAlertConfig(`-${timerId}`)
+      if (!alertConfig) return false
+
+      this.timerService.updateTimer(timerId, { label, targetAt, alertConfig })
+      return true
+    }
+
+    const timeInput = document.getElementById(`editTimeFormat-${timerId}`) as HTMLInputElement
+    const totalSeconds = TimeFormatter.parse(timeInput?.value?.trim() || "")
+    if (totalSeconds === null || totalSeconds <= 0) {
+      alert("Invalid time format. Use formats like: 2h3m4s, 5m, 30s")
+      return false
+    }
+
+    const adjustmentSelect = document.getElementById(
+      `editAdjustment-${timerId}`,
+    ) as HTMLSelectElement | null
+    const adjustment = adjustmentSelect?.value === "proportional" ? "proportional" : "absolute"
+
+    const alertConfig = this.getAlertConfig(`-${timerId}`)
+    if (!alertConfig) return false
+
+    this.timerService.updateTimer(timerId, { label, totalSeconds, alertConfig }, adjustment)
+    return true
+  }
+
   private createCountupTimer(): void {
     const currentDashboard = this.dashboardService.getCurrentDashboard()
     if (!currentDashboard) {
@@ -305,6 +678,7 @@ export class FormHandler {
 
     const timer = this.timerService.createCountupTimer(label)
     this.dashboardService.addTimerToDashboard(currentDashboard.id, timer.id)
+    this.linkToStartAfter("startAfterCountup", timer.id)
 
     labelCountupInput.value = ""
   }
@@ -323,7 +697,11 @@ export class FormHandler {
     this.updateDashboardButtonState()
   }
 
-  private isLabelUnique(label: string, type: "countdown" | "countup"): boolean {
+  private isLabelUnique(
+    label: string,
+    type: TimerState["type"],
+    excludeTimerId?: number,
+  ): boolean {
     const currentDashboard = this.dashboardService.getCurrentDashboard()
     if (!currentDashboard) {
       return true
@@ -332,6 +710,7 @@ export class FormHandler {
     const allTimers = this.timerService.getAllTimers()
     return !allTimers.some(
       (timer) =>
+        timer.id !== excludeTimerId &&
         timer.label === label &&
         timer.type === type &&
         currentDashboard.timerIds.includes(timer.id),
@@ -0,0 +1,92 @@
+/**
+ * QuietHoursUIHandler - Single Responsibility: Render and handle the do-not-disturb
+ * settings - the manual toggle, the quiet hours schedule and how alerts are toned down
+ */
+
+import { IDoNotDisturbService } from "../types/index"
+import { HtmlSanitizer } from "../utils/HtmlSanitizer"
+import { QuietHoursFormatter } from "../utils/QuietHoursFormatter"
+
+export class QuietHoursUIHandler {
+  constructor(private doNotDisturbService: IDoNotDisturbService) {}
+
+  renderSection(): string {
+    const settings = this.doNotDisturbService.getSettings()
+    const modeOption = (value: string, text: string) =>
+      `<option value="${value}" ${settings.mode === value ? "selected" : ""}>${text}</option>`
+
+    return `
+      <div class="quiet-hours-section">
+        <h3>🌙 Do Not Disturb</h3>
+
+        <div class="alert-config-group">
+          <label>
+            <input type="checkbox" id="dndEnabled" ${settings.enabled ? "checked" : ""} />
+            Do not disturb now
+          </label>
+          <label for="dndMode">While quiet:</label>
+          <select id="dndMode">
+            ${modeOption("chime", "Play a single chime")}
+            ${modeOption("visual", "Visual alert only")}
+          </select>
+        </div>
+
+        <div class="alert-config-group" style="grid-column: 1 / -1">
+          <label for="quietHours">Quiet Hours:</label>
+          <textarea id="quietHours" rows="2" placeholder="Mon-Fri 22:00-07:00&#10;Weekends 23:00-09:00">${HtmlSanitizer.escape(QuietHoursFormatter.format(settings.windows))}</textarea>
+          <small style="color: #666">One per line: days (Daily, Weekdays, Mon-Fri, Sat,Sun) and a time range</small>
+        </div>
+
+        <button class="btn btn-primary" id="saveQuietHoursBtn">💾 Save Quiet Hours</button>
+        <small id="dndStatus" class="dnd-status"></small>
+      </div>
+    `
+  }
+
+  attachEventListeners(): void {
+    const enabledInput = document.getElementById("dndEnabled") as HTMLInputElement | null
+    const saveBtn = document.getElementById("saveQuietHoursBtn")
+
+    // The manual toggle applies at once; the schedule on save
+    enabledInput?.addEventListener("change", () => {
+      this.doNotDisturbService.updateSettings({
+        ...this.doNotDisturbService.getSettings(),
+        enabled: enabledInput.checked,
+      })
+      this.updateStatus()
+    })
+
+    saveBtn?.addEventListener("click", () => this.save())
+  }
+
+  private save(): void {
+    const quietHoursInput = document.getElementById("quietHours") as HTMLTextAreaElement | null
+    const modeSelect = document.getElementById("dndMode") as HTMLSelectElement | null
+
+    try {
+      const windows = QuietHoursFormatter.parse(quietHoursInput?.value ?? "")
+      this.doNotDisturbService.updateSettings({
+        ...this.doNotDisturbService.getSettings(),
+        windows,
+        mode: modeSelect?.value === "visual" ? "visual" : "chime",
+      })
+      if (quietHoursInput) {
+        quietHoursInput.value = QuietHoursFormatter.format(windows)
+      }
+      this.updateStatus()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  /**
+   * Show whether alerts are toned down right now; quiet hours start and end on
+   * their own, so this is refreshed with the timers
+   */
+  updateStatus(): void {
+    const status = document.getElementById("dndStatus")
+    if (status) {
+      status.textContent = this.doNotDisturbService.isQuiet() ? "Alerts are quiet now" : ""
+    }
+  }
+}
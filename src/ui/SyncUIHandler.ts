@@ -2,58 +2,136 @@
  * SyncUIHandler - Single Responsibility: Render and handle remote manifest sync UI
  */
 
-import { ManifestRepository } from "../services/ManifestRepository"
+import { ManifestRepository, IRemoteOptions } from "../services/ManifestRepository"
+import {
+  IFieldChange,
+  IMergeOptions,
+  IMergeSummary,
+  ManifestChange,
+  ManifestMergeService,
+} from "../services/ManifestMergeService"
+import { ISyncStatus, ISyncStatusObserver } from "../services/ManifestSyncScheduler"
+import { IManifestIssue, ManifestValidationError } from "../services/ManifestValidator"
+import { IManifestSource, ManifestSourceRegistry } from "../services/ManifestSourceRegistry"
+import { ManifestFormat, ManifestFormatConverter } from "../services/ManifestFormatConverter"
+import { TimeFormatter } from "../utils/TimeFormatter"
+import type { IDashboard } from "../types/index"
 
-export class SyncUIHandler {
-  constructor(private repository: ManifestRepository) {}
+export interface IManifestLoadResult {
+  /** Null when the changes were rejected */
+  readonly summary: IMergeSummary | null
+  /** Problems with a manifest that loaded anyway */
+  readonly warnings: readonly IManifestIssue[]
+}
+
+/**
+ * What the sync section asks the application to do
+ */
+export interface ISyncUIActions {
+  /** A source was added, edited, enabled or disabled */
+  onSourcesChanged(): void
+  onLoad(sourceId: string, options: IMergeOptions): Promise<IManifestLoadResult>
+  onPush(sourceId: string): Promise<void>
+  onRemove(sourceId: string): void
+  onExport(format: ManifestFormat): void
+  onImport(file: File, options: IMergeOptions): Promise<IManifestLoadResult>
+}
+
+export class SyncUIHandler implements ISyncStatusObserver {
+  private statuses: Map<string, ISyncStatus> = new Map()
+  private sourceListHtml = ""
+  private hideMessageTimeout: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private sources: ManifestSourceRegistry) {}
 
   /**
    * Render sync configuration section
    */
   renderConfigSection(): string {
-    const status = this.repository.getSyncStatus()
-    const url = status.url || ""
-    const syncInfo = status.lastSyncTime ? `Last synced: ${status.lastSyncTime}` : "Not synced yet"
-
     return `
       <div class="sync-config-section">
         <h3>📤 Dashboard Sync Configuration</h3>
 
+        <div id="manifestSourceList" class="manifest-source-list"></div>
+
         <div class="sync-config-form">
+          <input type="hidden" id="manifestSourceId" value="" />
+
+          <div class="input-field">
+            <label for="manifestSourceName">Source Name</label>
+            <input type="text" id="manifestSourceName" placeholder="Kitchen, Personal..." />
+          </div>
+
           <div class="input-field" style="grid-column: 1 / -1">
-            <label for="manifestUrl">Manifest URL or Local File</label>
+            <label for="manifestUrl">Manifest URL</label>
             <input
               type="text"
               id="manifestUrl"
-              placeholder="Enter URL (https://...) or click 'Load' to select a local file"
-              value="${this.escapeHtml(url)}"
+              placeholder="Enter URL (https://...)"
               class="manifest-url-input"
             />
             <small style="color: #666; margin-top: 5px; display: block">
-              Save a URL to sync dashboards across devices, or load a local manifest file
+              Add a manifest source for each manifest this device follows, e.g. a shared one and a personal one
             </small>
           </div>
 
+          <div class="input-field">
+            <label for="pushAs">Push As</label>
+            <select id="pushAs">
+              <option value="">Auto-detect</option>
+              <option value="jsonbin">JSONBin (PUT to the bin)</option>
+              <option value="PUT">JSON via PUT</option>
+              <option value="POST">JSON via POST</option>
+            </select>
+          </div>
+
+          <div class="input-field">
+            <label for="authHeaderName">Auth Header</label>
+            <input type="text" id="authHeaderName" placeholder="X-Master-Key or Authorization" />
+          </div>
+
+          <div class="input-field">
+            <label for="authHeaderValue">Auth Value</label>
+            <input type="password" id="authHeaderValue" autocomplete="off" />
+          </div>
+
           <div class="sync-button-group">
             <button class="btn btn-primary" id="saveManifestUrlBtn">
-              💾 Save URL
+              ➕ Add Source
+            </button>
+            <button class="btn btn-secondary" id="cancelSourceEditBtn" style="display: none">
+              ✖ Cancel
             </button>
-            <button class="btn btn-primary" id="loadManifestBtn">
-              📥 Load
+            <button class="btn btn-secondary" id="importFileBtn">
+              📂 Import File
             </button>
             <button class="btn btn-secondary" id="exportBtn">
               💾 Export
             </button>
-            <button class="btn btn-danger" id="clearSyncBtn" ${status.isConfigured ? "" : "disabled"}>
-              🗑️ Clear
-            </button>
+            <select id="exportFormatSelect" title="Format of exported files">
+              ${this.renderFormatOptions()}
+            </select>
+            <a
+              class="btn btn-secondary"
+              href="${ManifestRepository.SCHEMA_FILE}"
+              download
+              title="JSON Schema for editing manifests by hand"
+            >
+              📐 Schema
+            </a>
           </div>
 
-          <input type="file" id="fileInput" style="display: none" />
+          <label style="grid-column: 1 / -1">
+            <input type="checkbox" id="removeMissingCheckbox" />
+            Remove dashboards and timers deleted from the manifest
+          </label>
 
-          <div class="sync-status">
-            <small style="color: #999">✓ ${syncInfo}</small>
-          </div>
+          <input
+            type="file"
+            id="fileInput"
+            accept="${ManifestFormatConverter.getAcceptedExtensions()}"
+            style="display: none"
+          />
         </div>
 
         <div id="syncMessage" style="display: none; margin-top: 10px"></div>
@@ -64,74 +142,111 @@ export class SyncUIHandler {
   /**
    * Attach event listeners for sync configuration
    */
-  attachEventListeners(
-    onSaveUrl: (url: string) => Promise<void>,
-    onLoad: () => Promise<void>,
-    onClear: () => void,
-    onExport: () => void,
-    onImport: (file: File) => Promise<void>,
-  ): void {
-    const urlInput = document.getElementById("manifestUrl") as HTMLInputElement | null
+  attachEventListeners(actions: ISyncUIActions): void {
     const saveBtn = document.getElementById("saveManifestUrlBtn") as HTMLButtonElement | null
-    const loadBtn = document.getElementById("loadManifestBtn") as HTMLButtonElement | null
-    const clearBtn = document.getElementById("clearSyncBtn") as HTMLButtonElement | null
+    const cancelBtn = document.getElementById("cancelSourceEditBtn") as HTMLButtonElement | null
+    const importBtn = document.getElementById("importFileBtn") as HTMLButtonElement | null
     const exportBtn = document.getElementById("exportBtn") as HTMLButtonElement | null
+    const exportFormatSelect = document.getElementById(
+      "exportFormatSelect",
+    ) as HTMLSelectElement | null
     const fileInput = document.getElementById("fileInput") as HTMLInputElement
+    const sourceList = document.getElementById("manifestSourceList")
+    const removeMissingCheckbox = document.getElementById(
+      "removeMissingCheckbox",
+    ) as HTMLInputElement | null
+    const getMergeOptions = (): IMergeOptions => ({
+      removeMissing: removeMissingCheckbox?.checked ?? false,
+    })
 
     saveBtn?.addEventListener("click", async () => {
-      const url = urlInput?.value.trim()
+      const { id, name, url } = this.getSourceForm()
 
       if (!url) {
         this.showMessage("Please enter a manifest URL", "error")
         return
       }
 
+      let source: IManifestSource
+      try {
+        const remoteOptions = this.getRemoteOptions()
+        source = id
+          ? this.sources.updateSource(id, { name, rawUrl: url, remoteOptions })
+          : this.sources.addSource(name, url, remoteOptions)
+        this.fillSourceForm(null)
+        actions.onSourcesChanged()
+        this.showMessage(`✓ Manifest source "${source.name}" saved`, "success")
+      } catch (error) {
+        this.showError("Error", error)
+        return
+      }
+
+      // Try to load the manifest right away
       try {
-        this.repository.saveManifestUrl(url)
-        this.showMessage("✓ Manifest URL saved successfully!", "success")
-        await onSaveUrl(url)
+        this.showSummary("Loaded", await actions.onLoad(source.id, getMergeOptions()))
       } catch (error) {
-        this.showMessage(
-          `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-          "error",
-        )
+        if (error instanceof ManifestValidationError) {
+          this.showError("Error loading", error)
+        } else {
+          console.log("Auto-fetch skipped (may not have dashboards yet)")
+        }
       }
     })
 
-    loadBtn?.addEventListener("click", async () => {
-      const url = urlInput?.value.trim()
-
-      // If URL provided and valid, load from URL
-      if (url && this.isValidManifestUrl(url)) {
-        try {
-          this.setButtonLoading(loadBtn, true)
-          this.showMessage("Loading from URL...", "info")
-          await onLoad()
-          this.showMessage("✓ Successfully loaded dashboards!", "success")
-        } catch (error) {
-          this.showMessage(
-            `Error loading: ${error instanceof Error ? error.message : "Unknown error"}`,
-            "error",
+    cancelBtn?.addEventListener("click", () => this.fillSourceForm(null))
+
+    // The source list is re-rendered, so its buttons are handled here
+    sourceList?.addEventListener("click", async (event) => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>(
+        "button[data-source-action]",
+      )
+      const sourceId = button?.dataset.sourceId
+      const source = sourceId ? this.sources.getSource(sourceId) : null
+      if (!button || !source) return
+
+      switch (button.dataset.sourceAction) {
+        case "load":
+          await this.runSourceAction(button, "Loading from URL...", "Error loading", async () =>
+            this.showSummary("Loaded", await actions.onLoad(source.id, getMergeOptions())),
           )
-        } finally {
-          this.setButtonLoading(loadBtn, false)
+          break
+        case "push": {
+          const question = `Replace the "${source.name}" manifest with the dashboards on this device?`
+          if (!confirm(question)) return
+          await this.runSourceAction(button, "Pushing dashboards...", "Push error", async () => {
+            await actions.onPush(source.id)
+            this.showMessage(`✓ Pushed dashboards to "${source.name}"`, "success")
+          })
+          break
+        }
+        case "edit":
+          this.fillSourceForm(source)
+          break
+        case "remove": {
+          const question = `Remove "${source.name}"? Dashboards loaded from it are deleted here.`
+          if (confirm(question)) {
+            this.statuses.delete(source.id)
+            actions.onRemove(source.id)
+            this.showMessage(`✓ Removed "${source.name}"`, "info")
+          }
+          break
         }
-      } else {
-        // Open file picker for local file
-        fileInput?.click()
       }
     })
 
-    clearBtn?.addEventListener("click", () => {
-      if (confirm("Are you sure? This will clear the sync configuration.")) {
-        this.repository.clearRemoteConfig()
-        if (urlInput) urlInput.value = ""
-        this.showMessage("✓ Configuration cleared", "info")
-        onClear()
-      }
+    sourceList?.addEventListener("change", (event) => {
+      const toggle = event.target as HTMLInputElement
+      const sourceId = toggle.dataset.sourceToggle
+      if (!sourceId) return
+
+      this.sources.updateSource(sourceId, { enabled: toggle.checked })
+      actions.onSourcesChanged()
     })
 
-    exportBtn?.addEventListener("click", onExport)
+    importBtn?.addEventListener("click", () => fileInput?.click())
+    exportBtn?.addEventListener("click", () =>
+      actions.onExport((exportFormatSelect?.value as ManifestFormat) || "json"),
+    )
 
     fileInput?.addEventListener("change", async (event) => {
       const input = event.target as HTMLInputElement
@@ -140,26 +255,428 @@ export class SyncUIHandler {
       if (!file) return
 
       try {
-        this.setButtonLoading(loadBtn, true)
+        this.setButtonLoading(importBtn, true)
         this.showMessage("Importing dashboards from file...", "info")
-        await onImport(file)
-        this.showMessage("✓ Dashboards imported successfully!", "success")
+        this.showSummary("Imported", await actions.onImport(file, getMergeOptions()))
       } catch (error) {
-        this.showMessage(
-          `Import error: ${error instanceof Error ? error.message : "Unknown error"}`,
-          "error",
-        )
+        this.showError("Import error", error)
       } finally {
-        this.setButtonLoading(loadBtn, false)
+        this.setButtonLoading(importBtn, false)
         input.value = "" // Clear file input
       }
     })
   }
 
+  /**
+   * List the manifest sources with their sync status and the dashboards loaded
+   * from each; dashboards imported from files are grouped by file
+   */
+  renderSourceList(dashboards: readonly IDashboard[]): void {
+    const container = document.getElementById("manifestSourceList")
+    if (!container) return
+
+    const bySource = new Map<string, IDashboard[]>()
+    dashboards.forEach((dashboard) => {
+      const sourceId = ManifestMergeService.getSourceId(dashboard)
+      if (sourceId) bySource.set(sourceId, [...(bySource.get(sourceId) ?? []), dashboard])
+    })
+
+    const rows = this.sources
+      .getSources()
+      .map((source) => this.renderSourceRow(source, bySource.get(source.id) ?? []))
+    const fileRows = Array.from(bySource.entries())
+      .filter(([sourceId]) => sourceId.startsWith(ManifestSourceRegistry.FILE_SOURCE_PREFIX))
+      .map(
+        ([sourceId, fileDashboards]) => `
+          <div class="manifest-source manifest-source-file">
+            <div class="manifest-source-header">
+              <strong>📄 ${this.escapeHtml(this.getFileName(sourceId))}</strong>
+            </div>
+            ${this.renderSourceDashboards(fileDashboards)}
+          </div>
+        `,
+      )
+
+    const html =
+      rows.length + fileRows.length > 0
+        ? [...rows, ...fileRows].join("")
+        : `<p class="manifest-source-empty">No manifest sources yet - add one below</p>`
+
+    // Rendered on every tick, so only touch the DOM when something changed
+    if (html !== this.sourceListHtml) {
+      this.sourceListHtml = html
+      container.innerHTML = html
+    }
+  }
+
+  private renderFormatOptions(): string {
+    return Object.entries(ManifestFormatConverter.FORMATS)
+      .map(([format, info]) => `<option value="${format}">${info.label}</option>`)
+      .join("")
+  }
+
+  private getFileName(fileSourceId: string): string {
+    return fileSourceId.slice(ManifestSourceRegistry.FILE_SOURCE_PREFIX.length)
+  }
+
+  private renderSourceRow(source: IManifestSource, dashboards: readonly IDashboard[]): string {
+    const url = this.sources.getRepository(source.id).getRemoteConfig()?.rawUrl ?? ""
+    const status = this.statuses.get(source.id)
+    const action = (name: string, text: string, disabled: boolean = false) => `
+      <button
+        class="btn btn-secondary"
+        data-source-action="${name}"
+        data-source-id="${this.escapeHtml(source.id)}"
+        ${disabled ? "disabled" : ""}
+      >${text}</button>
+    `
+
+    return `
+      <div class="manifest-source ${source.enabled ? "" : "manifest-source-disabled"}">
+        <div class="manifest-source-header">
+          <label>
+            <input
+              type="checkbox"
+              data-source-toggle="${this.escapeHtml(source.id)}"
+              title="Sync this source"
+              ${source.enabled ? "checked" : ""}
+            />
+            <strong>${this.escapeHtml(source.name)}</strong>
+          </label>
+          <small class="manifest-source-url">${this.escapeHtml(url)}</small>
+        </div>
+        <small
+          data-source-status="${this.escapeHtml(source.id)}"
+          class="sync-state ${status && source.enabled ? `sync-state-${status.state}` : ""}"
+        >${source.enabled ? this.escapeHtml(this.describeSyncStatus(status)) : "⏸ Paused"}</small>
+        ${this.renderSourceDashboards(dashboards)}
+        <div class="manifest-source-actions">
+          ${action("load", "📥 Load", !source.enabled)}
+          ${action("push", "📤 Push", !source.enabled)}
+          ${action("edit", "✏️ Edit")}
+          ${action("remove", "🗑️ Remove")}
+        </div>
+      </div>
+    `
+  }
+
+  private renderSourceDashboards(dashboards: readonly IDashboard[]): string {
+    if (dashboards.length === 0) return ""
+    const names = dashboards.map((dashboard) => `📋 ${this.escapeHtml(dashboard.name)}`)
+    return `<div class="manifest-source-dashboards">${names.join(" · ")}</div>`
+  }
+
+  /**
+   * Fill the form with a source to edit it, or clear it to add a new one
+   */
+  private fillSourceForm(source: IManifestSource | null): void {
+    const config = source ? this.sources.getRepository(source.id).getRemoteConfig() : null
+    const pushAs = config?.endpointStyle === "jsonbin" ? "jsonbin" : (config?.pushMethod ?? "")
+    const setValue = (id: string, value: string) => {
+      const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null
+      if (input) input.value = value
+    }
+
+    setValue("manifestSourceId", source?.id ?? "")
+    setValue("manifestSourceName", source?.name ?? "")
+    setValue("manifestUrl", config?.rawUrl ?? "")
+    setValue("pushAs", pushAs)
+    setValue("authHeaderName", config?.authHeaderName ?? "")
+    setValue("authHeaderValue", config?.authHeaderValue ?? "")
+
+    const saveBtn = document.getElementById("saveManifestUrlBtn")
+    const cancelBtn = document.getElementById("cancelSourceEditBtn")
+    if (saveBtn) saveBtn.textContent = source ? "💾 Save Source" : "➕ Add Source"
+    if (cancelBtn) cancelBtn.style.display = source ? "" : "none"
+  }
+
+  private getSourceForm(): { id: string; name: string; url: string } {
+    const valueOf = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ?? ""
+    return {
+      id: valueOf("manifestSourceId"),
+      name: valueOf("manifestSourceName"),
+      url: valueOf("manifestUrl"),
+    }
+  }
+
+  private async runSourceAction(
+    button: HTMLButtonElement,
+    progress: string,
+    errorPrefix: string,
+    run: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      this.setButtonLoading(button, true)
+      this.showMessage(progress, "info")
+      await run()
+    } catch (error) {
+      this.showError(errorPrefix, error)
+    } finally {
+      this.setButtonLoading(button, false)
+    }
+  }
+
+  /**
+   * Show the live background sync status of a source in its row
+   */
+  onSyncStatusChanged(status: ISyncStatus): void {
+    this.statuses.set(status.sourceId, status)
+
+    const element = document.querySelector<HTMLElement>(
+      `[data-source-status="${CSS.escape(status.sourceId)}"]`,
+    )
+    if (!element) return
+
+    element.textContent = this.describeSyncStatus(status)
+    element.className = `sync-state sync-state-${status.state}`
+  }
+
+  private describeSyncStatus(status: ISyncStatus | undefined): string {
+    if (!status) return "Not synced yet"
+
+    const at = (timestamp: number) => TimeFormatter.formatClockTime(timestamp)
+    const lastSynced = status.lastSyncedAt ? ` (last synced ${at(status.lastSyncedAt)})` : ""
+
+    switch (status.state) {
+      case "idle":
+        return "Not synced yet"
+      case "syncing":
+        return "⟳ Syncing..."
+      case "synced":
+        return `✓ Synced at ${at(status.lastSyncedAt ?? Date.now())}`
+      case "stale": {
+        const count = status.pendingChanges
+        return `⚠ ${count} change${count === 1 ? "" : "s"} from the manifest need review - press Load`
+      }
+      case "offline":
+        return `📴 ${status.message ?? "Offline"}${lastSynced}`
+      case "error": {
+        const retry = status.nextSyncAt ? ` - retrying at ${at(status.nextSyncAt)}` : ""
+        return `✖ Sync failed: ${status.message ?? "Unknown error"}${retry}`
+      }
+    }
+  }
+
+  /**
+   * Read the endpoint and auth settings saved along with the URL
+   */
+  private getRemoteOptions(): IRemoteOptions {
+    const valueOf = (id: string) =>
+      (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value ?? ""
+    const pushAs = valueOf("pushAs")
+    const authHeaderName = valueOf("authHeaderName").trim()
+    const authHeaderValue = valueOf("authHeaderValue")
+
+    return {
+      ...(pushAs === "jsonbin" ? { endpointStyle: "jsonbin" as const } : {}),
+      ...(pushAs === "PUT" || pushAs === "POST"
+        ? { endpointStyle: "generic" as const, pushMethod: pushAs }
+        : {}),
+      ...(authHeaderName && authHeaderValue ? { authHeaderName, authHeaderValue } : {}),
+    }
+  }
+
+  /**
+   * Show the outcome of a load; a null summary means the changes were rejected
+   */
+  private showSummary(action: string, result: IManifestLoadResult): void {
+    if (!result.summary) {
+      this.showMessage("Changes rejected - nothing was loaded", "info", result.warnings)
+      return
+    }
+    const description = ManifestMergeService.describe(result.summary)
+    this.showMessage(`✓ ${action}: ${description}`, "success", result.warnings)
+  }
+
+  /**
+   * Show an error; an invalid manifest lists everything wrong with it
+   */
+  private showError(prefix: string, error: unknown): void {
+    if (error instanceof ManifestValidationError) {
+      const count = error.issues.filter((issue) => issue.severity === "error").length
+      const problems = `${count} problem${count === 1 ? "" : "s"}`
+      this.showMessage(`${prefix}: the manifest has ${problems}`, "error", error.issues)
+      return
+    }
+    const message = error instanceof Error ? error.message : "Unknown error"
+    this.showMessage(`${prefix}: ${message}`, "error")
+  }
+
+  /**
+   * Show the changes a manifest would make in a dialog
+   * Resolves with the changes to apply, or null when they are rejected
+   */
+  reviewChanges(changes: readonly ManifestChange[]): Promise<ManifestChange[] | null> {
+    const overlay = document.createElement("div")
+    overlay.className = "manifest-review-overlay"
+    overlay.innerHTML = this.renderReviewDialog(changes)
+    document.body.appendChild(overlay)
+
+    const checkboxes = Array.from(
+      overlay.querySelectorAll<HTMLInputElement>("input[data-change-index]"),
+    )
+
+    // Timers of a new dashboard can only be added along with it
+    checkboxes.forEach((checkbox) =>
+      checkbox.addEventListener("change", () => {
+        overlay
+          .querySelectorAll<HTMLInputElement>(
+            `input[data-depends-on="${checkbox.dataset.changeIndex}"]`,
+          )
+          .forEach((dependent) => {
+            dependent.disabled = !checkbox.checked
+          })
+      }),
+    )
+
+    return new Promise((resolve) => {
+      const close = (accepted: ManifestChange[] | null) => {
+        document.removeEventListener("keydown", onKeydown)
+        overlay.remove()
+        resolve(accepted)
+      }
+      const onKeydown = (event: KeyboardEvent) => {
+        if (event.key === "Escape") close(null)
+      }
+      document.addEventListener("keydown", onKeydown)
+
+      overlay.querySelectorAll<HTMLButtonElement>("[data-review-action]").forEach((button) =>
+        button.addEventListener("click", () => {
+          const action = button.dataset.reviewAction
+          if (action === "reject") {
+            close(null)
+          } else if (action === "all") {
+            close([...changes])
+          } else {
+            const selected = checkboxes
+              .filter((checkbox) => checkbox.checked && !checkbox.disabled)
+              .map((checkbox) => changes[Number(checkbox.dataset.changeIndex)])
+            close(selected)
+          }
+        }),
+      )
+      overlay.querySelector<HTMLButtonElement>('[data-review-action="all"]')?.focus()
+    })
+  }
+
+  private renderReviewDialog(changes: readonly ManifestChange[]): string {
+    const dashboardAdded = new Map<string, number>()
+    let group: string | null = null
+    const rows = changes.map((change, index) => {
+      if (change.kind === "dashboard-added") {
+        dashboardAdded.set(change.manifestDashboardId, index)
+      }
+      const dependsOn =
+        change.kind === "timer-added" ? dashboardAdded.get(change.manifestDashboardId) : undefined
+
+      // Changes come grouped by dashboard, so a heading starts each group
+      const changeGroup = this.getChangeGroup(change)
+      const heading = changeGroup !== group ? `<h4>📋 ${this.escapeHtml(changeGroup)}</h4>` : ""
+      group = changeGroup
+
+      return `
+        ${heading}
+        <label class="manifest-change manifest-change-${change.kind.split("-")[1]}">
+          <input
+            type="checkbox"
+            checked
+            data-change-index="${index}"
+            ${dependsOn !== undefined ? `data-depends-on="${dependsOn}"` : ""}
+          />
+          <span>${this.describeChange(change)}</span>
+        </label>
+        ${change.kind === "timer-updated" ? this.renderFieldChanges(change.fields) : ""}
+      `
+    })
+
+    return `
+      <div class="manifest-review-dialog" role="dialog" aria-modal="true" aria-labelledby="manifestReviewTitle">
+        <h3 id="manifestReviewTitle">🔍 Review Manifest Changes</h3>
+        <p>${changes.length} change${changes.length === 1 ? "" : "s"} - untick any you do not want to apply.</p>
+        <div class="manifest-review-list">${rows.join("")}</div>
+        <div class="sync-button-group">
+          <button class="btn btn-secondary" data-review-action="reject">✖ Reject</button>
+          <button class="btn btn-primary" data-review-action="selected">Apply Selected</button>
+          <button class="btn btn-primary" data-review-action="all">✓ Accept All</button>
+        </div>
+      </div>
+    `
+  }
+
+  private getChangeGroup(change: ManifestChange): string {
+    switch (change.kind) {
+      case "dashboard-added":
+      case "dashboard-removed":
+        return change.name
+      case "dashboard-renamed":
+        return change.from
+      default:
+        return change.dashboardName
+    }
+  }
+
+  private describeChange(change: ManifestChange): string {
+    switch (change.kind) {
+      case "dashboard-added":
+        return `Add dashboard <strong>${this.escapeHtml(change.name)}</strong>`
+      case "dashboard-renamed":
+        return `Rename dashboard to <strong>${this.escapeHtml(change.to)}</strong>`
+      case "dashboard-removed":
+        return `Remove dashboard <strong>${this.escapeHtml(change.name)}</strong> and its timers`
+      case "timer-added": {
+        const details =
+          change.timer.type === "countdown" && change.timer.totalSeconds
+            ? `, ${TimeFormatter.format(change.timer.totalSeconds)}`
+            : ""
+        return `Add ${change.timer.type} timer <strong>${this.escapeHtml(change.timer.label)}</strong>${details}`
+      }
+      case "timer-updated":
+        return `Update timer <strong>${this.escapeHtml(change.timer.label)}</strong>`
+      case "timer-removed":
+        return `Remove timer <strong>${this.escapeHtml(change.label)}</strong>`
+    }
+  }
+
+  private renderFieldChanges(fields: readonly IFieldChange[]): string {
+    const items = fields.map(
+      (fieldChange) => `
+        <li>
+          ${this.escapeHtml(this.getFieldName(fieldChange.field))}:
+          <del>${this.escapeHtml(this.formatFieldValue(fieldChange.field, fieldChange.from))}</del>
+          → <ins>${this.escapeHtml(this.formatFieldValue(fieldChange.field, fieldChange.to))}</ins>
+        </li>
+      `,
+    )
+    return `<ul class="manifest-change-fields">${items.join("")}</ul>`
+  }
+
+  private getFieldName(field: string): string {
+    const names: Record<string, string> = {
+      label: "Label",
+      totalSeconds: "Duration",
+      targetAt: "Target time",
+      nextTimer: "Then start",
+    }
+    return names[field] ?? `Alert ${field.replace(/^alertConfig\./, "")}`
+  }
+
+  private formatFieldValue(field: string, value: unknown): string {
+    if (field === "nextTimer") return typeof value === "string" ? value : "nothing"
+    if (value === undefined) return "default"
+    if (field === "totalSeconds") return TimeFormatter.format(Number(value))
+    if (field === "targetAt") return new Date(Number(value)).toLocaleString()
+    return typeof value === "object" ? JSON.stringify(value) : String(value)
+  }
+
   /**
    * Show status message
    */
-  private showMessage(message: string, type: "success" | "error" | "info"): void {
+  private showMessage(
+    message: string,
+    type: "success" | "error" | "info",
+    issues: readonly IManifestIssue[] = [],
+  ): void {
     const messageDiv = document.getElementById("syncMessage")
     if (!messageDiv) return
 
@@ -167,8 +684,28 @@ export class SyncUIHandler {
     messageDiv.className = `sync-status-message sync-status-${type}`
     messageDiv.style.display = "block"
 
-    if (type !== "error") {
-      setTimeout(() => {
+    if (issues.length > 0) {
+      const list = document.createElement("ul")
+      list.className = "manifest-issues"
+      issues.forEach((issue) => {
+        const item = document.createElement("li")
+        item.className = `manifest-issue manifest-issue-${issue.severity}`
+        const pointer = document.createElement("code")
+        pointer.textContent = issue.pointer || "/"
+        item.append(issue.severity === "error" ? "✖ " : "⚠ ", pointer, ` ${issue.message}`)
+        list.appendChild(item)
+      })
+      messageDiv.appendChild(list)
+    }
+
+    // A newer message replaces the old one, so the old one must not hide it
+    if (this.hideMessageTimeout !== null) {
+      clearTimeout(this.hideMessageTimeout)
+      this.hideMessageTimeout = null
+    }
+    // Errors and lists of issues stay until the next message
+    if (type !== "error" && issues.length === 0) {
+      this.hideMessageTimeout = setTimeout(() => {
         messageDiv.style.display = "none"
       }, 3000)
     }
@@ -188,18 +725,6 @@ export class SyncUIHandler {
     }
   }
 
-  /**
-   * Validate manifest URL format
-   */
-  private isValidManifestUrl(url: string): boolean {
-    try {
-      const urlObj = new URL(url)
-      return urlObj.protocol === "http:" || urlObj.protocol === "https:"
-    } catch {
-      return false
-    }
-  }
-
   /**
    * Escape HTML to prevent XSS
    */
@@ -0,0 +1,159 @@
+/**
+ * TabStatusRenderer - Single Responsibility: Show the most urgent timer in the
+ * browser tab, as the document title and a progress favicon
+ * Implements ITimerObserver so the tab stays current while the page is hidden
+ */
+
+import type { ITimerObserver, ITimerService, TimerState, AlertingTimerState } from "../types/index"
+import { TimeFormatter } from "../utils/TimeFormatter"
+
+export class TabStatusRenderer implements ITimerObserver {
+  private static readonly FAVICON_SIZE = 64
+  /** Progress is drawn in steps so the favicon is not redrawn on every tick */
+  private static readonly PROGRESS_STEPS = 48
+  /** Deadlines have no duration; their ring fills over the final hour */
+  private static readonly DEADLINE_PROGRESS_SECONDS = 3600
+
+  private timerService: ITimerService
+  private baseTitle: string
+  private faviconKey = ""
+  private originalFaviconHref: string | null
+
+  constructor(timerService: ITimerService) {
+    this.timerService = timerService
+    this.baseTitle = document.title
+    this.originalFaviconHref = this.getFaviconLink()?.href ?? null
+    this.update()
+  }
+
+  update(): void {
+    const timers = this.timerService
+      .getAllTimers()
+      .filter((timer): timer is AlertingTimerState => timer.type !== "countup")
+
+    const finished = timers.filter((timer) => timer.isFinished && !timer.isAcknowledged)
+    if (finished.length > 0) {
+      const others = finished.length > 1 ? ` (+${finished.length - 1})` : ""
+      document.title = `⏰ ${finished[0].label} finished${others} – ${this.baseTitle}`
+      this.setFavicon("alarm", (context) => this.drawAlarm(context))
+      return
+    }
+
+    // The soonest-finishing running timer
+    const next = timers
+      .filter((timer) => timer.isRunning && !timer.isFinished)
+      .sort((a, b) => a.remainingSeconds - b.remainingSeconds)[0]
+
+    if (!next) {
+      document.title = this.baseTitle
+      this.restoreFavicon()
+      return
+    }
+
+    const remaining = TimeFormatter.format(next.remainingSeconds)
+    document.title = `${remaining} ${next.label} – ${this.baseTitle}`
+
+    const step = Math.floor(this.getProgress(next) * TabStatusRenderer.PROGRESS_STEPS)
+    this.setFavicon(`progress-${step}`, (context) =>
+      this.drawProgress(context, step / TabStatusRenderer.PROGRESS_STEPS),
+    )
+  }
+
+  /**
+   * Share of the timer that has elapsed, from 0 to 1
+   */
+  private getProgress(timer: AlertingTimerState): number {
+    const total =
+      timer.type === "countdown" ? timer.totalSeconds : TabStatusRenderer.DEADLINE_PROGRESS_SECONDS
+    if (total <= 0) return 1
+    return Math.min(1, Math.max(0, 1 - timer.remainingSeconds / total))
+  }
+
+  private setFavicon(key: string, draw: (context: CanvasRenderingContext2D) => void): void {
+    if (key === this.faviconKey) return
+
+    const canvas = document.createElement("canvas")
+    canvas.width = TabStatusRenderer.FAVICON_SIZE
+    canvas.height = TabStatusRenderer.FAVICON_SIZE
+    const context = canvas.getContext("2d")
+    if (!context) return
+
+    draw(context)
+    this.getOrCreateFaviconLink().href = canvas.toDataURL("image/png")
+    this.faviconKey = key
+  }
+
+  private drawProgress(context: CanvasRenderingContext2D, progress: number): void {
+    const center = TabStatusRenderer.FAVICON_SIZE / 2
+    const radius = center - 6
+
+    context.lineWidth = 10
+    context.strokeStyle = "#e0e0e0"
+    context.beginPath()
+    context.arc(center, center, radius, 0, 2 * Math.PI)
+    context.stroke()
+
+    // Fill clockwise from twelve o'clock
+    context.strokeStyle = "#667eea"
+    context.beginPath()
+    context.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + progress * 2 * Math.PI)
+    context.stroke()
+  }
+
+  private drawAlarm(context: CanvasRenderingContext2D): void {
+    const center = TabStatusRenderer.FAVICON_SIZE / 2
+
+    context.fillStyle = "#e74c3c"
+    context.beginPath()
+    context.arc(center, center, center - 2, 0, 2 * Math.PI)
+    context.fill()
+
+    context.fillStyle = "#ffffff"
+    context.font = "bold 44px sans-serif"
+    context.textAlign = "center"
+    context.textBaseline = "middle"
+    context.fillText("!", center, center + 2)
+  }
+
+  private restoreFavicon(): void {
+    if (this.faviconKey === "") return
+
+    const link = this.getFaviconLink()
+    if (link && this.originalFaviconHref) {
+      link.href = this.originalFaviconHref
+    } else {
+      link?.remove()
+    }
+    this.faviconKey = ""
+  }
+
+  private getFaviconLink(): HTMLLinkElement | null {
+    return document.querySelector<HTMLLinkElement>('link[rel="icon"]')
+  }
+
+  private getOrCreateFaviconLink(): HTMLLinkElement {
+    let link = this.getFaviconLink()
+    if (!link) {
+      link = document.createElement("link")
+      link.rel = "icon"
+      document.head.appendChild(link)
+    }
+    return link
+  }
+
+  onTimerUpdated(_timer: TimerState): void {
+    this.update()
+  }
+
+  onTimersTicked(_timers: TimerState[]): void {
+    this.update()
+  }
+
+  onTimerCreated(_timer: TimerState): void {
+    this.update()
+  }
+
+  onTimerDeleted(_id: number): void {
+    this.update()
+  }
+}
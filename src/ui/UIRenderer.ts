@@ -9,16 +9,43 @@ import type {
   IDashboard,
   TimerState,
   ICountdownTimerState,
+  ICountupTimerState,
+  IDeadlineTimerState,
+  AlertingTimerState,
 } from "../types/index"
-import { ITimerService } from "../types/index"
+import { ITimerService, IVoiceService } from "../types/index"
 import { HtmlSanitizer } from "../utils/HtmlSanitizer"
 import { TimeFormatter } from "../utils/TimeFormatter"
+import { AlertWarningFormatter } from "../utils/AlertWarningFormatter"
+import { VoiceOptionFormatter } from "../utils/VoiceOptionFormatter"
+import { AlarmToneLibrary } from "../utils/AlarmToneLibrary"
+
+interface IEditFormState {
+  fields: Array<{ id: string; value: string; checked: boolean }>
+  focusedId: string | null
+  selectionStart: number | null
+  selectionEnd: number | null
+}
 
 export class UIRenderer implements IUIRenderer, ITimerObserver {
   private timerService: ITimerService
+  private voiceService: IVoiceService
+  private editingTimerId: number | null = null
 
-  constructor(timerService: ITimerService) {
+  constructor(timerService: ITimerService, voiceService: IVoiceService) {
     this.timerService = timerService
+    this.voiceService = voiceService
+  }
+
+  /**
+   * Switch a timer card into edit mode
+   */
+  startEditing(timerId: number): void {
+    this.editingTimerId = timerId
+  }
+
+  stopEditing(): void {
+    this.editingTimerId = null
   }
 
   render(
@@ -85,14 +112,86 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
       .map((id: number) => timerMap.get(id))
       .filter((t: TimerState | undefined): t is TimerState => t !== undefined)
 
+    // The grid is rebuilt every tick, so carry over what is typed into an edit form or lap note
+    const editFormState = this.captureEditForm(container)
+
     container.innerHTML = `
       <div class="timers-grid">
         ${timersToRender.map((timer: TimerState) => this.renderTimerCard(timer)).join("")}
       </div>
     `
+
+    this.restoreEditForm(container, editFormState)
+  }
+
+  private captureEditForm(container: HTMLElement): IEditFormState | null {
+    const openForm = container.querySelector("[data-edit-form]")
+    const form =
+      openForm?.getAttribute("data-edit-form") === String(this.editingTimerId) ? openForm : null
+    const elements = [
+      ...(form ? Array.from(form.querySelectorAll("input, select, textarea")) : []),
+      ...Array.from(container.querySelectorAll(".lap-note-input")),
+    ]
+    if (elements.length === 0) return null
+
+    const fields = elements.map((element) => {
+      const field = element as HTMLInputElement
+      return { id: field.id, value: field.value, checked: field.checked }
+    })
+
+    const active = document.activeElement as HTMLInputElement | null
+    const hasFocus =
+      active !== null &&
+      active.id !== "" &&
+      (form?.contains(active) === true || elements.includes(active))
+
+    return {
+      fields,
+      focusedId: hasFocus ? active.id : null,
+      selectionStart: hasFocus ? this.getSelection(active, "selectionStart") : null,
+      selectionEnd: hasFocus ? this.getSelection(active, "selectionEnd") : null,
+    }
+  }
+
+  private restoreEditForm(container: HTMLElement, state: IEditFormState | null): void {
+    if (!state) return
+
+    for (const field of state.fields) {
+      const element = container.querySelector(`#${CSS.escape(field.id)}`) as HTMLInputElement
+      if (!element) continue
+      element.value = field.value
+      element.checked = field.checked
+    }
+
+    if (state.focusedId) {
+      const focused = document.getElementById(state.focusedId) as HTMLInputElement | null
+      focused?.focus()
+      if (focused && state.selectionStart !== null && state.selectionEnd !== null) {
+        try {
+          focused.setSelectionRange(state.selectionStart, state.selectionEnd)
+        } catch {
+          // Not every input type supports selection
+        }
+      }
+    }
+  }
+
+  private getSelection(
+    element: HTMLInputElement,
+    property: "selectionStart" | "selectionEnd",
+  ): number | null {
+    try {
+      return element[property]
+    } catch {
+      return null
+    }
   }
 
   private renderTimerCard(timer: TimerState): string {
+    if (timer.id === this.editingTimerId) {
+      return this.renderEditCard(timer)
+    }
+
     const displayTime = this.getDisplayTime(timer)
     const isRunning = timer.isRunning
     const isFinished = timer.isFinished
@@ -102,8 +201,8 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
       isRunning && "active",
       isFinished && "finished",
       isFinished &&
-        timer.type === "countdown" &&
-        !(timer as ICountdownTimerState).isAcknowledged &&
+        timer.type !== "countup" &&
+        !(timer as AlertingTimerState).isAcknowledged &&
         "flashing",
     ]
       .filter(Boolean)
@@ -112,28 +211,186 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
     const controlsHtml =
       timer.type === "countup"
         ? this.renderCountupControls(timer.id)
-        : this.renderCountdownControls(timer.id)
-
+        : timer.type === "deadline"
+          ? this.renderDeadlineControls(timer as IDeadlineTimerState)
+          : this.renderCountdownControls(timer.id)
+
+    const targetHtml =
+      timer.type === "deadline"
+        ? `<div class="timer-target">Until ${TimeFormatter.formatClockTime(timer.targetAt)}</div>`
+        : ""
     const configHtml =
-      timer.type === "countdown" ? this.renderAlertConfig(timer as ICountdownTimerState) : ""
+      timer.type !== "countup" ? this.renderAlertConfig(timer as AlertingTimerState) : ""
+    const sequenceHtml = this.renderSequenceInfo(timer)
+    const lapsHtml = timer.type === "countup" ? this.renderLaps(timer as ICountupTimerState) : ""
 
     return `
       <div class="${cardClasses}">
         <div class="timer-label">${HtmlSanitizer.escape(timer.label)}</div>
         <div class="timer-display">${displayTime}</div>
+        ${targetHtml}
         ${configHtml}
+        ${sequenceHtml}
         <div class="timer-controls">
           ${controlsHtml}
         </div>
+        ${lapsHtml}
+      </div>
+    `
+  }
+
+  private renderEditCard(timer: TimerState): string {
+    const id = timer.id
+    const fieldsHtml: string[] = [
+      `
+        <div class="edit-field">
+          <label for="editLabel-${id}">Label</label>
+          <input type="text" id="editLabel-${id}" value="${HtmlSanitizer.escape(timer.label)}" />
+        </div>
+      `,
+    ]
+
+    if (timer.type === "countdown") {
+      const countdownTimer = timer as ICountdownTimerState
+      const isStarted =
+        !countdownTimer.isFinished && countdownTimer.remainingSeconds !== countdownTimer.totalSeconds
+
+      fieldsHtml.push(`
+        <div class="edit-field">
+          <label for="editTimeFormat-${id}">Duration</label>
+          <input type="text" id="editTimeFormat-${id}" value="${TimeFormatter.format(countdownTimer.totalSeconds)}" />
+        </div>
+      `)
+
+      if (isStarted) {
+        fieldsHtml.push(`
+          <div class="edit-field">
+            <label for="editAdjustment-${id}">Remaining Time</label>
+            <select id="editAdjustment-${id}">
+              <option value="absolute">Keep elapsed time</option>
+              <option value="proportional">Scale proportionally</option>
+            </select>
+          </div>
+        `)
+      }
+    } else if (timer.type === "deadline") {
+      fieldsHtml.push(`
+        <div class="edit-field">
+          <label for="editDeadlineAt-${id}">Target Time</label>
+          <input type="datetime-local" id="editDeadlineAt-${id}" value="${TimeFormatter.toDateTimeLocal(timer.targetAt)}" />
+        </div>
+      `)
+    }
+
+    if (timer.type !== "countup") {
+      const config = (timer as AlertingTimerState).alertConfig
+      const repeatMode =
+        config.repeatCount === "infinite"
+          ? "infinite"
+          : config.repeatCount === 1
+            ? "once"
+            : "finite"
+      const repeatOption = (value: string, text: string) =>
+        `<option value="${value}" ${repeatMode === value ? "selected" : ""}>${text}</option>`
+      const alertStyle = config.alertStyle ?? "speech"
+      const styleOption = (value: string, text: string) =>
+        `<option value="${value}" ${alertStyle === value ? "selected" : ""}>${text}</option>`
+
+      fieldsHtml.push(`
+        <div class="edit-field edit-field-inline">
+          <label>
+            <input type="checkbox" id="alertEnabled-${id}" ${config.enabled ? "checked" : ""} />
+            Enable Audio Alert
+          </label>
+        </div>
+        <div class="edit-field">
+          <label for="utteranceTemplate-${id}">Alert Message</label>
+          <input type="text" id="utteranceTemplate-${id}" value="${HtmlSanitizer.escape(config.utteranceTemplate)}" />
+          <small class="utterance-preview" data-utterance-preview="-${id}"></small>
+        </div>
+        <div class="edit-field">
+          <label for="repeatMode-${id}">Repeat</label>
+          <select id="repeatMode-${id}">
+            ${repeatOption("infinite", "Infinite")}
+            ${repeatOption("finite", "Specific Number")}
+            ${repeatOption("once", "Once (No Repeat)")}
+          </select>
+        </div>
+        <div class="edit-field">
+          <label for="repeatCount-${id}">Number of Times</label>
+          <input type="number" id="repeatCount-${id}" min="1" max="100" value="${config.repeatCount === "infinite" ? 3 : config.repeatCount}" />
+        </div>
+        <div class="edit-field">
+          <label for="waitBetweenRepeat-${id}">Wait Between Alerts (seconds)</label>
+          <input type="number" id="waitBetweenRepeat-${id}" min="1" max="60" value="${config.waitBetweenRepeat}" />
+        </div>
+        <div class="edit-field">
+          <label for="snoozeMinutes-${id}">Snooze Length (minutes)</label>
+          <input type="number" id="snoozeMinutes-${id}" min="1" max="120" value="${Math.round((config.snoozeSeconds ?? 300) / 60)}" />
+        </div>
+        <div class="edit-field">
+          <label for="warnings-${id}">Warnings (e.g. 5m | message, 50% | message)</label>
+          <textarea id="warnings-${id}" rows="3">${HtmlSanitizer.escape(AlertWarningFormatter.format(config.warnings ?? []))}</textarea>
+        </div>
+        <div class="edit-field">
+          <label for="voiceName-${id}">Voice</label>
+          <select id="voiceName-${id}">${VoiceOptionFormatter.toHtml(this.voiceService.getVoices(), config.voiceName, config.voiceLang)}</select>
+        </div>
+        <div class="edit-field">
+          <label for="speechRate-${id}">Rate</label>
+          <input type="range" id="speechRate-${id}" min="0.5" max="2" step="0.1" value="${config.rate ?? 1}" />
+        </div>
+        <div class="edit-field">
+          <label for="speechPitch-${id}">Pitch</label>
+          <input type="range" id="speechPitch-${id}" min="0" max="2" step="0.1" value="${config.pitch ?? 1}" />
+        </div>
+        <div class="edit-field">
+          <label for="speechVolume-${id}">Volume</label>
+          <input type="range" id="speechVolume-${id}" min="0" max="1" step="0.1" value="${config.volume ?? 1}" />
+        </div>
+        <div class="edit-field">
+          <button class="btn btn-preview" onclick="window.app.previewVoice(${id})">▶ Preview Voice</button>
+        </div>
+        <div class="edit-field">
+          <label for="alertStyle-${id}">Alert With</label>
+          <select id="alertStyle-${id}">
+            ${styleOption("speech", "Speech")}
+            ${styleOption("sound", "Alarm sound")}
+            ${styleOption("both", "Alarm sound, then speech")}
+          </select>
+        </div>
+        <div class="edit-field">
+          <label for="alarmSound-${id}">Sound</label>
+          <select id="alarmSound-${id}">
+            ${AlarmToneLibrary.tones.map((tone) => `<option value="${tone.name}" ${tone.name === (config.sound ?? "chime") ? "selected" : ""}>${tone.label}</option>`).join("")}
+          </select>
+        </div>
+        <div class="edit-field">
+          <button class="btn btn-preview" onclick="window.app.testSound(${id})">🔔 Test Sound</button>
+        </div>
+      `)
+    }
+
+    return `
+      <div class="timer-card editing" data-edit-form="${id}">
+        ${fieldsHtml.join("")}
+        <div class="timer-controls">
+          <button class="btn btn-start" onclick="window.app.saveTimerEdit(${id})">Save</button>
+          <button class="btn btn-pause" onclick="window.app.cancelTimerEdit()">Cancel</button>
+        </div>
       </div>
     `
   }
 
-  private renderAlertConfig(timer: ICountdownTimerState): string {
+  private renderAlertConfig(timer: AlertingTimerState): string {
     const config = timer.alertConfig
+    const overtimeHtml =
+      timer.isFinished && timer.isAcknowledged && timer.overtimeSeconds > 0
+        ? `<span class="config-badge">${this.formatOvertime(timer.overtimeSeconds)} late</span>`
+        : ""
 
     if (!config.enabled) {
-      return '<div class="timer-config"><span class="config-badge">No Alert</span></div>'
+      return `<div class="timer-config"><span class="config-badge">No Alert</span>${overtimeHtml}</div>`
     }
 
     const repeatText =
@@ -141,14 +398,80 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
         ? "∞ repeats"
         : `${config.repeatCount}x repeat${config.repeatCount !== 1 ? "s" : ""}`
 
+    const warnings = config.warnings ?? []
+    const warningsHtml =
+      warnings.length > 0
+        ? `<span class="config-badge">Warns at ${warnings.map((warning) => AlertWarningFormatter.describe(warning)).join(", ")}</span>`
+        : ""
+
     return `
       <div class="timer-config">
         <span class="config-badge">${repeatText}</span>
         <span class="config-badge">${config.waitBetweenRepeat}s wait</span>
+        ${warningsHtml}
+        ${config.voiceName ? `<span class="config-badge">🗣 ${HtmlSanitizer.escape(config.voiceName)}</span>` : ""}
+        ${config.alertStyle && config.alertStyle !== "speech" ? `<span class="config-badge">🔔 ${AlarmToneLibrary.get(config.sound).label}${config.alertStyle === "both" ? " + speech" : ""}</span>` : ""}
+        ${overtimeHtml}
       </div>
     `
   }
 
+  private renderSequenceInfo(timer: TimerState): string {
+    const sequence = this.timerService.getSequence(timer.id)
+    if (sequence.timerIds.length < 2) {
+      return ""
+    }
+
+    const step = sequence.timerIds.indexOf(timer.id) + 1
+    const badges = [`<span class="config-badge">Step ${step} of ${sequence.timerIds.length}</span>`]
+
+    const nextTimerId =
+      timer.type === "countdown" ? (timer as ICountdownTimerState).nextTimerId : undefined
+    const nextTimer = nextTimerId !== undefined ? this.timerService.getTimer(nextTimerId) : undefined
+    if (nextTimer) {
+      badges.push(`
+        <span class="config-badge sequence-badge">
+          Then: ${HtmlSanitizer.escape(nextTimer.label)}
+          <button class="sequence-unlink-btn" title="Remove from sequence" onclick="window.app.unlinkTimer(${timer.id})">×</button>
+        </span>
+      `)
+    }
+
+    return `<div class="timer-config">${badges.join("")}</div>`
+  }
+
+  private renderLaps(timer: ICountupTimerState): string {
+    if (timer.laps.length === 0) {
+      return ""
+    }
+
+    const lapsHtml = timer.laps
+      .map((lap, index) => {
+        const previousElapsed = index > 0 ? timer.laps[index - 1].elapsedSeconds : 0
+        const split = lap.elapsedSeconds - previousElapsed
+        const recordedAt = new Date(lap.recordedAt).toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+        const noteHtml = lap.note
+          ? `<span class="lap-note">${HtmlSanitizer.escape(lap.note)}</span>`
+          : ""
+
+        return `
+          <li class="lap-item">
+            <span class="lap-index">#${index + 1}</span>
+            <span class="lap-time">${TimeFormatter.format(lap.elapsedSeconds)}</span>
+            <span class="lap-split">+${TimeFormatter.format(split)}</span>
+            <span class="lap-recorded-at">${recordedAt}</span>
+            ${noteHtml}
+          </li>
+        `
+      })
+      .join("")
+
+    return `<ol class="lap-list">${lapsHtml}</ol>`
+  }
+
   private renderCountdownControls(timerId: number): string {
     const timer = this.timerService.getTimer(timerId)
     const isRunning = timer?.isRunning ?? false
@@ -156,19 +479,16 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
     const isAcknowledged =
       timer && timer.type === "countdown" ? (timer as ICountdownTimerState).isAcknowledged : false
 
-    // If finished and not acknowledged, show Acknowledge and Stop Alert buttons
-    if (isFinished && !isAcknowledged) {
-      return `
-        <button class="btn btn-acknowledge" onclick="window.app.acknowledgeTimer(${timerId})">Acknowledge</button>
-        <button class="btn btn-stop-alert" onclick="window.app.stopAlert(${timerId})">Stop Alert</button>
-        <button class="btn btn-delete" onclick="window.app.deleteTimer(${timerId})">Delete</button>
-      `
+    // If finished and not acknowledged, show Acknowledge, Snooze and Stop Alert buttons
+    if (timer && isFinished && !isAcknowledged) {
+      return this.renderAlertingControls(timer as ICountdownTimerState)
     }
     // If finished and acknowledged, show Start and Reset buttons
     if (isFinished && isAcknowledged) {
       return `
         <button class="btn btn-start" onclick="window.app.startTimer(${timerId})">Start</button>
         <button class="btn btn-pause" onclick="window.app.resetCountdownTimer(${timerId})">Reset</button>
+        <button class="btn btn-edit" onclick="window.app.editTimer(${timerId})">Edit</button>
         <button class="btn btn-delete" onclick="window.app.deleteTimer(${timerId})">Delete</button>
       `
     }
@@ -178,7 +498,42 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
         ${isRunning ? "Pause" : "Start"}
       </button>
       <button class="btn btn-pause" onclick="window.app.resetCountdownTimer(${timerId})">Reset</button>
+      <button class="btn btn-edit" onclick="window.app.editTimer(${timerId})">Edit</button>
       <button class="btn btn-delete" onclick="window.app.deleteTimer(${timerId})">Delete</button>
+      ${this.renderTimeAdjustButtons(timerId)}
+    `
+  }
+
+  private renderDeadlineControls(timer: IDeadlineTimerState): string {
+    if (timer.isFinished && !timer.isAcknowledged) {
+      return this.renderAlertingControls(timer)
+    }
+
+    // Deadlines run on their own, so there is nothing to start, pause or reset
+    return `
+      <button class="btn btn-edit" onclick="window.app.editTimer(${timer.id})">Edit</button>
+      <button class="btn btn-delete" onclick="window.app.deleteTimer(${timer.id})">Delete</button>
+      ${timer.isFinished ? "" : this.renderTimeAdjustButtons(timer.id)}
+    `
+  }
+
+  private renderAlertingControls(timer: AlertingTimerState): string {
+    const snoozeSeconds = timer.alertConfig.snoozeSeconds ?? 300
+    return `
+      <button class="btn btn-acknowledge" onclick="window.app.acknowledgeTimer(${timer.id})">Acknowledge</button>
+      <button class="btn btn-snooze" onclick="window.app.snoozeTimer(${timer.id})">Snooze ${TimeFormatter.format(snoozeSeconds)}</button>
+      <button class="btn btn-stop-alert" onclick="window.app.stopAlert(${timer.id})">Stop Alert</button>
+      <button class="btn btn-delete" onclick="window.app.deleteTimer(${timer.id})">Delete</button>
+    `
+  }
+
+  private renderTimeAdjustButtons(timerId: number): string {
+    return `
+      <div class="time-adjust-buttons">
+        <button class="btn btn-adjust" onclick="window.app.adjustTime(${timerId}, -30)">-30s</button>
+        <button class="btn btn-adjust" onclick="window.app.adjustTime(${timerId}, 60)">+1m</button>
+        <button class="btn btn-adjust" onclick="window.app.adjustTime(${timerId}, 300)">+5m</button>
+      </div>
     `
   }
 
@@ -190,19 +545,32 @@ export class UIRenderer implements IUIRenderer, ITimerObserver {
       <button class="btn btn-${isRunning ? "pause" : "start"}" onclick="window.app.${isRunning ? "pauseTimer" : "startTimer"}(${timerId})">
         ${isRunning ? "Pause" : "Start"}
       </button>
+      <div class="lap-controls">
+        <input type="text" class="lap-note-input" id="lapNote-${timerId}" placeholder="Lap note (optional)" onkeydown="if (event.key === 'Enter') window.app.recordLap(${timerId})" />
+        <button class="btn btn-lap" onclick="window.app.recordLap(${timerId})">Lap</button>
+      </div>
       <button class="btn btn-delete" onclick="window.app.resetCountupTimer(${timerId})">Reset</button>
+      <button class="btn btn-edit" onclick="window.app.editTimer(${timerId})">Edit</button>
       <button class="btn btn-delete" onclick="window.app.deleteTimer(${timerId})">Delete</button>
     `
   }
 
   private getDisplayTime(timer: TimerState): string {
-    if (timer.type === "countdown") {
+    if (timer.type !== "countup") {
+      // Unacknowledged finished timers show how late we are
+      if (timer.isFinished && !timer.isAcknowledged && timer.overtimeSeconds > 0) {
+        return this.formatOvertime(timer.overtimeSeconds)
+      }
       return TimeFormatter.format(timer.remainingSeconds)
     } else {
       return TimeFormatter.format(timer.elapsedSeconds)
     }
   }
 
+  private formatOvertime(seconds: number): string {
+    return `+${TimeFormatter.format(seconds)}`
+  }
+
   onTimerUpdated(_timer: TimerState): void {
     // No-op - re-render handled by Application
   }
@@ -0,0 +1,69 @@
+/**
+ * AlarmToneLibrary - Single Responsibility: Define the synthesized alarm sounds
+ * as note patterns the audio service can schedule on the Web Audio API
+ */
+
+import { AlarmSound, IAlarmTone, IToneNote } from "../types/index"
+
+export class AlarmToneLibrary {
+  private static readonly TONES: readonly IAlarmTone[] = [
+    {
+      name: "chime",
+      label: "Chime",
+      // Descending E6 - C6 - G5, each left to ring out
+      notes: [
+        { frequency: 1318.5, start: 0, duration: 0.8, waveform: "sine" },
+        { frequency: 1046.5, start: 0.3, duration: 0.8, waveform: "sine" },
+        { frequency: 784, start: 0.6, duration: 1.2, waveform: "sine" },
+      ],
+    },
+    {
+      name: "klaxon",
+      label: "Klaxon",
+      notes: AlarmToneLibrary.repeat(4, 0.5, [
+        { frequency: 620, start: 0, duration: 0.25, waveform: "square" },
+        { frequency: 460, start: 0.25, duration: 0.25, waveform: "square" },
+      ]),
+    },
+    {
+      name: "rising",
+      label: "Rising beeps",
+      // Each beep glides up a little towards the next one
+      notes: [600, 800, 1000, 1200, 1400].map((frequency, index) => ({
+        frequency,
+        endFrequency: frequency + 150,
+        start: index * 0.2,
+        duration: 0.12,
+        waveform: "sine" as const,
+      })),
+    },
+  ]
+
+  static get tones(): readonly IAlarmTone[] {
+    return AlarmToneLibrary.TONES
+  }
+
+  /**
+   * The named tone, or the chime for names this version does not know
+   */
+  static get(name: AlarmSound | undefined): IAlarmTone {
+    return AlarmToneLibrary.TONES.find((tone) => tone.name === name) ?? AlarmToneLibrary.TONES[0]
+  }
+
+  static isAlarmSound(name: unknown): name is AlarmSound {
+    return AlarmToneLibrary.TONES.some((tone) => tone.name === name)
+  }
+
+  /**
+   * Seconds until the last note of a tone has finished
+   */
+  static getDuration(tone: IAlarmTone): number {
+    return Math.max(...tone.notes.map((note) => note.start + note.duration))
+  }
+
+  private static repeat(times: number, period: number, notes: IToneNote[]): IToneNote[] {
+    return Array.from({ length: times }, (_, index) =>
+      notes.map((note) => ({ ...note, start: note.start + index * period })),
+    ).flat()
+  }
+}
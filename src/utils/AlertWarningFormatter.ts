@@ -0,0 +1,59 @@
+/**
+ * AlertWarningFormatter - Single Responsibility: Convert alert warnings to and from
+ * the one-per-line text of the alert settings, e.g. "5m | {timer name} has 5 minutes left"
+ * or "50% | {timer name} is halfway"
+ */
+
+import { IAlertWarning } from "../types/index"
+import { TimeFormatter } from "./TimeFormatter"
+
+export class AlertWarningFormatter {
+  static describe(warning: IAlertWarning): string {
+    return warning.unit === "percent" ? `${warning.at}%` : TimeFormatter.format(warning.at)
+  }
+
+  static format(warnings: readonly IAlertWarning[]): string {
+    return warnings
+      .map((warning) => `${AlertWarningFormatter.describe(warning)} | ${warning.utteranceTemplate}`)
+      .join("\n")
+  }
+
+  /**
+   * Parse one warning per line, ignoring blank lines
+   * Throws an error naming the first invalid line
+   */
+  static parse(text: string): IAlertWarning[] {
+    const warnings: IAlertWarning[] = []
+
+    text.split("\n").forEach((rawLine, index) => {
+      const line = rawLine.trim()
+      if (!line) return
+
+      const separator = line.indexOf("|")
+      const threshold = (separator >= 0 ? line.slice(0, separator) : line).trim()
+      const utteranceTemplate = separator >= 0 ? line.slice(separator + 1).trim() : ""
+
+      if (!utteranceTemplate) {
+        throw new Error(`Warning line ${index + 1}: add a message after "|"`)
+      }
+
+      const percentMatch = threshold.match(/^(\d+(?:\.\d+)?)\s*%$/)
+      if (percentMatch) {
+        const at = parseFloat(percentMatch[1])
+        if (at <= 0 || at >= 100) {
+          throw new Error(`Warning line ${index + 1}: percentage must be between 0 and 100`)
+        }
+        warnings.push({ at, unit: "percent", utteranceTemplate })
+        return
+      }
+
+      const seconds = TimeFormatter.parse(threshold)
+      if (seconds === null || seconds <= 0) {
+        throw new Error(`Warning line ${index + 1}: use a time like 5m or a percentage like 50%`)
+      }
+      warnings.push({ at: seconds, unit: "seconds", utteranceTemplate })
+    })
+
+    return warnings
+  }
+}
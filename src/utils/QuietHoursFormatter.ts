@@ -0,0 +1,109 @@
+/**
+ * QuietHoursFormatter - Single Responsibility: Convert quiet hours windows to and
+ * from the one-per-line text of the do-not-disturb settings, e.g. "Mon-Fri 22:00-07:00"
+ * or "Daily 23:30-06:00"
+ */
+
+import { IQuietHoursWindow } from "../types/index"
+
+export class QuietHoursFormatter {
+  private static readonly DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+  static describe(quietWindow: IQuietHoursWindow): string {
+    const days = QuietHoursFormatter.formatDays(quietWindow.days)
+    return `${days} ${quietWindow.start}-${quietWindow.end}`
+  }
+
+  static format(windows: readonly IQuietHoursWindow[]): string {
+    return windows.map((quietWindow) => QuietHoursFormatter.describe(quietWindow)).join("\n")
+  }
+
+  /**
+   * Parse one window per line, ignoring blank lines
+   * Throws an error naming the first invalid line
+   */
+  static parse(text: string): IQuietHoursWindow[] {
+    const windows: IQuietHoursWindow[] = []
+
+    text.split("\n").forEach((rawLine, index) => {
+      const line = rawLine.trim()
+      if (!line) return
+
+      const match = line.match(/^(.+?)\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/)
+      if (!match) {
+        throw new Error(
+          `Quiet hours line ${index + 1}: use days and times like Mon-Fri 22:00-07:00`,
+        )
+      }
+
+      const days = QuietHoursFormatter.parseDays(match[1])
+      if (!days) {
+        throw new Error(
+          `Quiet hours line ${index + 1}: use Daily, Weekdays, Weekends or days like Mon-Fri or Sat,Sun`,
+        )
+      }
+
+      const start = QuietHoursFormatter.normalizeTime(match[2])
+      const end = QuietHoursFormatter.normalizeTime(match[3])
+      if (!start || !end) {
+        throw new Error(`Quiet hours line ${index + 1}: times must be between 00:00 and 23:59`)
+      }
+
+      windows.push({ days, start, end })
+    })
+
+    return windows
+  }
+
+  private static formatDays(days: readonly number[]): string {
+    const sorted = [...new Set(days)].sort((a, b) => a - b)
+    if (sorted.length === 7) return "Daily"
+
+    // Group consecutive days into ranges such as Mon-Fri
+    const ranges: string[] = []
+    let rangeStart = 0
+    for (let i = 1; i <= sorted.length; i++) {
+      if (i < sorted.length && sorted[i] === sorted[i - 1] + 1) continue
+
+      const group = sorted.slice(rangeStart, i).map((day) => QuietHoursFormatter.DAY_NAMES[day])
+      ranges.push(group.length >= 3 ? `${group[0]}-${group[group.length - 1]}` : group.join(","))
+      rangeStart = i
+    }
+    return ranges.join(",")
+  }
+
+  private static parseDays(text: string): number[] | null {
+    const normalized = text.trim().toLowerCase()
+    if (normalized === "daily") return [0, 1, 2, 3, 4, 5, 6]
+    if (normalized === "weekdays") return [1, 2, 3, 4, 5]
+    if (normalized === "weekends") return [0, 6]
+
+    const days = new Set<number>()
+    for (const part of normalized.split(",")) {
+      const names = part.split("-")
+      const from = QuietHoursFormatter.parseDay(names[0])
+      const to = names.length > 1 ? QuietHoursFormatter.parseDay(names[1]) : from
+      if (from === null || to === null || names.length > 2) return null
+
+      // Ranges may wrap around the week, e.g. Fri-Mon
+      for (let day = from; ; day = (day + 1) % 7) {
+        days.add(day)
+        if (day === to) break
+      }
+    }
+    return [...days].sort((a, b) => a - b)
+  }
+
+  private static parseDay(name: string): number | null {
+    const index = QuietHoursFormatter.DAY_NAMES.findIndex(
+      (dayName) => dayName.toLowerCase() === name.trim().slice(0, 3),
+    )
+    return index >= 0 ? index : null
+  }
+
+  private static normalizeTime(time: string): string | null {
+    const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10))
+    if (hours > 23 || minutes > 59) return null
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`
+  }
+}
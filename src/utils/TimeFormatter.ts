@@ -1,5 +1,6 @@
 /**
  * TimeFormatter - Single Responsibility: Format seconds into readable time strings
+ * and convert absolute timestamps to and from the user's local time
  */
 
 export class TimeFormatter {
@@ -26,4 +27,128 @@ export class TimeFormatter {
 
     return parts.join("")
   }
+
+  /**
+   * Format seconds as words suitable for speech, e.g. "one hour three minutes"
+   */
+  static toWords(seconds: number): string {
+    const total = Math.max(0, Math.round(seconds))
+    const units: Array<[number, string]> = [
+      [Math.floor(total / 86400), "day"],
+      [Math.floor((total % 86400) / 3600), "hour"],
+      [Math.floor((total % 3600) / 60), "minute"],
+      [total % 60, "second"],
+    ]
+
+    const parts = units
+      .filter(([value]) => value > 0)
+      .map(([value, unit]) => {
+        return `${TimeFormatter.numberToWords(value)} ${unit}${value === 1 ? "" : "s"}`
+      })
+
+    return parts.length > 0 ? parts.join(" ") : "zero seconds"
+  }
+
+  private static readonly ONES = [
+    "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+    "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen",
+    "nineteen",
+  ]
+
+  private static readonly TENS = [
+    "", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety",
+  ]
+
+  /**
+   * Spell out whole numbers below one thousand; larger numbers stay as digits
+   */
+  private static numberToWords(value: number): string {
+    if (value >= 1000) {
+      return String(value)
+    }
+    if (value < 20) {
+      return TimeFormatter.ONES[value]
+    }
+    if (value < 100) {
+      const ones = value % 10
+      const tens = TimeFormatter.TENS[Math.floor(value / 10)]
+      return ones === 0 ? tens : `${tens} ${TimeFormatter.ONES[ones]}`
+    }
+
+    const rest = value % 100
+    const hundreds = `${TimeFormatter.ONES[Math.floor(value / 100)]} hundred`
+    return rest === 0 ? hundreds : `${hundreds} ${TimeFormatter.numberToWords(rest)}`
+  }
+
+  /**
+   * Parse a duration such as "2h3m4s", "5m" or "1d" into seconds
+   * Returns null when no unit is recognised
+   */
+  static parse(format: string): number | null {
+    const formatLower = format.toLowerCase().trim()
+
+    if (!formatLower) return null
+
+    let totalSeconds = 0
+    const dayMatch = formatLower.match(/(\d+)\s*d/)
+    const hourMatch = formatLower.match(/(\d+)\s*h/)
+    const minMatch = formatLower.match(/(\d+)\s*m/)
+    const secMatch = formatLower.match(/(\d+)\s*s/)
+
+    if (!dayMatch && !hourMatch && !minMatch && !secMatch) {
+      return null
+    }
+
+    if (dayMatch) {
+      totalSeconds += parseInt(dayMatch[1]) * 86400
+    }
+    if (hourMatch) {
+      totalSeconds += parseInt(hourMatch[1]) * 3600
+    }
+    if (minMatch) {
+      totalSeconds += parseInt(minMatch[1]) * 60
+    }
+    if (secMatch) {
+      totalSeconds += parseInt(secMatch[1])
+    }
+
+    return totalSeconds
+  }
+
+  /**
+   * Format a timestamp as local wall-clock time, adding the date when it is not today
+   */
+  static formatClockTime(timestamp: number, now: number = Date.now()): string {
+    const date = new Date(timestamp)
+    const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    if (date.toDateString() === new Date(now).toDateString()) {
+      return time
+    }
+    const day = date.toLocaleDateString([], { weekday: "short", day: "numeric", month: "short" })
+    return `${day} ${time}`
+  }
+
+  /**
+   * Convert a timestamp to the local "YYYY-MM-DDTHH:MM" value used by datetime-local inputs
+   */
+  static toDateTimeLocal(timestamp: number): string {
+    const date = new Date(timestamp)
+    const pad = (value: number) => String(value).padStart(2, "0")
+    return (
+      `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+    )
+  }
+
+  /**
+   * Parse a datetime-local value as local time; returns NaN when it is not valid
+   */
+  static parseDateTimeLocal(value: string): number {
+    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value.trim())
+    if (!match) {
+      return NaN
+    }
+    const [, year, month, day, hours, minutes] = match.map(Number)
+    return new Date(year, month - 1, day, hours, minutes).getTime()
+  }
 }
@@ -0,0 +1,85 @@
+/**
+ * UtteranceTemplate - Single Responsibility: Fill the placeholders of an alert
+ * message, e.g. "{timer name} finished {overtime} ago", with speech-friendly text
+ */
+
+import { IUtteranceContext } from "../types/index"
+import { TimeFormatter } from "./TimeFormatter"
+
+type PlaceholderRenderer = (context: IUtteranceContext) => string
+
+export class UtteranceTemplate {
+  private static readonly PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+
+  private static readonly PLACEHOLDERS: Record<string, PlaceholderRenderer> = {
+    "timer name": (context) => context.timerName,
+    dashboard: (context) => context.dashboard ?? "",
+    duration: (context) => UtteranceTemplate.spokenDuration(context.durationSeconds),
+    remaining: (context) => UtteranceTemplate.spokenDuration(context.remainingSeconds),
+    overtime: (context) => UtteranceTemplate.spokenDuration(context.overtimeSeconds),
+    "start time": (context) => UtteranceTemplate.spokenTime(context.startedAt),
+    "target time": (context) => UtteranceTemplate.spokenTime(context.targetAt),
+    "next timer": (context) => context.nextTimer ?? "nothing",
+    time: (context) => UtteranceTemplate.spokenTime(context.now),
+  }
+
+  /**
+   * Placeholder names in the order they are offered to the user
+   */
+  static get placeholders(): string[] {
+    return Object.keys(UtteranceTemplate.PLACEHOLDERS).map((name) => `{${name}}`)
+  }
+
+  /**
+   * Replace every known placeholder; values the context lacks become empty and
+   * the surrounding whitespace is tidied so nothing is read out as a gap
+   */
+  static render(template: string, context: IUtteranceContext): string {
+    return template
+      .replace(UtteranceTemplate.PLACEHOLDER_PATTERN, (match, rawName: string) => {
+        const renderer = UtteranceTemplate.PLACEHOLDERS[UtteranceTemplate.normalize(rawName)]
+        return renderer ? renderer(context) : match
+      })
+      .replace(/\s+/g, " ")
+      .trim()
+  }
+
+  /**
+   * Placeholders the template uses that cannot be filled, as written by the user
+   */
+  static findUnknownPlaceholders(template: string): string[] {
+    const unknown: string[] = []
+    for (const match of template.matchAll(UtteranceTemplate.PLACEHOLDER_PATTERN)) {
+      const name = UtteranceTemplate.normalize(match[1])
+      if (!UtteranceTemplate.PLACEHOLDERS[name] && !unknown.includes(match[0])) {
+        unknown.push(match[0])
+      }
+    }
+    return unknown
+  }
+
+  /**
+   * Throws an error naming the unknown placeholders of a template, if any
+   */
+  static validate(template: string): void {
+    const unknown = UtteranceTemplate.findUnknownPlaceholders(template)
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown placeholder ${unknown.join(", ")}. Available: ${UtteranceTemplate.placeholders.join(", ")}`,
+      )
+    }
+  }
+
+  private static normalize(name: string): string {
+    return name.trim().replace(/\s+/g, " ").toLowerCase()
+  }
+
+  private static spokenDuration(seconds: number | undefined): string {
+    return seconds === undefined ? "" : TimeFormatter.toWords(seconds)
+  }
+
+  private static spokenTime(timestamp: number | undefined): string {
+    if (timestamp === undefined) return ""
+    return new Date(timestamp).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+  }
+}
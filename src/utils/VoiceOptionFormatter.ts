@@ -0,0 +1,42 @@
+/**
+ * VoiceOptionFormatter - Single Responsibility: Render installed speech voices as
+ * <option> elements for the voice pickers of the alert settings
+ */
+
+import { IVoiceOption } from "../types/index"
+import { HtmlSanitizer } from "./HtmlSanitizer"
+
+export class VoiceOptionFormatter {
+  /**
+   * Options sorted by language, led by the default voice; a selected voice that
+   * is not installed on this device is kept so saving does not lose it
+   */
+  static toHtml(
+    voices: IVoiceOption[],
+    selectedName: string = "",
+    selectedLang: string = "",
+  ): string {
+    const sorted = [...voices].sort(
+      (a, b) => a.lang.localeCompare(b.lang) || a.name.localeCompare(b.name),
+    )
+
+    const options = [
+      `<option value="" ${selectedName === "" ? "selected" : ""}>Default voice</option>`,
+    ]
+
+    if (selectedName && !voices.some((voice) => voice.name === selectedName)) {
+      options.push(
+        `<option value="${HtmlSanitizer.escape(selectedName)}" data-lang="${HtmlSanitizer.escape(selectedLang)}" selected>${HtmlSanitizer.escape(selectedName)} (not installed)</option>`,
+      )
+    }
+
+    for (const voice of sorted) {
+      const selected = voice.name === selectedName ? "selected" : ""
+      options.push(
+        `<option value="${HtmlSanitizer.escape(voice.name)}" data-lang="${HtmlSanitizer.escape(voice.lang)}" ${selected}>${HtmlSanitizer.escape(voice.name)} (${HtmlSanitizer.escape(voice.lang)})</option>`,
+      )
+    }
+
+    return options.join("")
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * YamlConverter - Single Responsibility: Convert JSON-compatible values to and from
+ * YAML text
+ *
+ * Covers the YAML people write by hand for data like manifests: block mappings and
+ * sequences, flow collections on a single line ([a, b], {a: 1}), plain, single- and
+ * double-quoted scalars, and comments. Plain scalars resolve as in the YAML 1.2 core
+ * schema (null, true/false, numbers, otherwise strings). Anchors, aliases, tags,
+ * block scalars (| and >) and multi-line scalars are reported as unsupported
+ */
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json }
+
+interface IYamlLine {
+  readonly number: number
+  readonly indent: number
+  readonly text: string
+}
+
+export class YamlConverter {
+  private static readonly INDENT = 2
+  private static readonly RESERVED = /^(null|~|true|false|yes|no|on|off|y|n)$/i
+  private static readonly SAFE_PLAIN = /^[A-Za-z_$][\w$ .,()/+-]*$/
+  private static readonly NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+
+  /**
+   * YAML for a value, in block style with two-space indentation
+   */
+  static stringify(value: unknown): string {
+    return `${YamlConverter.stringifyValue(value, 0).join("\n")}\n`
+  }
+
+  /**
+   * The value of a YAML document
+   * Throws an error naming the line of the first problem
+   */
+  static parse(text: string): unknown {
+    const lines = YamlConverter.toLines(text)
+    if (lines.length === 0) return null
+
+    const { value, next } = YamlConverter.parseBlock(lines, 0, lines[0].indent)
+    if (next < lines.length) {
+      throw YamlConverter.error(lines[next], "unexpected indentation")
+    }
+    return value
+  }
+
+  private static stringifyValue(value: unknown, indent: number): string[] {
+    const pad = " ".repeat(indent)
+
+    if (Array.isArray(value) && value.length > 0) {
+      return value.flatMap((item) => {
+        if (YamlConverter.isBlock(item)) {
+          // The first line of a nested block shares the line of its "-"
+          const itemIndent = indent + YamlConverter.INDENT
+          const [first, ...rest] = YamlConverter.stringifyValue(item, itemIndent)
+          return [`${pad}- ${first.trimStart()}`, ...rest]
+        }
+        return [`${pad}- ${YamlConverter.stringifyScalar(item)}`]
+      })
+    }
+
+    if (YamlConverter.isBlock(value)) {
+      const entryIndent = indent + YamlConverter.INDENT
+      return Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .flatMap(([key, entry]) => {
+          const name = YamlConverter.stringifyScalar(key)
+          return YamlConverter.isBlock(entry)
+            ? [`${pad}${name}:`, ...YamlConverter.stringifyValue(entry, entryIndent)]
+            : [`${pad}${name}: ${YamlConverter.stringifyScalar(entry)}`]
+        })
+    }
+
+    return [`${pad}${YamlConverter.stringifyScalar(value)}`]
+  }
+
+  /**
+   * Non-empty arrays and objects are written as blocks; everything else fits on a line
+   */
+  private static isBlock(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      Object.values(value).some((entry) => entry !== undefined)
+    )
+  }
+
+  private static stringifyScalar(value: unknown): string {
+    if (Array.isArray(value)) return "[]"
+    if (typeof value === "object" && value !== null) return "{}"
+    if (typeof value === "string") {
+      const isPlain =
+        YamlConverter.SAFE_PLAIN.test(value) &&
+        !value.endsWith(" ") &&
+        !YamlConverter.RESERVED.test(value)
+      return isPlain ? value : JSON.stringify(value)
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) return "null"
+    return value === undefined ? "null" : String(value)
+  }
+
+  /**
+   * The lines that carry content, without comments or trailing whitespace
+   */
+  private static toLines(text: string): IYamlLine[] {
+    const lines: IYamlLine[] = []
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const content = YamlConverter.stripComment(rawLine).trimEnd()
+      const text = content.trimStart()
+      const line: IYamlLine = { number: index + 1, indent: content.length - text.length, text }
+      if (!text) return
+
+      if (content.slice(0, line.indent).includes("\t")) {
+        throw YamlConverter.error(line, "indent with spaces, not tabs")
+      }
+      if (line.indent === 0 && (text === "---" || text === "...")) {
+        if (text === "---" && lines.length > 0) {
+          throw YamlConverter.error(line, "only one document is supported")
+        }
+        return
+      }
+      if (line.indent === 0 && text.startsWith("%")) {
+        throw YamlConverter.error(line, "directives are not supported")
+      }
+      lines.push(line)
+    })
+    return lines
+  }
+
+  private static stripComment(line: string): string {
+    let quote: string | null = null
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quote) {
+        if (char === "\\" && quote === '"') i++
+        else if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i)
+      }
+    }
+    return line
+  }
+
+  private static parseBlock(
+    lines: IYamlLine[],
+    start: number,
+    indent: number,
+  ): { value: Json; next: number } {
+    return YamlConverter.isSequenceItem(lines[start].text)
+      ? YamlConverter.parseSequence(lines, start, indent)
+      : YamlConverter.parseMapping(lines, start, indent)
+  }
+
+  private static parseSequence(
+    lines: IYamlLine[],
+    start: number,
+    indent: number,
+  ): { value: Json[]; next: number } {
+    const items: Json[] = []
+    let i = start
+
+    // A sequence at the indentation of its key ends at the next key
+    while (
+      i < lines.length &&
+      lines[i].indent === indent &&
+      YamlConverter.isSequenceItem(lines[i].text)
+    ) {
+      const line = lines[i]
+      const rest = line.text.slice(1).trimStart()
+      if (!rest) {
+        // The item is the block on the following lines
+        if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+          const { value, next } = YamlConverter.parseBlock(lines, i + 1, lines[i + 1].indent)
+          items.push(value)
+          i = next
+        } else {
+          items.push(null)
+          i++
+        }
+        continue
+      }
+
+      if (YamlConverter.isSequenceItem(rest) || YamlConverter.findKeySeparator(rest) >= 0) {
+        // A block starting on the line of the "-", e.g. "- id: 1" followed by more keys
+        const column = indent + line.text.length - rest.length
+        lines[i] = { number: line.number, indent: column, text: rest }
+        const { value, next } = YamlConverter.parseBlock(lines, i, column)
+        items.push(value)
+        i = next
+        continue
+      }
+
+      items.push(YamlConverter.parseInline(rest, line))
+      i++
+    }
+
+    if (i < lines.length && lines[i].indent > indent) {
+      throw YamlConverter.error(lines[i], "unexpected indentation")
+    }
+    return { value: items, next: i }
+  }
+
+  private static parseMapping(
+    lines: IYamlLine[],
+    start: number,
+    indent: number,
+  ): { value: { [key: string]: Json }; next: number } {
+    const mapping: { [key: string]: Json } = {}
+    let i = start
+
+    while (i < lines.length && lines[i].indent === indent) {
+      const line = lines[i]
+      if (YamlConverter.isSequenceItem(line.text)) {
+        throw YamlConverter.error(line, "expected a 'key: value' entry")
+      }
+
+      const separator = YamlConverter.findKeySeparator(line.text)
+      if (separator < 0) {
+        throw YamlConverter.error(line, "expected a 'key: value' entry")
+      }
+      const rawKey = line.text.slice(0, separator).trim()
+      const key = /^["']/.test(rawKey)
+        ? String(YamlConverter.parseInline(rawKey, line))
+        : rawKey
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw YamlConverter.error(line, `duplicate key '${key}'`)
+      }
+
+      const rest = line.text.slice(separator + 1).trim()
+      i++
+      if (rest) {
+        mapping[key] = YamlConverter.parseInline(rest, line)
+      } else if (i < lines.length && lines[i].indent > indent) {
+        const { value, next } = YamlConverter.parseBlock(lines, i, lines[i].indent)
+        mapping[key] = value
+        i = next
+      } else if (
+        i < lines.length &&
+        lines[i].indent === indent &&
+        YamlConverter.isSequenceItem(lines[i].text)
+      ) {
+        // Sequences may sit at the indentation of their key
+        const { value, next } = YamlConverter.parseSequence(lines, i, indent)
+        mapping[key] = value
+        i = next
+      } else {
+        mapping[key] = null
+      }
+    }
+
+    if (i < lines.length && lines[i].indent > indent) {
+      throw YamlConverter.error(lines[i], "unexpected indentation")
+    }
+    return { value: mapping, next: i }
+  }
+
+  private static isSequenceItem(text: string): boolean {
+    return text === "-" || text.startsWith("- ")
+  }
+
+  /**
+   * Index of the ":" ending the key of a "key: value" line, or -1 when there is none
+   */
+  private static findKeySeparator(text: string): number {
+    let i = 0
+    if (text[0] === '"' || text[0] === "'") {
+      i = YamlConverter.findClosingQuote(text, 0) + 1
+      if (i === 0) return -1
+    } else if (/^[[{]/.test(text)) {
+      return -1
+    }
+
+    for (; i < text.length; i++) {
+      if (text[i] === ":" && (i + 1 === text.length || /\s/.test(text[i + 1]))) return i
+    }
+    return -1
+  }
+
+  private static findClosingQuote(text: string, start: number): number {
+    const quote = text[start]
+    for (let i = start + 1; i < text.length; i++) {
+      if (quote === '"' && text[i] === "\\") {
+        i++
+      } else if (text[i] === quote) {
+        if (quote === "'" && text[i + 1] === "'") {
+          i++
+        } else {
+          return i
+        }
+      }
+    }
+    return -1
+  }
+
+  /**
+   * A scalar or flow collection that makes up the rest of a line
+   */
+  private static parseInline(text: string, line: IYamlLine): Json {
+    if (/^[&*!|>@`]/.test(text)) {
+      const feature = /^[&*]/.test(text)
+        ? "anchors and aliases"
+        : text[0] === "!"
+          ? "tags"
+          : /^[|>]/.test(text)
+            ? "block scalars"
+            : `values starting with '${text[0]}'`
+      throw YamlConverter.error(line, `${feature} are not supported`)
+    }
+
+    const { value, end } = YamlConverter.parseFlow(text, 0, line, false)
+    if (text.slice(end).trim()) {
+      throw YamlConverter.error(line, `unexpected '${text.slice(end).trim()}'`)
+    }
+    return value
+  }
+
+  /**
+   * Parse a value starting at a position; inside flow collections plain scalars
+   * end at ",", "]" and "}"
+   */
+  private static parseFlow(
+    text: string,
+    start: number,
+    line: IYamlLine,
+    inFlow: boolean,
+  ): { value: Json; end: number } {
+    let i = start
+    while (text[i] === " ") i++
+
+    if (text[i] === "[" || text[i] === "{") {
+      return YamlConverter.parseFlowCollection(text, i, line)
+    }
+
+    if (text[i] === '"' || text[i] === "'") {
+      const close = YamlConverter.findClosingQuote(text, i)
+      if (close < 0) throw YamlConverter.error(line, "unterminated quoted string")
+      const quoted = text.slice(i, close + 1)
+      return { value: YamlConverter.unquote(quoted, line), end: close + 1 }
+    }
+
+    let end = i
+    while (end < text.length && !(inFlow && /[,\]}]/.test(text[end]))) {
+      if (inFlow && text[end] === ":" && /[\s,\]}]/.test(text[end + 1] ?? " ")) break
+      end++
+    }
+    return { value: YamlConverter.resolvePlain(text.slice(i, end).trim()), end }
+  }
+
+  private static parseFlowCollection(
+    text: string,
+    start: number,
+    line: IYamlLine,
+  ): { value: Json; end: number } {
+    const isSequence = text[start] === "["
+    const close = isSequence ? "]" : "}"
+    const items: Json[] = []
+    const mapping: { [key: string]: Json } = {}
+    let i = start + 1
+
+    const skipSpaces = () => {
+      while (text[i] === " ") i++
+    }
+
+    const checkClosed = () => {
+      if (i >= text.length) {
+        throw YamlConverter.error(line, "flow collections must close on the same line")
+      }
+    }
+
+    skipSpaces()
+    while (text[i] !== close) {
+      checkClosed()
+      const entry = YamlConverter.parseFlow(text, i, line, true)
+      i = entry.end
+      skipSpaces()
+
+      if (isSequence) {
+        items.push(entry.value)
+      } else {
+        if (text[i] !== ":") throw YamlConverter.error(line, "expected ':' in flow mapping")
+        const value = YamlConverter.parseFlow(text, i + 1, line, true)
+        mapping[String(entry.value)] = value.value
+        i = value.end
+        skipSpaces()
+      }
+
+      if (text[i] === ",") {
+        i++
+        skipSpaces()
+      } else if (text[i] !== close) {
+        checkClosed()
+        throw YamlConverter.error(line, `expected ',' or '${close}'`)
+      }
+    }
+
+    return { value: isSequence ? items : mapping, end: i + 1 }
+  }
+
+  private static unquote(quoted: string, line: IYamlLine): string {
+    if (quoted[0] === "'") {
+      return quoted.slice(1, -1).replace(/''/g, "'")
+    }
+    try {
+      return JSON.parse(quoted)
+    } catch {
+      throw YamlConverter.error(line, `unsupported escape in ${quoted}`)
+    }
+  }
+
+  private static resolvePlain(text: string): Json {
+    if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null
+    if (/^(true|True|TRUE)$/.test(text)) return true
+    if (/^(false|False|FALSE)$/.test(text)) return false
+    if (YamlConverter.NUMBER.test(text)) return Number(text)
+    if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16)
+    if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8)
+    return text
+  }
+
+  private static error(line: IYamlLine, message: string): Error {
+    return new Error(`Invalid YAML at line ${line.number}: ${message}`)
+  }
+}